@@ -3,12 +3,24 @@ import {
     BROWSER_HEADLESS_ENABLE,
     BROWSER_PERSISTENT_ENABLE,
     BROWSER_PERSISTENT_USER_DATA_DIR,
+    BROWSER_STORAGE_STATE_DIR,
     BROWSER_USE_INSTALLED_ON_SYSTEM,
 } from './config';
 
 import fs from 'fs';
-
-import type { Browser, BrowserContext, Locator, Page } from 'playwright';
+import path from 'path';
+
+import picomatch from 'picomatch';
+import type {
+    Browser,
+    BrowserContext,
+    BrowserContextOptions as PlaywrightBrowserContextOptions,
+    ElementHandle,
+    Frame,
+    Locator,
+    Page,
+    Route,
+} from 'playwright';
 import { chromium, firefox, webkit } from 'playwright';
 import type { LaunchOptions } from 'playwright';
 
@@ -32,14 +44,78 @@ export type BrowserContextOptions = {
     persistent?: {
         userDataDir: string;
     };
+    emulation?: BrowserContextEmulationOptions;
+
+    /**
+     * Name of the saved storage state (cookies, localStorage, IndexedDB)
+     * to initialize the browser context with.
+     */
+    storageStateName?: string;
+
+    /**
+     * Storage state to initialize the browser context with.
+     * Takes precedence over the named storage state.
+     */
+    storageState?: StorageState;
 };
 
+/**
+ * Emulation related options which can only be specified
+ * while creating the browser context.
+ */
+export type BrowserContextEmulationOptions = Pick<
+    PlaywrightBrowserContextOptions,
+    | 'viewport'
+    | 'screen'
+    | 'deviceScaleFactor'
+    | 'isMobile'
+    | 'hasTouch'
+    | 'userAgent'
+    | 'locale'
+    | 'timezoneId'
+    | 'geolocation'
+    | 'permissions'
+    | 'colorScheme'
+    | 'reducedMotion'
+    | 'forcedColors'
+>;
+
 export type BrowserContextInfo = {
     browserContext: BrowserContext;
 };
 
 export type PageOptions = {};
 
+export type FrameSelector = {
+    /**
+     * Chain of iframe element selectors.
+     * Each selector is resolved in the frame selected by the previous one,
+     * starting from the main frame.
+     */
+    selectors?: string[];
+
+    /**
+     * Name (or id) of the frame.
+     */
+    name?: string;
+
+    /**
+     * Glob pattern matched against the frame URL (picomatch).
+     */
+    url?: string;
+};
+
+export type StorageStateInfo = {
+    name: string;
+    filePath: string;
+    cookieCount: number;
+    originCount: number;
+};
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+type StorageStateOrigin = StorageState['origins'][number];
+
 type LaunchPersistentContextOptions = Parameters<
     typeof chromium.launchPersistentContext
 >[1];
@@ -132,6 +208,7 @@ function _persistentBrowserContextLaunchOptions(
         executablePath: browserOptions.executablePath,
         bypassCSP: true,
         viewport: browserOptions.headless ? undefined : null,
+        ...browserContextOptions.emulation,
     };
     if (browserOptions.useInstalledOnSystem) {
         switch (browserOptions.browserType) {
@@ -223,8 +300,8 @@ async function _getPersistentBrowserContext(
 
 ////////////////////////////////////////////////////////////////////////////////
 
-export async function newBrowserContext(
-    browserContextOptions: BrowserContextOptions = {
+export function defaultBrowserContextOptions(): BrowserContextOptions {
+    return {
         browserOptions: {
             browserType: DEFAULT_BROWSER_TYPE,
             headless: BROWSER_HEADLESS_ENABLE,
@@ -236,11 +313,29 @@ export async function newBrowserContext(
                   userDataDir: BROWSER_PERSISTENT_USER_DATA_DIR,
               }
             : undefined,
-    }
+    };
+}
+
+export async function newBrowserContext(
+    browserContextOptions: BrowserContextOptions = defaultBrowserContextOptions()
 ): Promise<BrowserContextInfo> {
     if (browserContextOptions.persistent) {
         const browserContext: BrowserContext =
             await _getPersistentBrowserContext(browserContextOptions);
+        if (browserContextOptions.storageStateName) {
+            // Persistent browser contexts cannot be initialized with a storage state,
+            // so it is restored into the already created browser context
+            try {
+                await loadStorageState(
+                    browserContext,
+                    browserContextOptions.storageStateName
+                );
+            } catch (err: any) {
+                // Otherwise, the user data directory stays locked by the registered browser context
+                await closeBrowserContext(browserContext).catch((): void => {});
+                throw err;
+            }
+        }
         return {
             browserContext,
         };
@@ -253,6 +348,12 @@ export async function newBrowserContext(
                 ? undefined
                 : null,
             bypassCSP: true,
+            ...browserContextOptions.emulation,
+            storageState:
+                browserContextOptions.storageState ??
+                (browserContextOptions.storageStateName
+                    ? _readStorageState(browserContextOptions.storageStateName)
+                    : undefined),
         });
         return {
             browserContext,
@@ -285,11 +386,252 @@ export async function closeBrowserContext(
 
 ////////////////////////////////////////////////////////////////////////////////
 
-async function getElementFailFast(
+export function getStorageStateFilePath(name: string): string {
+    const n: string = name.trim();
+    if (!/^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(n)) {
+        throw new Error(
+            `Invalid storage state name "${name}": only letters, digits, ".", "_" and "-" are allowed`
+        );
+    }
+    return path.join(BROWSER_STORAGE_STATE_DIR, `${n}.json`);
+}
+
+function _readStorageState(name: string): StorageState {
+    const filePath: string = getStorageStateFilePath(name);
+    if (!fs.existsSync(filePath)) {
+        throw new Error(
+            `Storage state "${name}" could not be found at: ${filePath}`
+        );
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as StorageState;
+}
+
+async function _restoreOriginStorage(
+    browserContext: BrowserContext,
+    originState: StorageStateOrigin
+): Promise<number> {
+    const page: Page = await browserContext.newPage();
+    try {
+        // Serve an empty document for the origin, so the storage can be restored
+        // without hitting the real site
+        await page.route('**/*', async (route: Route): Promise<void> => {
+            await route.fulfill({
+                status: 200,
+                contentType: 'text/html',
+                body: '<html><head></head><body></body></html>',
+            });
+        });
+        await page.goto(originState.origin);
+
+        return await page.evaluate(async (state: any): Promise<number> => {
+            const idbRequest = (req: IDBRequest | IDBOpenDBRequest): any =>
+                new Promise((resolve: any, reject: any): void => {
+                    req.addEventListener('success', () => resolve(req.result));
+                    req.addEventListener('error', () => reject(req.error));
+                });
+
+            localStorage.clear();
+            for (const item of state.localStorage ?? []) {
+                localStorage.setItem(item.name, item.value);
+            }
+
+            // Records with values which are not plain JSON (Date, Map, typed arrays, ...)
+            // are serialized by Playwright in its own encoding, so we skip them
+            let skippedRecordCount: number = 0;
+            for (const dbState of state.indexedDB ?? []) {
+                await idbRequest(indexedDB.deleteDatabase(dbState.name));
+                const openRequest: IDBOpenDBRequest = indexedDB.open(
+                    dbState.name,
+                    dbState.version
+                );
+                openRequest.addEventListener('upgradeneeded', (): void => {
+                    const db: IDBDatabase = openRequest.result;
+                    for (const store of dbState.stores) {
+                        const objectStore: IDBObjectStore =
+                            db.createObjectStore(store.name, {
+                                autoIncrement: store.autoIncrement,
+                                keyPath: store.keyPathArray ?? store.keyPath,
+                            });
+                        for (const index of store.indexes) {
+                            objectStore.createIndex(
+                                index.name,
+                                index.keyPathArray ?? index.keyPath,
+                                {
+                                    unique: index.unique,
+                                    multiEntry: index.multiEntry,
+                                }
+                            );
+                        }
+                    }
+                });
+                const db: IDBDatabase = await idbRequest(openRequest);
+                if (db.objectStoreNames.length > 0) {
+                    const tx: IDBTransaction = db.transaction(
+                        db.objectStoreNames,
+                        'readwrite'
+                    );
+                    for (const store of dbState.stores) {
+                        const objectStore: IDBObjectStore = tx.objectStore(
+                            store.name
+                        );
+                        for (const record of store.records) {
+                            if (
+                                'valueEncoded' in record ||
+                                'keyEncoded' in record
+                            ) {
+                                skippedRecordCount++;
+                                continue;
+                            }
+                            await idbRequest(
+                                objectStore.add(record.value, record.key)
+                            );
+                        }
+                    }
+                }
+                db.close();
+            }
+            return skippedRecordCount;
+        }, originState);
+    } finally {
+        await page.close().catch((): void => {});
+    }
+}
+
+/**
+ * Saves the storage state (cookies, localStorage and IndexedDB) of the given browser context
+ * into the named storage state file.
+ */
+export async function saveStorageState(
+    browserContext: BrowserContext,
+    name: string,
+    options: { indexedDB?: boolean } = {}
+): Promise<StorageStateInfo> {
+    const filePath: string = getStorageStateFilePath(name);
+
+    // Be sure that storage state dir is available
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const storageState: StorageState = await browserContext.storageState({
+        path: filePath,
+        indexedDB: options.indexedDB ?? true,
+    });
+    return {
+        name,
+        filePath,
+        cookieCount: storageState.cookies.length,
+        originCount: storageState.origins.length,
+    };
+}
+
+/**
+ * Restores the named storage state (cookies, localStorage and IndexedDB)
+ * into the given (already created) browser context.
+ */
+export async function loadStorageState(
+    browserContext: BrowserContext,
+    name: string
+): Promise<StorageStateInfo & { skippedIndexedDBRecordCount: number }> {
+    const filePath: string = getStorageStateFilePath(name);
+    const storageState: StorageState = _readStorageState(name);
+
+    if (storageState.cookies?.length) {
+        await browserContext.addCookies(storageState.cookies);
+    }
+
+    let skippedIndexedDBRecordCount: number = 0;
+    for (const originState of storageState.origins ?? []) {
+        skippedIndexedDBRecordCount += await _restoreOriginStorage(
+            browserContext,
+            originState
+        );
+    }
+
+    return {
+        name,
+        filePath,
+        cookieCount: storageState.cookies?.length ?? 0,
+        originCount: storageState.origins?.length ?? 0,
+        skippedIndexedDBRecordCount,
+    };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function _collectFrames(frame: Frame): Frame[] {
+    const frames: Frame[] = [frame];
+    for (const child of frame.childFrames()) {
+        frames.push(..._collectFrames(child));
+    }
+    return frames;
+}
+
+function _describeFrameSelector(frameSelector: FrameSelector): string {
+    return JSON.stringify(frameSelector);
+}
+
+/**
+ * Resolves the frame to act on in the given page.
+ * If no frame selector is given, the main frame of the page is returned.
+ *
+ * The iframe selector chain (if any) is resolved first,
+ * and then the name/URL filters are applied to the resolved frame and its descendants.
+ */
+export async function getFrame(
+    page: Page,
+    frameSelector?: FrameSelector
+): Promise<Frame> {
+    let frame: Frame = page.mainFrame();
+    if (!frameSelector) {
+        return frame;
+    }
+
+    for (const selector of frameSelector.selectors ?? []) {
+        const element: ElementHandle = await frame.waitForSelector(selector, {
+            state: 'attached',
+        });
+        const contentFrame: Frame | null = await element.contentFrame();
+        if (!contentFrame) {
+            throw new Error(
+                `Element with selector "${selector}" is not an iframe`
+            );
+        }
+        frame = contentFrame;
+    }
+
+    if (frameSelector.name || frameSelector.url) {
+        const urlMatcher: ((url: string) => boolean) | undefined =
+            frameSelector.url
+                ? picomatch(frameSelector.url.trim(), { dot: true })
+                : undefined;
+        const matchedFrame: Frame | undefined = _collectFrames(frame).find(
+            (f: Frame): boolean => {
+                if (frameSelector.name && f.name() !== frameSelector.name) {
+                    return false;
+                }
+                if (urlMatcher && !urlMatcher(f.url())) {
+                    return false;
+                }
+                return true;
+            }
+        );
+        if (!matchedFrame) {
+            throw new Error(
+                `Could not find frame with selector ${_describeFrameSelector(frameSelector)}`
+            );
+        }
+        frame = matchedFrame;
+    }
+
+    return frame;
+}
+
+export async function getElementFailFast(
     page: Page,
-    selector: string
+    selector: string,
+    frameSelector?: FrameSelector
 ): Promise<Locator> {
-    const element: Locator = page.locator(selector);
+    const frame: Frame = await getFrame(page, frameSelector);
+    const element: Locator = frame.locator(selector);
     if ((await element.count()) === 0) {
         throw new Error(`Could not find element with selector "${selector}"`);
     }
@@ -25,11 +25,25 @@ type GlobalOptions = {
     userDataDir?: string;
     useSystemBrowser?: boolean;
     browserPath?: string;
+    // Session options
+    browser?: string;
+    locale?: string;
+    timezone?: string;
+    userAgent?: string;
+};
+
+type SessionOptions = {
+    browserType?: string;
+    headless?: boolean;
+    locale?: string;
+    timezone?: string;
+    userAgent?: string;
 };
 
 type ToolCallRequest = {
     toolName: string;
     toolInput: ToolInput;
+    sessionOptions?: SessionOptions;
 };
 
 type ToolCallResponse = {
@@ -45,6 +59,13 @@ type SessionInfo = {
     createdAt: number;
     lastActiveAt: number;
     idleSeconds: number;
+    browserType?: string;
+    headless?: boolean;
+    locale?: string;
+    timezone?: string;
+    userAgent?: string;
+    storageState?: string;
+    stubFile?: string;
 };
 
 type SessionListResponse = {
@@ -122,6 +143,16 @@ function _buildDaemonEnv(opts: GlobalOptions): NodeJS.ProcessEnv {
     return env;
 }
 
+function _buildSessionOptions(opts: GlobalOptions): SessionOptions {
+    return {
+        browserType: opts.browser,
+        headless: opts.headless,
+        locale: opts.locale,
+        timezone: opts.timezone,
+        userAgent: opts.userAgent,
+    };
+}
+
 function _startDaemonDetached(opts: GlobalOptions): void {
     const daemonServerPath: string = path.join(__dirname, 'daemon-server.js');
     const env: NodeJS.ProcessEnv = _buildDaemonEnv(opts);
@@ -214,7 +245,8 @@ async function _callTool(
     toolName: string,
     toolInput: ToolInput,
     sessionId?: string,
-    timeout?: number
+    timeout?: number,
+    sessionOptions?: SessionOptions
 ): Promise<ToolCallResponse> {
     const headers: Record<string, string> = {
         'Content-Type': 'application/json',
@@ -224,9 +256,11 @@ async function _callTool(
         headers['session-id'] = sessionId;
     }
 
+    // Session options are only applied by the daemon if the session is created by this call
     const request: ToolCallRequest = {
         toolName,
         toolInput,
+        sessionOptions,
     };
 
     _verbose(`Calling tool: ${toolName}`);
@@ -267,6 +301,34 @@ async function _callTool(
     return result;
 }
 
+async function _createSession(
+    port: number,
+    sessionId: string,
+    sessionOptions: SessionOptions & {
+        storageState?: string;
+        stubFile?: string;
+    },
+    timeout: number
+): Promise<SessionInfo> {
+    const response: Response = await fetch(`http://localhost:${port}/session`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'session-id': sessionId,
+        },
+        body: JSON.stringify(sessionOptions),
+        signal: AbortSignal.timeout(timeout),
+    });
+    const result: any = await response.json();
+    if (!response.ok) {
+        throw new Error(
+            result?.error?.message ??
+                `Failed to create session (status: ${response.status})`
+        );
+    }
+    return result as SessionInfo;
+}
+
 async function _deleteSession(
     port: number,
     sessionId: string,
@@ -623,6 +685,28 @@ function _addGlobalOptions(cmd: Command): Command {
                     'Custom browser executable path'
                 )
             )
+            // Session options (applied when the session is created)
+            .addOption(
+                new Option(
+                    '--browser <type>',
+                    'Browser engine of the session'
+                ).choices(['chromium', 'firefox', 'webkit'])
+            )
+            .addOption(
+                new Option(
+                    '--locale <locale>',
+                    'Locale of the session (e.g. "en-US")'
+                )
+            )
+            .addOption(
+                new Option(
+                    '--timezone <timezone>',
+                    'Timezone of the session (e.g. "Europe/Istanbul")'
+                )
+            )
+            .addOption(
+                new Option('--user-agent <string>', 'User agent of the session')
+            )
     );
 }
 
@@ -1045,6 +1129,21 @@ async function main(): Promise<void> {
                         console.log(
                             `  Idle:        ${_formatUptime(info.idleSeconds)}`
                         );
+                        if (info.browserType) {
+                            console.log(`  Browser:     ${info.browserType}`);
+                        }
+                        if (info.headless !== undefined) {
+                            console.log(`  Headless:    ${info.headless}`);
+                        }
+                        if (info.locale) {
+                            console.log(`  Locale:      ${info.locale}`);
+                        }
+                        if (info.timezone) {
+                            console.log(`  Timezone:    ${info.timezone}`);
+                        }
+                        if (info.userAgent) {
+                            console.log(`  User Agent:  ${info.userAgent}`);
+                        }
                     }
                 } else {
                     if (opts.json) {
@@ -1078,6 +1177,70 @@ async function main(): Promise<void> {
             }
         });
 
+    sessionCmd
+        .command('create <session-id>')
+        .description('Create a new session')
+        .option(
+            '--storage-state <name>',
+            'Name of the saved storage state to initialize the session with'
+        )
+        .option(
+            '--stub-file <path>',
+            'Path of the stub file (exported by "stub export") to preload into the session, read as YAML if it has a ".yaml" or ".yml" extension, otherwise as JSON'
+        )
+        .action(
+            async (
+                sessionId: string,
+                cmdOpts: { storageState?: string; stubFile?: string }
+            ) => {
+                const opts: GlobalOptions = program.opts() as GlobalOptions;
+
+                try {
+                    await _ensureDaemonRunning(opts);
+
+                    const session: SessionInfo = await _createSession(
+                        opts.port,
+                        sessionId,
+                        {
+                            ..._buildSessionOptions(opts),
+                            storageState: cmdOpts.storageState,
+                            // Resolved here, as the daemon might be running in another directory
+                            stubFile: cmdOpts.stubFile
+                                ? path.resolve(cmdOpts.stubFile)
+                                : undefined,
+                        },
+                        opts.timeout ?? DEFAULT_TIMEOUT
+                    );
+
+                    if (opts.json) {
+                        _printOutput(
+                            {
+                                status: 'created',
+                                sessionId: session.id,
+                            },
+                            true
+                        );
+                    } else if (!opts.quiet) {
+                        console.log(`Session '${session.id}' created`);
+                    }
+                } catch (err: any) {
+                    if (opts.json) {
+                        _printOutput(
+                            {
+                                status: 'error',
+                                error: err.message,
+                            },
+                            true,
+                            true
+                        );
+                    } else {
+                        console.error(`Error: ${err.message}`);
+                    }
+                    process.exit(1);
+                }
+            }
+        );
+
     sessionCmd
         .command('delete <session-id>')
         .description('Delete a specific session')
@@ -1554,11 +1717,15 @@ _browser_devtools_cli_completions() {
             COMPREPLY=( \$(compgen -W "\${tools_cmds}" -- "\${cur}") )
             return 0
             ;;
+        --browser)
+            COMPREPLY=( \$(compgen -W "chromium firefox webkit" -- "\${cur}") )
+            return 0
+            ;;
     esac
     
     # Global options
     if [[ "\${cur}" == -* ]]; then
-        local opts="--port --session-id --json --quiet --verbose --timeout --headless --no-headless --persistent --no-persistent --user-data-dir --use-system-browser --browser-path --help --version"
+        local opts="--port --session-id --json --quiet --verbose --timeout --headless --no-headless --persistent --no-persistent --user-data-dir --use-system-browser --browser-path --browser --locale --timezone --user-agent --help --version"
         COMPREPLY=( \$(compgen -W "\${opts}" -- "\${cur}") )
         return 0
     fi
@@ -1637,6 +1804,10 @@ _browser_devtools_cli() {
         '--user-data-dir[User data directory]:path:_files -/' \\
         '--use-system-browser[Use system browser]' \\
         '--browser-path[Browser executable path]:path:_files' \\
+        '--browser[Browser engine of the session]:browser:(chromium firefox webkit)' \\
+        '--locale[Locale of the session]:locale' \\
+        '--timezone[Timezone of the session]:timezone' \\
+        '--user-agent[User agent of the session]:user_agent' \\
         '--help[Show help]' \\
         '--version[Show version]' \\
         '1: :->cmd' \\
@@ -2042,7 +2213,8 @@ _browser_devtools_cli
                         toolName,
                         toolInput as ToolInput,
                         opts.sessionId,
-                        opts.timeout
+                        opts.timeout,
+                        _buildSessionOptions(opts)
                     );
 
                     if (response.toolError) {
@@ -2429,7 +2601,8 @@ _browser_devtools_cli
                     toolName,
                     toolInput as ToolInput,
                     opts.sessionId,
-                    opts.timeout
+                    opts.timeout,
+                    _buildSessionOptions(opts)
                 );
 
                 // Handle response
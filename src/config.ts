@@ -76,6 +76,37 @@ export const CONSOLE_MESSAGES_BUFFER_SIZE: number =
     _envInt('CONSOLE_MESSAGES_BUFFER_SIZE') ?? 1_000;
 export const HTTP_REQUESTS_BUFFER_SIZE: number =
     _envInt('HTTP_REQUESTS_BUFFER_SIZE') ?? 1_000;
+export const HTTP_BODY_MAX_SIZE: number =
+    _envInt('HTTP_BODY_MAX_SIZE') ?? 65_536;
+export const HTTP_BODY_MAX_SIZE_BY_CONTENT_TYPE: Record<string, number> =
+    Object.fromEntries(
+        Object.entries(
+            _parseKeyValueFromEnv(_envStr('HTTP_BODY_MAX_SIZE_BY_CONTENT_TYPE'))
+        )
+            .map(([contentType, size]: [string, string]): [string, number] => [
+                contentType.toLowerCase(),
+                Math.floor(Number(size)),
+            ])
+            .filter(([, size]: [string, number]): boolean =>
+                Number.isFinite(size)
+            )
+    );
+export const HTTP_BODY_SKIP_BINARY: boolean =
+    _envBool('HTTP_BODY_SKIP_BINARY') ?? true;
+export const HTTP_FULL_BODIES_MAX_SIZE: number =
+    _envInt('HTTP_FULL_BODIES_MAX_SIZE') ?? 104_857_600;
+export const HTTP_INITIATOR_SOURCE_MAPS_ENABLE: boolean =
+    _envBool('HTTP_INITIATOR_SOURCE_MAPS_ENABLE') ?? true;
+export const HAR_RECORDING_MAX_ENTRIES: number =
+    _envInt('HAR_RECORDING_MAX_ENTRIES') ?? 10_000;
+export const WEBSOCKET_CONNECTIONS_BUFFER_SIZE: number =
+    _envInt('WEBSOCKET_CONNECTIONS_BUFFER_SIZE') ?? 100;
+export const WEBSOCKET_FRAMES_BUFFER_SIZE: number =
+    _envInt('WEBSOCKET_FRAMES_BUFFER_SIZE') ?? 1_000;
+export const SSE_EVENTS_BUFFER_SIZE: number =
+    _envInt('SSE_EVENTS_BUFFER_SIZE') ?? 1_000;
+export const STUB_PRELOAD_FILE: string | undefined =
+    _envStr('STUB_PRELOAD_FILE');
 
 // Browser Configs
 export const BROWSER_HEADLESS_ENABLE: boolean =
@@ -90,6 +121,9 @@ export const BROWSER_USE_INSTALLED_ON_SYSTEM: boolean =
 export const BROWSER_EXECUTABLE_PATH: string | undefined = _envStr(
     'BROWSER_EXECUTABLE_PATH'
 );
+export const BROWSER_STORAGE_STATE_DIR: string =
+    _envStr('BROWSER_STORAGE_STATE_DIR') ??
+    path.join(process.cwd(), 'browser-devtools-mcp-storage-states');
 
 // OpenTelemetry Configs
 export const OTEL_ENABLE: boolean = _envBool('OTEL_ENABLE') ?? false;
@@ -102,6 +136,10 @@ export const OTEL_ASSETS_DIR: string | undefined = _envStr('OTEL_ASSETS_DIR');
 export const OTEL_INSTRUMENTATION_USER_INTERACTION_EVENTS: string[] = _envStr(
     'OTEL_INSTRUMENTATION_USER_INTERACTION_EVENTS'
 )?.split(',') ?? ['click'];
+export const OTEL_SIGNALS: string[] = _envStr('OTEL_SIGNALS')
+    ?.split(',')
+    .map((signal: string): string => signal.trim())
+    .filter(Boolean) ?? ['traces'];
 export const OTEL_EXPORTER_TYPE: string =
     _envStr('OTEL_EXPORTER_TYPE') ?? 'none';
 export const OTEL_EXPORTER_HTTP_URL: string | undefined = _envStr(
@@ -109,6 +147,8 @@ export const OTEL_EXPORTER_HTTP_URL: string | undefined = _envStr(
 );
 export const OTEL_EXPORTER_HTTP_HEADERS: Record<string, string> =
     _parseKeyValueFromEnv(_envStr('OTEL_EXPORTER_HTTP_HEADERS'));
+export const OTEL_SPANS_BUFFER_SIZE: number =
+    _envInt('OTEL_SPANS_BUFFER_SIZE') ?? 10_000;
 
 // AWS Configs
 export const AWS_REGION: string | undefined = _envStr('AWS_REGION');
@@ -1,10 +1,36 @@
-import { closeBrowserContext } from './browser';
+import {
+    BrowserContextEmulationOptions,
+    BrowserContextOptions,
+    closeBrowserContext,
+    defaultBrowserContextOptions,
+    loadStorageState,
+    newBrowserContext,
+    newPage,
+    StorageState,
+    StorageStateInfo,
+} from './browser';
 import {
     CONSOLE_MESSAGES_BUFFER_SIZE,
+    HAR_RECORDING_MAX_ENTRIES,
+    HTTP_BODY_MAX_SIZE,
+    HTTP_BODY_MAX_SIZE_BY_CONTENT_TYPE,
+    HTTP_BODY_SKIP_BINARY,
+    HTTP_FULL_BODIES_MAX_SIZE,
+    HTTP_INITIATOR_SOURCE_MAPS_ENABLE,
     HTTP_REQUESTS_BUFFER_SIZE,
+    OTEL_SPANS_BUFFER_SIZE,
+    SSE_EVENTS_BUFFER_SIZE,
+    WEBSOCKET_CONNECTIONS_BUFFER_SIZE,
+    WEBSOCKET_FRAMES_BUFFER_SIZE,
 } from './config';
 import * as logger from './logger';
-import { OTELController } from './otel/otel-controller';
+import {
+    defaultOTELRuntimeConfig,
+    OTELController,
+    OTELRuntimeConfig,
+} from './otel/otel-controller';
+import { OTELSpan, OTELSpanStore } from './otel/otel-span-store';
+import { transferStubs } from './tools/stub/stub-controller';
 import {
     ConsoleMessage,
     ConsoleMessageLevel,
@@ -12,35 +38,156 @@ import {
     ConsoleMessageLevelName,
     HttpMethod,
     HttpRequest,
+    HttpRequestInitiator,
+    HttpRequestInitiatorFrame,
+    HttpRequestTiming,
     HttpResourceType,
+    NetworkConditions,
+    SseEvent,
+    WebSocketConnection,
+    WebSocketFrameDirection,
 } from './types';
-import { newTraceId } from './utils';
+import {
+    createSseParser,
+    isTextContentType,
+    newTraceId,
+    parseTraceparent,
+    ServerSentEvent,
+    Traceparent,
+} from './utils';
+import {
+    OriginalLocation,
+    SourceMapFetchResult,
+    SourceMapResolver,
+} from './utils/source-map-utils';
 
 import {
+    APIResponse,
     BrowserContext,
+    CDPSession,
     ConsoleMessage as PlaywrightConsoleMessage,
     Page,
     Request,
     Response,
+    WebSocket,
 } from 'playwright';
 
 export type ToolSessionContextOptions = {
     otelEnable: boolean;
+
+    /**
+     * Options which the browser context of the session has been created with.
+     * Used to recreate the browser context with different emulation options.
+     */
+    browserContextOptions?: BrowserContextOptions;
+};
+
+export type MediaEmulationOptions = NonNullable<
+    Parameters<Page['emulateMedia']>[0]
+>;
+
+export type SessionPage = {
+    pageId: string;
+    page: Page;
+};
+
+export type HarRecording = {
+    /**
+     * Unix epoch timestamp (in milliseconds) of the recording start.
+     */
+    startedAt: number;
+    /**
+     * Recorded HTTP requests with full (text or base64 encoded binary) response bodies.
+     */
+    requests: HttpRequest[];
+    /**
+     * Count of the HTTP requests which were not recorded
+     * as the maximum number of entries had been reached.
+     */
+    droppedCount: number;
+};
+
+/**
+ * Full (not truncated) bodies of a captured HTTP request.
+ */
+export type HttpRequestBodies = {
+    request?: Buffer;
+    response?: Buffer;
 };
 
+// Part of an HTTP request/response body kept in the captured HTTP request
+type CapturedHttpBody = {
+    captured?: Buffer;
+    truncated?: boolean;
+    originalSize?: number;
+};
+
+export type Geolocation = {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+};
+
+// Key of the permissions which are granted for all origins
+const ALL_ORIGINS: string = '*';
+const HTTP_INITIATOR_MAX_STACK_FRAMES: number = 32;
+const HTTP_INITIATOR_MAX_PENDING_REQUESTS: number = 1_000;
+const SOURCE_MAP_FETCH_TIMEOUT_MS: number = 10_000;
+
 export class ToolSessionContext {
     private readonly _sessionId: string;
     private readonly options: ToolSessionContextOptions;
-    private readonly otelController: OTELController;
+    private otelController: OTELController;
+    private readonly otelSpanStore: OTELSpanStore = new OTELSpanStore(
+        OTEL_SPANS_BUFFER_SIZE
+    );
+    // Kept by the session, so it is re-applied when the browser context is recreated
+    private otelRuntimeConfig: OTELRuntimeConfig = defaultOTELRuntimeConfig();
     private readonly consoleMessages: ConsoleMessage[] = [];
     private readonly httpRequests: HttpRequest[] = [];
+    // Full bodies of the captured HTTP requests by their sequence numbers (oldest first)
+    private readonly httpRequestBodies: Map<number, HttpRequestBodies> =
+        new Map();
+    private _httpRequestBodiesSize: number = 0;
+    // Initiators reported by CDP before their requests are issued (by page id, method and URL, in issue order)
+    private readonly pendingHttpRequestInitiators: Map<
+        string,
+        HttpRequestInitiator[]
+    > = new Map();
+    // Requests issued before their initiators are reported by CDP (by page id, method and URL, in issue order)
+    private readonly pendingHttpInitiatorRequests: Map<string, Request[]> =
+        new Map();
+    private readonly httpRequestInitiators: WeakMap<
+        Request,
+        HttpRequestInitiator
+    > = new WeakMap();
+    private readonly initiatorCapturePages: WeakSet<Page> = new WeakSet();
+    private readonly sourceMapResolver: SourceMapResolver;
+    private readonly webSocketConnections: WebSocketConnection[] = [];
+    private readonly sseEvents: SseEvent[] = [];
+    private readonly pagesById: Map<string, Page> = new Map();
+    private readonly pageIds: WeakMap<Page, string> = new WeakMap();
     private initialized: boolean = false;
     private closed: boolean = false;
+    private storageStateLoading: boolean = false;
     private traceId?: string;
+    private activePageId?: string;
+    private _pageIdSequenceNumber: number = 0;
+    private _consoleMessageSequenceNumber: number = 0;
+    private _httpRequestSequenceNumber: number = 0;
+    private _webSocketConnectionSequenceNumber: number = 0;
+    private _sseStreamSequenceNumber: number = 0;
+    private _sseEventSequenceNumber: number = 0;
     private _numOfInFlightRequests: number = 0;
     private _lastNetworkActivityTimestamp: number = 0;
-    readonly browserContext: BrowserContext;
-    readonly page: Page;
+    private _browserContext: BrowserContext;
+    private browserContextOptions: BrowserContextOptions;
+    private mediaEmulation: MediaEmulationOptions = {};
+    private readonly grantedPermissions: Map<string, Set<string>> = new Map();
+    private readonly cdpSessions: WeakMap<Page, CDPSession> = new WeakMap();
+    private networkConditions?: NetworkConditions;
+    private cpuThrottlingRate?: number;
+    private harRecording?: HarRecording;
 
     constructor(
         sessionId: string,
@@ -49,10 +196,42 @@ export class ToolSessionContext {
         options: ToolSessionContextOptions
     ) {
         this._sessionId = sessionId;
-        this.browserContext = browserContext;
-        this.page = page;
+        this._browserContext = browserContext;
+        this.browserContextOptions =
+            options.browserContextOptions ?? defaultBrowserContextOptions();
         this.options = options;
-        this.otelController = new OTELController(this.browserContext);
+        this.otelController = new OTELController(
+            this._browserContext,
+            this.otelSpanStore
+        );
+        this.sourceMapResolver = new SourceMapResolver(
+            (url: string): Promise<SourceMapFetchResult | undefined> =>
+                this._fetchSourceMapResource(url)
+        );
+        this.activePageId = this._registerPage(page);
+    }
+
+    /**
+     * The browser context of the session.
+     * It might change during the session, when the browser context is recreated.
+     */
+    get browserContext(): BrowserContext {
+        return this._browserContext;
+    }
+
+    /**
+     * The active page of the session. All page-scoped tools act on this page.
+     */
+    get page(): Page {
+        const page: Page | undefined = this.activePageId
+            ? this.pagesById.get(this.activePageId)
+            : undefined;
+        if (!page) {
+            throw new Error(
+                'There is no open page in the session, open a new one first'
+            );
+        }
+        return page;
     }
 
     async init(): Promise<void> {
@@ -64,13 +243,110 @@ export class ToolSessionContext {
             throw new Error('Session context is already initialized');
         }
 
+        this._attachBrowserContext(this._browserContext);
+
+        if (this.options.otelEnable) {
+            this.traceId = newTraceId();
+            await this.otelController.init({
+                traceId: this.traceId,
+            });
+        }
+
+        this.initialized = true;
+    }
+
+    private _attachBrowserContext(browserContext: BrowserContext): void {
         const me: ToolSessionContext = this;
 
-        let consoleMessageSequenceNumber: number = 0;
-        this.page.on('console', (msg: PlaywrightConsoleMessage): void => {
-            me.consoleMessages.push(
-                me._toConsoleMessage(msg, ++consoleMessageSequenceNumber)
+        // Track pages which are already open and the ones opened later
+        // by the page itself (popups, "target=_blank" links, "window.open")
+        for (const p of browserContext.pages()) {
+            this._registerPage(p);
+        }
+        browserContext.on('page', (p: Page): void => {
+            // Ignore pages of the previous browser context (if it has been recreated)
+            // and the temporary pages opened to restore the storage state
+            if (p.context() === me._browserContext && !me.storageStateLoading) {
+                me._registerPage(p);
+            }
+        });
+    }
+
+    private _registerPage(page: Page, pageId?: string): string {
+        const existingPageId: string | undefined = this.pageIds.get(page);
+        if (existingPageId) {
+            return existingPageId;
+        }
+
+        pageId = pageId ?? `page-${++this._pageIdSequenceNumber}`;
+        this.pageIds.set(page, pageId);
+        this.pagesById.set(pageId, page);
+        this._attachPage(page, pageId);
+
+        if (Object.keys(this.mediaEmulation).length > 0) {
+            page.emulateMedia(this.mediaEmulation).catch((err: any): void => {
+                logger.debug(
+                    `Unable to emulate media on the page with id ${pageId}`,
+                    err
+                );
+            });
+        }
+        if (this.networkConditions || this.cpuThrottlingRate) {
+            this._applyThrottling(page).catch((err: any): void => {
+                logger.debug(
+                    `Unable to apply throttling on the page with id ${pageId}`,
+                    err
+                );
+            });
+        }
+
+        logger.debug(
+            `Registered page with id ${pageId} to the session with id ${this._sessionId}`
+        );
+
+        return pageId;
+    }
+
+    private _unregisterPage(pageId: string, page: Page): void {
+        // The page id might have been reused by another page
+        // if the browser context has been recreated
+        if (this.pagesById.get(pageId) !== page) {
+            return;
+        }
+        this.pagesById.delete(pageId);
+        if (this.activePageId === pageId) {
+            // Fallback to the most recently opened page
+            const remainingPageIds: string[] = [...this.pagesById.keys()];
+            this.activePageId = remainingPageIds.length
+                ? remainingPageIds[remainingPageIds.length - 1]
+                : undefined;
+        }
+
+        logger.debug(
+            `Unregistered page with id ${pageId} from the session with id ${this._sessionId}`
+        );
+    }
+
+    private _attachPage(page: Page, pageId: string): void {
+        const me: ToolSessionContext = this;
+
+        page.on('close', (): void => {
+            me._unregisterPage(pageId, page);
+        });
+
+        page.on('console', (msg: PlaywrightConsoleMessage): void => {
+            const consoleMessage: ConsoleMessage = me._toConsoleMessage(
+                msg,
+                pageId,
+                ++me._consoleMessageSequenceNumber
             );
+            me.consoleMessages.push(consoleMessage);
+            if (consoleMessage.level.name === ConsoleMessageLevelName.ERROR) {
+                me.otelController.exportConsoleErrorLog(
+                    consoleMessage,
+                    page.url()
+                );
+            }
             if (me.consoleMessages.length > CONSOLE_MESSAGES_BUFFER_SIZE) {
                 me.consoleMessages.splice(
                     0,
@@ -78,10 +354,15 @@ export class ToolSessionContext {
                 );
             }
         });
-        this.page.on('pageerror', (err: Error): void => {
+        page.on('pageerror', (err: Error): void => {
             me.consoleMessages.push(
-                me._errorToConsoleMessage(err, ++consoleMessageSequenceNumber)
+                me._errorToConsoleMessage(
+                    err,
+                    pageId,
+                    ++me._consoleMessageSequenceNumber
+                )
             );
+            me.otelController.exportPageErrorLog(err, page.url());
             if (me.consoleMessages.length > CONSOLE_MESSAGES_BUFFER_SIZE) {
                 me.consoleMessages.splice(
                     0,
@@ -90,58 +371,662 @@ export class ToolSessionContext {
             }
         });
 
-        let httpRequestSequenceNumber: number = 0;
-        this.page.on('request', async (req: Request): Promise<void> => {
+        page.on('request', async (req: Request): Promise<void> => {
             // Ignore OTEL requests
             if (me.otelController.isOTELRequest(req)) {
                 return;
             }
             me._numOfInFlightRequests++;
             me._lastNetworkActivityTimestamp = Date.now();
+            if (me.initiatorCapturePages.has(page)) {
+                me._matchHttpRequestInitiator(req, pageId);
+            }
         });
-        this.page.on('requestfinished', async (req: Request): Promise<void> => {
+        page.on('requestfinished', async (req: Request): Promise<void> => {
             // Ignore OTEL requests
             if (me.otelController.isOTELRequest(req)) {
                 return;
             }
             me._numOfInFlightRequests--;
             me._lastNetworkActivityTimestamp = Date.now();
-            me.httpRequests.push(
-                await me._toHttpRequest(req, ++httpRequestSequenceNumber)
-            );
-            if (me.httpRequests.length > HTTP_REQUESTS_BUFFER_SIZE) {
-                me.httpRequests.splice(
-                    0,
-                    me.httpRequests.length - HTTP_REQUESTS_BUFFER_SIZE
-                );
-            }
+            await me._onHttpRequestCompleted(req, pageId);
         });
-        this.page.on('requestfailed', async (req: Request): Promise<void> => {
+        page.on('requestfailed', async (req: Request): Promise<void> => {
             // Ignore OTEL requests
             if (me.otelController.isOTELRequest(req)) {
                 return;
             }
             me._numOfInFlightRequests--;
             me._lastNetworkActivityTimestamp = Date.now();
-            me.httpRequests.push(
-                await me._toHttpRequest(req, ++httpRequestSequenceNumber)
+            await me._onHttpRequestCompleted(req, pageId);
+        });
+
+        page.on('websocket', (ws: WebSocket): void => {
+            me._onWebSocket(ws, pageId);
+        });
+
+        me._attachCDPCapture(page, pageId).catch((err: any): void => {
+            logger.debug(
+                `Unable to capture network events by CDP on the page with id ${pageId}`,
+                err
             );
-            if (me.httpRequests.length > HTTP_REQUESTS_BUFFER_SIZE) {
-                me.httpRequests.splice(
+        });
+    }
+
+    /**
+     * Captures the network events which are only reported by CDP
+     * (request initiators and Server-Sent Events).
+     * Only supported on Chromium-based browsers.
+     */
+    private async _attachCDPCapture(page: Page, pageId: string): Promise<void> {
+        let cdpSession: CDPSession;
+        try {
+            cdpSession = await this._getCDPSession(page);
+        } catch (err: any) {
+            logger.debug(
+                `Request initiator and SSE capture are only supported on Chromium-based browsers, skipped for the page with id ${pageId}`,
+                err
+            );
+            return;
+        }
+
+        this._attachInitiatorCapture(cdpSession, pageId);
+        this._attachSseCapture(cdpSession, pageId);
+
+        await cdpSession.send('Network.enable');
+        this.initiatorCapturePages.add(page);
+    }
+
+    /**
+     * Captures the initiators (script location and stack, including the async stacks)
+     * of the requests. As CDP request ids are not exposed by Playwright,
+     * initiators are matched to the requests by their method and URL,
+     * in the order the requests are issued (both CDP and Playwright report them in that order).
+     */
+    private _attachInitiatorCapture(
+        cdpSession: CDPSession,
+        pageId: string
+    ): void {
+        const me: ToolSessionContext = this;
+
+        type CDPStackTrace = {
+            description?: string;
+            callFrames: Array<{
+                functionName: string;
+                url: string;
+                lineNumber: number;
+                columnNumber: number;
+            }>;
+            parent?: CDPStackTrace;
+        };
+
+        cdpSession.on(
+            'Network.requestWillBeSent',
+            (event: {
+                request: { url: string; urlFragment?: string; method: string };
+                initiator: {
+                    type: string;
+                    url?: string;
+                    lineNumber?: number;
+                    columnNumber?: number;
+                    stack?: CDPStackTrace;
+                };
+            }): void => {
+                // Playwright doesn't report the requests of the data URLs
+                if (event.request.url.startsWith('data:')) {
+                    return;
+                }
+
+                const stack: HttpRequestInitiatorFrame[] = [];
+                for (
+                    let stackTrace: CDPStackTrace | undefined =
+                        event.initiator.stack;
+                    stackTrace &&
+                    stack.length < HTTP_INITIATOR_MAX_STACK_FRAMES;
+                    stackTrace = stackTrace.parent
+                ) {
+                    // Parent stacks are the async stacks, described by their async operation
+                    const asyncDescription: string | undefined =
+                        stackTrace === event.initiator.stack
+                            ? undefined
+                            : stackTrace.description;
+                    stackTrace.callFrames.forEach(
+                        (
+                            frame: CDPStackTrace['callFrames'][number],
+                            i: number
+                        ): void => {
+                            stack.push({
+                                functionName: frame.functionName,
+                                url: frame.url,
+                                lineNumber: frame.lineNumber,
+                                columnNumber: frame.columnNumber,
+                                asyncDescription:
+                                    i === 0 ? asyncDescription : undefined,
+                            });
+                        }
+                    );
+                }
+                const initiator: HttpRequestInitiator = {
+                    type: event.initiator.type,
+                    url: event.initiator.url,
+                    lineNumber: event.initiator.lineNumber,
+                    columnNumber: event.initiator.columnNumber,
+                    stack: stack.length
+                        ? stack.slice(0, HTTP_INITIATOR_MAX_STACK_FRAMES)
+                        : undefined,
+                };
+
+                const key: string = me._toHttpRequestInitiatorKey(
+                    pageId,
+                    event.request.method,
+                    event.request.url + (event.request.urlFragment ?? '')
+                );
+                const req: Request | undefined = me._shiftPending(
+                    me.pendingHttpInitiatorRequests,
+                    key
+                );
+                if (req) {
+                    me.httpRequestInitiators.set(req, initiator);
+                } else {
+                    // Initiators of the requests which are not reported by Playwright
+                    // (or ignored, like the OTEL requests) are never taken, so the oldest ones are dropped
+                    me._pushPending(
+                        me.pendingHttpRequestInitiators,
+                        key,
+                        initiator
+                    );
+                }
+            }
+        );
+    }
+
+    /**
+     * Matches the given (just issued) request to the oldest pending initiator
+     * with the same method and URL, or waits for its initiator to be reported by CDP.
+     */
+    private _matchHttpRequestInitiator(req: Request, pageId: string): void {
+        const key: string = this._toHttpRequestInitiatorKey(
+            pageId,
+            req.method(),
+            req.url()
+        );
+        const initiator: HttpRequestInitiator | undefined = this._shiftPending(
+            this.pendingHttpRequestInitiators,
+            key
+        );
+        if (initiator) {
+            this.httpRequestInitiators.set(req, initiator);
+        } else {
+            this._pushPending(this.pendingHttpInitiatorRequests, key, req);
+        }
+    }
+
+    private _toHttpRequestInitiatorKey(
+        pageId: string,
+        method: string,
+        url: string
+    ): string {
+        return `${pageId} ${method} ${url}`;
+    }
+
+    private _pushPending<T>(
+        pending: Map<string, T[]>,
+        key: string,
+        value: T
+    ): void {
+        const values: T[] = pending.get(key) ?? [];
+        values.push(value);
+        // Delete and set again to keep the keys ordered by their last use
+        pending.delete(key);
+        pending.set(key, values);
+        if (pending.size > HTTP_INITIATOR_MAX_PENDING_REQUESTS) {
+            pending.delete(pending.keys().next().value!);
+        }
+    }
+
+    private _shiftPending<T>(
+        pending: Map<string, T[]>,
+        key: string
+    ): T | undefined {
+        const values: T[] | undefined = pending.get(key);
+        const value: T | undefined = values?.shift();
+        if (values && values.length === 0) {
+            pending.delete(key);
+        }
+        return value;
+    }
+
+    private _takeHttpRequestInitiator(
+        req: Request,
+        pageId: string
+    ): HttpRequestInitiator | undefined {
+        const initiator: HttpRequestInitiator | undefined =
+            this.httpRequestInitiators.get(req);
+        if (!initiator) {
+            // Completed before its initiator is reported, so it doesn't wait for it anymore
+            const key: string = this._toHttpRequestInitiatorKey(
+                pageId,
+                req.method(),
+                req.url()
+            );
+            const requests: Request[] | undefined =
+                this.pendingHttpInitiatorRequests.get(key);
+            const index: number = requests ? requests.indexOf(req) : -1;
+            if (index >= 0) {
+                requests!.splice(index, 1);
+                if (requests!.length === 0) {
+                    this.pendingHttpInitiatorRequests.delete(key);
+                }
+            }
+        }
+        return initiator;
+    }
+
+    /**
+     * Resolves the frames of the given initiator to their original locations
+     * through the source maps of their scripts (in place, in background).
+     */
+    private async _resolveHttpRequestInitiator(
+        initiator: HttpRequestInitiator
+    ): Promise<void> {
+        for (const frame of initiator.stack ?? []) {
+            if (!frame.url) {
+                continue;
+            }
+            const original: OriginalLocation | undefined =
+                await this.sourceMapResolver.resolve(
+                    frame.url,
+                    frame.lineNumber,
+                    frame.columnNumber
+                );
+            if (original) {
+                frame.original = original;
+            }
+        }
+    }
+
+    private async _fetchSourceMapResource(
+        url: string
+    ): Promise<SourceMapFetchResult | undefined> {
+        const response: APIResponse = await this._browserContext.request.get(
+            url,
+            { timeout: SOURCE_MAP_FETCH_TIMEOUT_MS }
+        );
+        if (!response.ok()) {
+            await response.dispose();
+            return undefined;
+        }
+        const result: SourceMapFetchResult = {
+            body: await response.text(),
+            headers: response.headers(),
+        };
+        await response.dispose();
+        return result;
+    }
+
+    /**
+     * Captures the Server-Sent Events of the event streams ("text/event-stream" responses)
+     * one by one as they are received, as the response bodies of the streams
+     * are only available once they are finished.
+     * EventSource messages are reported by CDP, and the other streams (fetch, XHR)
+     * are read by streaming their response content.
+     */
+    private _attachSseCapture(cdpSession: CDPSession, pageId: string): void {
+        const me: ToolSessionContext = this;
+
+        type SseStream = {
+            id: string;
+            url: string;
+            resourceType: string;
+            decoder?: TextDecoder;
+            parse?: (chunk: string) => void;
+            // Chunks received before the buffered data of the stream
+            pendingChunks?: string[];
+        };
+        const streams: Map<string, SseStream> = new Map();
+
+        const addEvent = (stream: SseStream, event: ServerSentEvent): void => {
+            me.sseEvents.push({
+                streamId: stream.id,
+                url: stream.url,
+                resourceType: stream.resourceType,
+                event: event.event,
+                data: event.data,
+                id: event.id,
+                retry: event.retry,
+                pageId,
+                timestamp: Date.now(),
+                sequenceNumber: ++me._sseEventSequenceNumber,
+            });
+            if (me.sseEvents.length > SSE_EVENTS_BUFFER_SIZE) {
+                me.sseEvents.splice(
                     0,
-                    me.httpRequests.length - HTTP_REQUESTS_BUFFER_SIZE
+                    me.sseEvents.length - SSE_EVENTS_BUFFER_SIZE
+                );
+            }
+        };
+
+        cdpSession.on(
+            'Network.responseReceived',
+            (event: {
+                requestId: string;
+                type: string;
+                response: { url: string; mimeType: string };
+            }): void => {
+                if (
+                    !event.response.mimeType
+                        .toLowerCase()
+                        .startsWith('text/event-stream')
+                ) {
+                    return;
+                }
+                const stream: SseStream = {
+                    id: `sse-${++me._sseStreamSequenceNumber}`,
+                    url: event.response.url,
+                    resourceType: event.type.toLowerCase(),
+                };
+                streams.set(event.requestId, stream);
+                if (event.type === 'EventSource') {
+                    return;
+                }
+
+                stream.decoder = new TextDecoder();
+                stream.parse = createSseParser(
+                    (sseEvent: ServerSentEvent): void =>
+                        addEvent(stream, sseEvent)
+                );
+                stream.pendingChunks = [];
+                cdpSession
+                    .send('Network.streamResourceContent', {
+                        requestId: event.requestId,
+                    })
+                    .then((result: { bufferedData: string }): void => {
+                        stream.parse!(
+                            stream.decoder!.decode(
+                                Buffer.from(result.bufferedData, 'base64'),
+                                { stream: true }
+                            )
+                        );
+                        stream.pendingChunks!.forEach(stream.parse!);
+                        stream.pendingChunks = undefined;
+                    })
+                    .catch((err: any): void => {
+                        // The stream might have been finished already
+                        logger.debug(
+                            `Unable to stream the SSE response from ${stream.url}`,
+                            err
+                        );
+                        streams.delete(event.requestId);
+                    });
+            }
+        );
+        cdpSession.on(
+            'Network.eventSourceMessageReceived',
+            (event: {
+                requestId: string;
+                eventName: string;
+                eventId: string;
+                data: string;
+            }): void => {
+                const stream: SseStream | undefined = streams.get(
+                    event.requestId
+                );
+                if (!stream) {
+                    return;
+                }
+                addEvent(stream, {
+                    event: event.eventName || 'message',
+                    data: event.data,
+                    id: event.eventId || undefined,
+                });
+            }
+        );
+        cdpSession.on(
+            'Network.dataReceived',
+            (event: { requestId: string; data?: string }): void => {
+                const stream: SseStream | undefined = streams.get(
+                    event.requestId
                 );
+                if (!stream?.parse || !event.data) {
+                    return;
+                }
+                const chunk: string = stream.decoder!.decode(
+                    Buffer.from(event.data, 'base64'),
+                    { stream: true }
+                );
+                if (stream.pendingChunks) {
+                    stream.pendingChunks.push(chunk);
+                } else {
+                    stream.parse(chunk);
+                }
+            }
+        );
+        const onStreamEnd = (event: { requestId: string }): void => {
+            streams.delete(event.requestId);
+        };
+        cdpSession.on('Network.loadingFinished', onStreamEnd);
+        cdpSession.on('Network.loadingFailed', onStreamEnd);
+    }
+
+    private _onWebSocket(ws: WebSocket, pageId: string): void {
+        const sequenceNumber: number = ++this
+            ._webSocketConnectionSequenceNumber;
+        const connection: WebSocketConnection = {
+            id: `ws-${sequenceNumber}`,
+            url: ws.url(),
+            pageId,
+            openedAt: Date.now(),
+            frames: [],
+            droppedFrameCount: 0,
+            sequenceNumber,
+        };
+
+        this.webSocketConnections.push(connection);
+        if (
+            this.webSocketConnections.length > WEBSOCKET_CONNECTIONS_BUFFER_SIZE
+        ) {
+            this.webSocketConnections.splice(
+                0,
+                this.webSocketConnections.length -
+                    WEBSOCKET_CONNECTIONS_BUFFER_SIZE
+            );
+        }
+
+        const onFrame: (
+            direction: WebSocketFrameDirection,
+            payload: string | Buffer
+        ) => void = (
+            direction: WebSocketFrameDirection,
+            payload: string | Buffer
+        ): void => {
+            if (typeof payload === 'string') {
+                connection.frames.push({
+                    direction,
+                    payload,
+                    size: Buffer.byteLength(payload, 'utf-8'),
+                    timestamp: Date.now(),
+                });
+            } else {
+                connection.frames.push({
+                    direction,
+                    payload: payload.toString('base64'),
+                    payloadEncoding: 'base64',
+                    size: payload.length,
+                    timestamp: Date.now(),
+                });
+            }
+            if (connection.frames.length > WEBSOCKET_FRAMES_BUFFER_SIZE) {
+                const droppedCount: number =
+                    connection.frames.length - WEBSOCKET_FRAMES_BUFFER_SIZE;
+                connection.frames.splice(0, droppedCount);
+                connection.droppedFrameCount += droppedCount;
             }
+        };
+
+        ws.on('framesent', (data: { payload: string | Buffer }): void => {
+            onFrame(WebSocketFrameDirection.SENT, data.payload);
+        });
+        ws.on('framereceived', (data: { payload: string | Buffer }): void => {
+            onFrame(WebSocketFrameDirection.RECEIVED, data.payload);
+        });
+        ws.on('socketerror', (error: string): void => {
+            connection.error = error;
         });
+        ws.on('close', (): void => {
+            connection.closedAt = Date.now();
+        });
+    }
 
-        if (this.options.otelEnable) {
-            this.traceId = newTraceId();
-            await this.otelController.init({
-                traceId: this.traceId,
-            });
+    private async _onHttpRequestCompleted(
+        req: Request,
+        pageId: string
+    ): Promise<void> {
+        const res: Response | null = await req.response();
+        const bodies: HttpRequestBodies = {
+            request: req.postDataBuffer() ?? undefined,
+            response: res ? await this._safeReadResponseBody(res) : undefined,
+        };
+        const initiator: HttpRequestInitiator | undefined =
+            this._takeHttpRequestInitiator(req, pageId);
+        const httpRequest: HttpRequest = this._toHttpRequest(
+            req,
+            res,
+            bodies,
+            initiator,
+            pageId,
+            ++this._httpRequestSequenceNumber
+        );
+        if (initiator?.stack && HTTP_INITIATOR_SOURCE_MAPS_ENABLE) {
+            this._resolveHttpRequestInitiator(initiator).catch(
+                (err: any): void => {
+                    logger.debug(
+                        `Unable to resolve the initiator of the HTTP request to ${httpRequest.url} through source maps`,
+                        err
+                    );
+                }
+            );
         }
 
-        this.initialized = true;
+        this.httpRequests.push(httpRequest);
+        this._storeHttpRequestBodies(httpRequest.sequenceNumber, bodies);
+        if (this.httpRequests.length > HTTP_REQUESTS_BUFFER_SIZE) {
+            const evictedHttpRequests: HttpRequest[] = this.httpRequests.splice(
+                0,
+                this.httpRequests.length - HTTP_REQUESTS_BUFFER_SIZE
+            );
+            for (const evicted of evictedHttpRequests) {
+                this._deleteHttpRequestBodies(evicted.sequenceNumber);
+            }
+        }
+
+        const harRecording: HarRecording | undefined = this.harRecording;
+        if (harRecording) {
+            if (harRecording.requests.length >= HAR_RECORDING_MAX_ENTRIES) {
+                harRecording.droppedCount++;
+            } else {
+                harRecording.requests.push(
+                    this._withFullBodies(httpRequest, bodies)
+                );
+            }
+        }
+    }
+
+    private _storeHttpRequestBodies(
+        sequenceNumber: number,
+        bodies: HttpRequestBodies
+    ): void {
+        const size: number =
+            (bodies.request?.length ?? 0) + (bodies.response?.length ?? 0);
+        if (size === 0 || size > HTTP_FULL_BODIES_MAX_SIZE) {
+            return;
+        }
+        this.httpRequestBodies.set(sequenceNumber, bodies);
+        this._httpRequestBodiesSize += size;
+        // Bodies of the oldest HTTP requests are dropped first
+        for (const storedSequenceNumber of this.httpRequestBodies.keys()) {
+            if (this._httpRequestBodiesSize <= HTTP_FULL_BODIES_MAX_SIZE) {
+                break;
+            }
+            this._deleteHttpRequestBodies(storedSequenceNumber);
+        }
+    }
+
+    private _deleteHttpRequestBodies(sequenceNumber: number): void {
+        const bodies: HttpRequestBodies | undefined =
+            this.httpRequestBodies.get(sequenceNumber);
+        if (!bodies) {
+            return;
+        }
+        this.httpRequestBodies.delete(sequenceNumber);
+        this._httpRequestBodiesSize -=
+            (bodies.request?.length ?? 0) + (bodies.response?.length ?? 0);
+    }
+
+    /**
+     * Returns the given HTTP request with its full bodies instead of the captured (possibly truncated) ones.
+     * Binary response bodies are kept as they are (base64 encoded) instead of lossy UTF-8 decoding.
+     */
+    private _withFullBodies(
+        httpRequest: HttpRequest,
+        bodies: HttpRequestBodies | undefined
+    ): HttpRequest {
+        const result: HttpRequest = { ...httpRequest };
+        if (bodies?.request) {
+            result.body = bodies.request.toString('utf-8');
+            result.truncated = undefined;
+        }
+        if (httpRequest.response && bodies?.response) {
+            result.response = {
+                ...httpRequest.response,
+                ...this._encodeBody(
+                    bodies.response,
+                    httpRequest.response.contentType
+                ),
+                truncated: undefined,
+            };
+        }
+        return result;
+    }
+
+    private _getBodyMaxSize(contentType: string | undefined): number {
+        const mimeType: string = (contentType || '').toLowerCase();
+        let maxSize: number = HTTP_BODY_MAX_SIZE;
+        let matchedLength: number = -1;
+        // The most specific content type (prefix) wins, e.g. "image/svg" over "image/"
+        for (const [prefix, size] of Object.entries(
+            HTTP_BODY_MAX_SIZE_BY_CONTENT_TYPE
+        )) {
+            if (mimeType.startsWith(prefix) && prefix.length > matchedLength) {
+                maxSize = size;
+                matchedLength = prefix.length;
+            }
+        }
+        return maxSize;
+    }
+
+    /**
+     * Returns the part of the given body to capture by the limit of its content type.
+     * Binary bodies are skipped (unless configured otherwise).
+     */
+    private _captureBody(
+        body: Buffer | undefined,
+        contentType: string | undefined
+    ): CapturedHttpBody {
+        if (!body) {
+            return {};
+        }
+        if (HTTP_BODY_SKIP_BINARY && !isTextContentType(contentType)) {
+            return { truncated: true, originalSize: body.length };
+        }
+        const maxSize: number = Math.max(0, this._getBodyMaxSize(contentType));
+        if (body.length > maxSize) {
+            return {
+                captured: body.subarray(0, maxSize),
+                truncated: true,
+                originalSize: body.length,
+            };
+        }
+        return { captured: body, originalSize: body.length };
     }
 
     private _toConsoleMessageLevelName(type: string): ConsoleMessageLevelName {
@@ -176,6 +1061,7 @@ export class ToolSessionContext {
 
     private _toConsoleMessage(
         message: PlaywrightConsoleMessage,
+        pageId: string,
         sequenceNumber: number
     ): ConsoleMessage {
         const timestamp: number = Date.now();
@@ -195,6 +1081,7 @@ export class ToolSessionContext {
                 lineNumber: message.location().lineNumber,
                 columnNumber: message.location().columnNumber,
             },
+            pageId,
             timestamp,
             sequenceNumber,
         };
@@ -202,6 +1089,7 @@ export class ToolSessionContext {
 
     private _errorToConsoleMessage(
         error: Error | any,
+        pageId: string,
         sequenceNumber: number
     ): ConsoleMessage {
         const timestamp: number = Date.now();
@@ -213,6 +1101,7 @@ export class ToolSessionContext {
                     name: ConsoleMessageLevelName.ERROR,
                     code: ConsoleMessageLevelCode.ERROR,
                 },
+                pageId,
                 timestamp,
                 sequenceNumber,
             };
@@ -224,6 +1113,7 @@ export class ToolSessionContext {
                 name: ConsoleMessageLevelName.ERROR,
                 code: ConsoleMessageLevelCode.ERROR,
             },
+            pageId,
             timestamp,
             sequenceNumber,
         };
@@ -245,7 +1135,7 @@ export class ToolSessionContext {
 
     private async _safeReadResponseBody(
         res: Response
-    ): Promise<string | undefined> {
+    ): Promise<Buffer | undefined> {
         try {
             const req: Request = res.request();
             const method: string = req.method();
@@ -255,37 +1145,85 @@ export class ToolSessionContext {
                 return undefined;
             }
 
-            const buf: Buffer = await res.body(); // may throw
-            return buf.toString('utf-8');
+            return await res.body(); // may throw
         } catch {
             // This is the important part: CDP can't always provide body.
             return undefined;
         }
     }
 
-    private async _toHttpRequest(
+    private _encodeBody(
+        body: Buffer,
+        contentType: string | undefined
+    ): { body: string; bodyEncoding?: 'base64' } {
+        return isTextContentType(contentType)
+            ? { body: body.toString('utf-8') }
+            : { body: body.toString('base64'), bodyEncoding: 'base64' };
+    }
+
+    private _toHttpRequest(
         req: Request,
+        res: Response | null,
+        bodies: HttpRequestBodies,
+        initiator: HttpRequestInitiator | undefined,
+        pageId: string,
         sequenceNumber: number
-    ): Promise<HttpRequest> {
-        const res: Response | null = await req.response();
+    ): HttpRequest {
+        const timing: HttpRequestTiming = req.timing();
+        const headers: Record<string, string> = req.headers();
+        const requestContentType: string | undefined = headers['content-type'];
+        const requestBody: CapturedHttpBody = this._captureBody(
+            bodies.request,
+            requestContentType
+        );
+        const responseHeaders: Record<string, string> | undefined =
+            res?.headers();
+        const responseContentType: string | undefined =
+            responseHeaders?.['content-type'];
+        const responseBody: CapturedHttpBody = this._captureBody(
+            bodies.response,
+            responseContentType
+        );
+        const traceparent: Traceparent | undefined = headers['traceparent']
+            ? parseTraceparent(headers['traceparent'])
+            : undefined;
         return {
             url: req.url(),
             method: req.method() as HttpMethod,
-            headers: req.headers(),
-            body: req.postData() || undefined,
+            headers,
+            body: requestBody.captured?.length
+                ? requestBody.captured.toString('utf-8')
+                : undefined,
+            truncated: requestBody.truncated,
+            originalSize: requestBody.originalSize,
+            contentType: requestContentType,
             resourceType: req.resourceType() as HttpResourceType,
             failure: req.failure()?.errorText,
-            duration: req.timing().responseEnd,
-            response: res
-                ? {
-                      status: res.status(),
-                      statusText: res.statusText(),
-                      headers: res.headers(),
-                      body: await this._safeReadResponseBody(res),
-                  }
-                : undefined,
+            duration: timing.responseEnd,
+            response:
+                res && responseHeaders
+                    ? {
+                          status: res.status(),
+                          statusText: res.statusText(),
+                          headers: responseHeaders,
+                          ...(responseBody.captured
+                              ? this._encodeBody(
+                                    responseBody.captured,
+                                    responseContentType
+                                )
+                              : {}),
+                          truncated: responseBody.truncated,
+                          originalSize: responseBody.originalSize,
+                          contentType: responseContentType,
+                      }
+                    : undefined,
+            timing: { ...timing },
+            initiator,
+            traceId: traceparent?.traceId,
+            spanId: traceparent?.spanId,
             ok: res ? res.ok() : false,
-            timestamp: Math.floor(req.timing().startTime),
+            pageId,
+            timestamp: Math.floor(timing.startTime),
             sequenceNumber,
         };
     }
@@ -302,6 +1240,421 @@ export class ToolSessionContext {
         return this._sessionId;
     }
 
+    getActivePageId(): string | undefined {
+        return this.activePageId;
+    }
+
+    getPages(): SessionPage[] {
+        return [...this.pagesById.entries()].map(
+            ([pageId, page]: [string, Page]): SessionPage => ({
+                pageId,
+                page,
+            })
+        );
+    }
+
+    getPageId(page: Page): string | undefined {
+        return this.pageIds.get(page);
+    }
+
+    async newPage(activate: boolean = true): Promise<SessionPage> {
+        const page: Page = await newPage(this.browserContext);
+        const pageId: string = this._registerPage(page);
+        if (activate) {
+            this.activePageId = pageId;
+        }
+        return { pageId, page };
+    }
+
+    switchPage(pageId: string): SessionPage {
+        const page: Page | undefined = this.pagesById.get(pageId);
+        if (!page) {
+            throw new Error(`No page could be found with id ${pageId}`);
+        }
+        this.activePageId = pageId;
+        return { pageId, page };
+    }
+
+    async closePage(pageId: string): Promise<void> {
+        const page: Page | undefined = this.pagesById.get(pageId);
+        if (!page) {
+            throw new Error(`No page could be found with id ${pageId}`);
+        }
+        if (this.pagesById.size === 1) {
+            throw new Error(
+                'The last open page of the session cannot be closed'
+            );
+        }
+        await page.close();
+        // "close" event handler unregisters the page, but be sure that
+        // it is unregistered even if the event has not been delivered yet
+        this._unregisterPage(pageId, page);
+    }
+
+    getEmulationOptions(): BrowserContextEmulationOptions {
+        return { ...this.browserContextOptions.emulation };
+    }
+
+    /**
+     * Recreates the browser context of the session with the given emulation options
+     * (merged into the current ones), as they can only be specified while creating the browser context.
+     *
+     * State is carried over to the new browser context where possible:
+     * cookies, localStorage and IndexedDB, open pages (with their ids and URLs), stubs and OTEL integration.
+     * In-memory state of the pages (JavaScript heap, form inputs, scroll positions, ...) is lost
+     * as the pages are reloaded.
+     */
+    async recreateBrowserContext(
+        emulation: BrowserContextEmulationOptions
+    ): Promise<void> {
+        const oldBrowserContext: BrowserContext = this._browserContext;
+        const oldBrowserContextOptions: BrowserContextOptions =
+            this.browserContextOptions;
+        const newBrowserContextOptions: BrowserContextOptions = {
+            ...oldBrowserContextOptions,
+            emulation: {
+                ...oldBrowserContextOptions.emulation,
+                ...emulation,
+            },
+            storageStateName: undefined,
+        };
+        const pageStates: { pageId: string; url: string }[] =
+            this.getPages().map(
+                (p: SessionPage): { pageId: string; url: string } => ({
+                    pageId: p.pageId,
+                    url: p.page.url(),
+                })
+            );
+
+        let newBrowserContextInstance: BrowserContext;
+        if (newBrowserContextOptions.persistent) {
+            // There can be one active persistent browser context in a user data directory,
+            // so the current one is closed first. State is already kept in the user data directory.
+            await closeBrowserContext(oldBrowserContext);
+            try {
+                newBrowserContextInstance = (
+                    await newBrowserContext(newBrowserContextOptions)
+                ).browserContext;
+            } catch (err: any) {
+                // Fallback to the previous options to keep the session alive
+                newBrowserContextInstance = (
+                    await newBrowserContext(oldBrowserContextOptions)
+                ).browserContext;
+                await this._switchBrowserContext(
+                    oldBrowserContext,
+                    newBrowserContextInstance,
+                    pageStates
+                );
+                throw err;
+            }
+        } else {
+            const storageState: StorageState =
+                await oldBrowserContext.storageState({ indexedDB: true });
+            newBrowserContextInstance = (
+                await newBrowserContext({
+                    ...newBrowserContextOptions,
+                    storageState,
+                })
+            ).browserContext;
+        }
+
+        this.browserContextOptions = newBrowserContextOptions;
+        await this._switchBrowserContext(
+            oldBrowserContext,
+            newBrowserContextInstance,
+            pageStates
+        );
+
+        if (!newBrowserContextOptions.persistent) {
+            try {
+                await closeBrowserContext(oldBrowserContext);
+            } catch (err: any) {
+                logger.debug(
+                    `Error occurred while closing the previous browser context of the session with id ${this._sessionId}`,
+                    err
+                );
+            }
+        }
+    }
+
+    private async _switchBrowserContext(
+        oldBrowserContext: BrowserContext,
+        newBrowserContextInstance: BrowserContext,
+        pageStates: { pageId: string; url: string }[]
+    ): Promise<void> {
+        await this.otelController.close();
+
+        this._browserContext = newBrowserContextInstance;
+        this.otelController = new OTELController(
+            newBrowserContextInstance,
+            this.otelSpanStore
+        );
+        if (this.options.otelEnable && this.traceId) {
+            await this.otelController.init({
+                traceId: this.traceId,
+                runtimeConfig: this.otelRuntimeConfig,
+            });
+        }
+        await transferStubs(oldBrowserContext, newBrowserContextInstance);
+        await this._applyPermissions();
+        if (this.networkConditions?.offline) {
+            await newBrowserContextInstance.setOffline(true);
+        }
+
+        // Reopen the pages with the same ids and URLs
+        this.pagesById.clear();
+        for (const pageState of pageStates) {
+            const page: Page = await newPage(newBrowserContextInstance);
+            this._registerPage(page, pageState.pageId);
+            if (pageState.url && pageState.url !== 'about:blank') {
+                try {
+                    await page.goto(pageState.url);
+                } catch (err: any) {
+                    logger.debug(
+                        `Unable to navigate the reopened page with id ${pageState.pageId} to ${pageState.url}`,
+                        err
+                    );
+                }
+            }
+        }
+        if (
+            pageStates.length === 0 ||
+            !this.activePageId ||
+            !this.pagesById.has(this.activePageId)
+        ) {
+            const page: Page = this.pagesById.size
+                ? [...this.pagesById.values()][this.pagesById.size - 1]
+                : await newPage(newBrowserContextInstance);
+            this.activePageId = this._registerPage(page);
+        }
+
+        this._attachBrowserContext(newBrowserContextInstance);
+
+        logger.debug(
+            `Recreated browser context of the session with id ${this._sessionId}`
+        );
+    }
+
+    getGeolocation(): Geolocation | undefined {
+        return this.browserContextOptions.emulation?.geolocation ?? undefined;
+    }
+
+    /**
+     * Sets (or clears, if null) the geolocation of the session.
+     * It is kept in the emulation options to survive browser context recreations.
+     */
+    async setGeolocation(geolocation: Geolocation | null): Promise<void> {
+        await this._browserContext.setGeolocation(geolocation);
+        this.browserContextOptions = {
+            ...this.browserContextOptions,
+            emulation: {
+                ...this.browserContextOptions.emulation,
+                geolocation: geolocation ?? undefined,
+            },
+        };
+    }
+
+    /**
+     * Returns the granted permissions by origin ("*" is for all origins).
+     */
+    getGrantedPermissions(): Record<string, string[]> {
+        const result: Record<string, string[]> = {};
+        for (const [origin, permissions] of this.grantedPermissions) {
+            result[origin] = [...permissions];
+        }
+        return result;
+    }
+
+    async grantPermissions(
+        permissions: string[],
+        origin?: string
+    ): Promise<void> {
+        const key: string = origin ?? ALL_ORIGINS;
+        await this._browserContext.grantPermissions(
+            permissions,
+            origin ? { origin } : undefined
+        );
+        const granted: Set<string> =
+            this.grantedPermissions.get(key) ?? new Set();
+        permissions.forEach((p: string): void => {
+            granted.add(p);
+        });
+        this.grantedPermissions.set(key, granted);
+    }
+
+    /**
+     * Revokes the given permissions for the given origin (or all origins).
+     * As permissions can only be cleared all at once,
+     * all of them are cleared and then the remaining ones are granted again.
+     */
+    async revokePermissions(
+        permissions: string[],
+        origin?: string
+    ): Promise<void> {
+        const key: string = origin ?? ALL_ORIGINS;
+        const granted: Set<string> | undefined =
+            this.grantedPermissions.get(key);
+        if (granted) {
+            permissions.forEach((p: string): void => {
+                granted.delete(p);
+            });
+            if (granted.size === 0) {
+                this.grantedPermissions.delete(key);
+            }
+        }
+        await this._browserContext.clearPermissions();
+        await this._applyPermissions();
+    }
+
+    private async _applyPermissions(): Promise<void> {
+        for (const [origin, permissions] of this.grantedPermissions) {
+            await this._browserContext.grantPermissions(
+                [...permissions],
+                origin === ALL_ORIGINS ? undefined : { origin }
+            );
+        }
+    }
+
+    private async _getCDPSession(page: Page): Promise<CDPSession> {
+        let cdpSession: CDPSession | undefined = this.cdpSessions.get(page);
+        if (!cdpSession) {
+            try {
+                cdpSession = await page.context().newCDPSession(page);
+            } catch (err: any) {
+                throw new Error(
+                    `CDP is only supported on Chromium-based browsers: ${err.message}`
+                );
+            }
+            // CDP session is kept attached, as the emulations are cleared when it is detached
+            this.cdpSessions.set(page, cdpSession);
+        }
+        return cdpSession;
+    }
+
+    private async _applyThrottling(page: Page): Promise<void> {
+        const conditions: NetworkConditions | undefined =
+            this.networkConditions;
+        const throttleNetwork: boolean =
+            !!conditions &&
+            (conditions.latencyMs > 0 ||
+                conditions.downloadKbps >= 0 ||
+                conditions.uploadKbps >= 0);
+        // Offline mode is applied to the browser context (supported by all browsers),
+        // so CDP is only needed for latency/throughput and CPU throttling
+        if (!throttleNetwork && !this.cpuThrottlingRate) {
+            const cdpSession: CDPSession | undefined =
+                this.cdpSessions.get(page);
+            if (cdpSession) {
+                await this._sendThrottling(cdpSession, undefined, 1);
+            }
+            return;
+        }
+        let cdpSession: CDPSession;
+        try {
+            cdpSession = await this._getCDPSession(page);
+        } catch (err: any) {
+            throw new Error(`Unable to apply throttling: ${err.message}`);
+        }
+        await this._sendThrottling(
+            cdpSession,
+            throttleNetwork ? conditions : undefined,
+            this.cpuThrottlingRate ?? 1
+        );
+    }
+
+    private async _sendThrottling(
+        cdpSession: CDPSession,
+        conditions: NetworkConditions | undefined,
+        cpuThrottlingRate: number
+    ): Promise<void> {
+        const toBytesPerSecond: (kbps: number) => number = (
+            kbps: number
+        ): number => (kbps < 0 ? -1 : (kbps * 1000) / 8);
+        await cdpSession.send('Network.enable');
+        await cdpSession.send('Network.emulateNetworkConditions', {
+            offline: conditions?.offline ?? false,
+            latency: conditions?.latencyMs ?? 0,
+            downloadThroughput: toBytesPerSecond(
+                conditions?.downloadKbps ?? -1
+            ),
+            uploadThroughput: toBytesPerSecond(conditions?.uploadKbps ?? -1),
+        });
+        await cdpSession.send('Emulation.setCPUThrottlingRate', {
+            rate: cpuThrottlingRate,
+        });
+    }
+
+    getNetworkConditions(): NetworkConditions | undefined {
+        return this.networkConditions
+            ? { ...this.networkConditions }
+            : undefined;
+    }
+
+    /**
+     * Emulates the given network conditions (or disables the emulation, if undefined)
+     * on all the open pages of the session and the ones opened later.
+     * Latency and throughput emulation is only supported on Chromium-based browsers.
+     */
+    async setNetworkConditions(
+        conditions: NetworkConditions | undefined
+    ): Promise<void> {
+        const previousConditions: NetworkConditions | undefined =
+            this.networkConditions;
+        this.networkConditions = conditions;
+        try {
+            await this._browserContext.setOffline(conditions?.offline ?? false);
+            for (const page of this.pagesById.values()) {
+                await this._applyThrottling(page);
+            }
+        } catch (err: any) {
+            this.networkConditions = previousConditions;
+            await this._browserContext
+                .setOffline(previousConditions?.offline ?? false)
+                .catch((): void => {});
+            throw err;
+        }
+    }
+
+    getCpuThrottlingRate(): number | undefined {
+        return this.cpuThrottlingRate;
+    }
+
+    /**
+     * Throttles CPU by the given slowdown rate (1 disables throttling)
+     * on all the open pages of the session and the ones opened later.
+     * Only supported on Chromium-based browsers.
+     */
+    async setCpuThrottlingRate(rate: number): Promise<void> {
+        const previousRate: number | undefined = this.cpuThrottlingRate;
+        this.cpuThrottlingRate = rate > 1 ? rate : undefined;
+        try {
+            for (const page of this.pagesById.values()) {
+                await this._applyThrottling(page);
+            }
+        } catch (err: any) {
+            this.cpuThrottlingRate = previousRate;
+            throw err;
+        }
+    }
+
+    getMediaEmulation(): MediaEmulationOptions {
+        return { ...this.mediaEmulation };
+    }
+
+    /**
+     * Emulates media features on all the open pages of the session
+     * and the ones opened later.
+     */
+    async emulateMedia(options: MediaEmulationOptions): Promise<void> {
+        this.mediaEmulation = {
+            ...this.mediaEmulation,
+            ...options,
+        };
+        for (const page of this.pagesById.values()) {
+            await page.emulateMedia(this.mediaEmulation);
+        }
+    }
+
     async getTraceId(): Promise<string | undefined> {
         return this.traceId;
     }
@@ -311,7 +1664,58 @@ export class ToolSessionContext {
             throw new Error('OTEL is not enabled');
         }
         this.traceId = traceId;
-        await this.otelController.setTraceId(this.page, traceId);
+        for (const page of this.pagesById.values()) {
+            await this.otelController.setTraceId(page, traceId);
+        }
+    }
+
+    /**
+     * Restores the named storage state into the browser context of the session.
+     * The temporary pages opened to restore the storage of the origins are not tracked,
+     * so neither they nor their requests show up in the session.
+     */
+    async loadStorageState(
+        name: string
+    ): Promise<StorageStateInfo & { skippedIndexedDBRecordCount: number }> {
+        this.storageStateLoading = true;
+        try {
+            return await loadStorageState(this._browserContext, name);
+        } finally {
+            this.storageStateLoading = false;
+        }
+    }
+
+    getOTELRuntimeConfig(): OTELRuntimeConfig {
+        if (!this.options.otelEnable) {
+            throw new Error('OTEL is not enabled');
+        }
+        return this.otelRuntimeConfig;
+    }
+
+    /**
+     * Changes the OTEL runtime config of the session and re-applies it to the open pages.
+     */
+    async configureOTEL(runtimeConfig: OTELRuntimeConfig): Promise<void> {
+        if (!this.options.otelEnable) {
+            throw new Error('OTEL is not enabled');
+        }
+        this.otelRuntimeConfig = runtimeConfig;
+        await this.otelController.configure(runtimeConfig);
+    }
+
+    /**
+     * Returns the spans kept in memory by the "memory" OTEL exporter.
+     */
+    getOTELSpans(): OTELSpan[] {
+        if (!this.options.otelEnable) {
+            throw new Error('OTEL is not enabled');
+        }
+        if (!this.otelController.isSpanStoreEnabled()) {
+            throw new Error(
+                'Spans are only kept in memory with the "memory" OTEL exporter (OTEL_EXPORTER_TYPE=memory)'
+            );
+        }
+        return this.otelSpanStore.getSpans();
     }
 
     getConsoleMessages(): ConsoleMessage[] {
@@ -322,6 +1726,61 @@ export class ToolSessionContext {
         return this.httpRequests;
     }
 
+    /**
+     * Returns the full bodies of the captured HTTP request with the given sequence number,
+     * if they are still kept (see "HTTP_FULL_BODIES_MAX_SIZE").
+     */
+    getHttpRequestBodies(
+        sequenceNumber: number
+    ): HttpRequestBodies | undefined {
+        return this.httpRequestBodies.get(sequenceNumber);
+    }
+
+    /**
+     * Returns the given captured HTTP request with its full bodies (if they are still kept).
+     */
+    withFullHttpRequestBodies(httpRequest: HttpRequest): HttpRequest {
+        return this._withFullBodies(
+            httpRequest,
+            this.httpRequestBodies.get(httpRequest.sequenceNumber)
+        );
+    }
+
+    getWebSocketConnections(): WebSocketConnection[] {
+        return this.webSocketConnections;
+    }
+
+    getSseEvents(): SseEvent[] {
+        return this.sseEvents;
+    }
+
+    getHarRecording(): HarRecording | undefined {
+        return this.harRecording;
+    }
+
+    /**
+     * Starts recording all the completed HTTP requests of the session
+     * (independent of the HTTP requests buffer) with their full response bodies.
+     * Previous recording (if any) is discarded.
+     */
+    startHarRecording(): HarRecording {
+        this.harRecording = {
+            startedAt: Date.now(),
+            requests: [],
+            droppedCount: 0,
+        };
+        return this.harRecording;
+    }
+
+    /**
+     * Stops the active recording (if any) and returns it.
+     */
+    stopHarRecording(): HarRecording | undefined {
+        const harRecording: HarRecording | undefined = this.harRecording;
+        this.harRecording = undefined;
+        return harRecording;
+    }
+
     async close(): Promise<boolean> {
         if (this.closed) {
             return false;
@@ -348,6 +1807,15 @@ export class ToolSessionContext {
 
         this.consoleMessages.length = 0;
         this.httpRequests.length = 0;
+        this.httpRequestBodies.clear();
+        this._httpRequestBodiesSize = 0;
+        this.pendingHttpRequestInitiators.clear();
+        this.pendingHttpInitiatorRequests.clear();
+        this.otelSpanStore.clear();
+        this.sourceMapResolver.clear();
+        this.harRecording = undefined;
+        this.pagesById.clear();
+        this.activePageId = undefined;
 
         // We are not closing browser here as it is shared between sessions, so it should be closed on server close/shutdown
 
@@ -1,7 +1,16 @@
 import * as config from './config';
 import { ToolSessionContext } from './context';
 import * as logger from './logger';
-import { tools, ToolInput, ToolOutput, Tool, ToolExecutor } from './tools';
+import {
+    tools,
+    ToolInput,
+    ToolOutput,
+    Tool,
+    ToolExecutor,
+    ToolExecutorOptions,
+    SessionBrowserOptions,
+    sessionBrowserOptionsSchema,
+} from './tools';
 
 import { serve } from '@hono/node-server';
 import { Context, Hono } from 'hono';
@@ -10,6 +19,7 @@ import { z, ZodObject } from 'zod';
 
 type DaemonServerSession = {
     id: string;
+    options: ToolExecutorOptions;
     toolExecutor: ToolExecutor;
     context?: ToolSessionContext;
     closed: boolean;
@@ -22,6 +32,13 @@ type SessionInfo = {
     createdAt: number;
     lastActiveAt: number;
     idleSeconds: number;
+    browserType?: string;
+    headless?: boolean;
+    locale?: string;
+    timezone?: string;
+    userAgent?: string;
+    storageState?: string;
+    stubFile?: string;
 };
 
 type DaemonInfo = {
@@ -41,9 +58,16 @@ type ErrorResponse = {
     };
 };
 
+type SessionCreateRequest = SessionBrowserOptions & {
+    storageState?: string;
+    stubFile?: string;
+};
+
 type ToolCallRequest = {
     toolName: string;
     toolInput: ToolInput;
+    // Used only if the session doesn't exist and created by this call
+    sessionOptions?: SessionBrowserOptions;
 };
 
 type ToolCallResponse = {
@@ -60,6 +84,9 @@ const ERRORS = {
     get sessionNotFound(): ErrorResponse {
         return _buildErrorResponse(404, 'Session Not Found');
     },
+    get sessionAlreadyExists(): ErrorResponse {
+        return _buildErrorResponse(409, 'Session Already Exists');
+    },
     get toolNotFound(): ErrorResponse {
         return _buildErrorResponse(404, 'Tool Not Found');
     },
@@ -77,6 +104,17 @@ function _buildErrorResponse(code: number | undefined, message: string): any {
     };
 }
 
+function _buildValidationErrorMessage(
+    err: any,
+    defaultMessage: string
+): string {
+    return err.errors && Array.isArray(err.errors)
+        ? err.errors
+              .map((e: any) => `${e.path?.join('.') || 'input'}: ${e.message}`)
+              .join('; ')
+        : defaultMessage;
+}
+
 async function _closeSession(session: DaemonServerSession): Promise<void> {
     session.closed = true;
     if (session.context) {
@@ -93,11 +131,19 @@ async function _closeSession(session: DaemonServerSession): Promise<void> {
     sessions.delete(session.id);
 }
 
-function _createSession(ctx: Context, sessionId: string): DaemonServerSession {
+function _createSession(
+    ctx: Context,
+    sessionId: string,
+    options: ToolExecutorOptions = {}
+): DaemonServerSession {
     const now: number = Date.now();
     const session: DaemonServerSession = {
         id: sessionId,
-        toolExecutor: new ToolExecutor((): string => sessionId),
+        options,
+        toolExecutor: new ToolExecutor(
+            (): string => sessionId,
+            (): ToolExecutorOptions => options
+        ),
         closed: false,
         createdAt: now,
         lastActiveAt: now,
@@ -115,6 +161,13 @@ function _getSessionInfo(session: DaemonServerSession): SessionInfo {
         createdAt: session.createdAt,
         lastActiveAt: session.lastActiveAt,
         idleSeconds: Math.floor((now - session.lastActiveAt) / 1000),
+        browserType: session.options.browserType,
+        headless: session.options.headless,
+        locale: session.options.locale,
+        timezone: session.options.timezone,
+        userAgent: session.options.userAgent,
+        storageState: session.options.storageStateName,
+        stubFile: session.options.stubFile,
     };
 }
 
@@ -126,7 +179,10 @@ async function _getSession(
     return sessions.get(sessionId);
 }
 
-async function _getOrCreateSession(ctx: Context): Promise<DaemonServerSession> {
+async function _getOrCreateSession(
+    ctx: Context,
+    sessionOptions?: SessionBrowserOptions
+): Promise<DaemonServerSession> {
     const sessionId: string =
         ctx.req.header('session-id') || DEFAULT_SESSION_ID;
     let session: DaemonServerSession | undefined = sessions.get(sessionId);
@@ -134,7 +190,7 @@ async function _getOrCreateSession(ctx: Context): Promise<DaemonServerSession> {
         logger.debug(`Reusing session with id ${sessionId}`);
     } else {
         logger.debug(`No session could be found with id ${sessionId}`);
-        session = _createSession(ctx, sessionId);
+        session = _createSession(ctx, sessionId, sessionOptions);
         sessions.set(sessionId, session);
     }
     return session;
@@ -266,6 +322,67 @@ export async function startDaemonHTTPServer(port: number): Promise<void> {
         return ctx.json(_getSessionInfo(session));
     });
 
+    // Create session
+    app.post('/session', async (ctx: Context): Promise<any> => {
+        try {
+            const sessionId: string =
+                ctx.req.header('session-id') || DEFAULT_SESSION_ID;
+            if (sessions.has(sessionId)) {
+                return ctx.json(ERRORS.sessionAlreadyExists, 409);
+            }
+
+            let sessionCreateRequest: SessionCreateRequest;
+            try {
+                const schema: ZodObject<any> =
+                    sessionBrowserOptionsSchema().extend({
+                        storageState: z.string().optional(),
+                        stubFile: z.string().optional(),
+                    });
+                sessionCreateRequest = schema.parse(
+                    (await ctx.req.json().catch((): any => ({}))) ?? {}
+                ) as SessionCreateRequest;
+            } catch (err: any) {
+                const errorMessage: string = _buildValidationErrorMessage(
+                    err,
+                    'Invalid session options'
+                );
+                return ctx.json(
+                    _buildErrorResponse(
+                        400,
+                        `Invalid Session Request: ${errorMessage}`
+                    ),
+                    400
+                );
+            }
+
+            const { storageState, ...sessionOptions } = sessionCreateRequest;
+            const session: DaemonServerSession = _createSession(
+                ctx,
+                sessionId,
+                {
+                    ...sessionOptions,
+                    storageStateName: storageState,
+                }
+            );
+
+            if (Object.keys(sessionCreateRequest).length > 0) {
+                // Create the browser context right away,
+                // so the errors related to the session options are reported to the caller
+                try {
+                    await session.toolExecutor.init();
+                } catch (err: any) {
+                    return ctx.json(_buildErrorResponse(400, err.message), 400);
+                }
+            }
+
+            sessions.set(sessionId, session);
+            return ctx.json(_getSessionInfo(session), 201);
+        } catch (err: any) {
+            logger.error('Error occurred while creating session', err);
+            return ctx.json(ERRORS.internalServerError, 500);
+        }
+    });
+
     // Shutdown daemon server
     app.post('/shutdown', async (ctx: Context): Promise<any> => {
         logger.info('Shutdown request received, closing all sessions...');
@@ -294,12 +411,36 @@ export async function startDaemonHTTPServer(port: number): Promise<void> {
                 await _logRequest(ctx);
             }
 
-            const session: DaemonServerSession = await _getOrCreateSession(ctx);
-            session.lastActiveAt = Date.now();
-
             const toolCallRequest: ToolCallRequest =
                 (await ctx.req.json()) as ToolCallRequest;
 
+            let sessionOptions: SessionBrowserOptions | undefined;
+            try {
+                sessionOptions = toolCallRequest.sessionOptions
+                    ? (sessionBrowserOptionsSchema().parse(
+                          toolCallRequest.sessionOptions
+                      ) as SessionBrowserOptions)
+                    : undefined;
+            } catch (err: any) {
+                const errorMessage: string = _buildValidationErrorMessage(
+                    err,
+                    'Invalid session options'
+                );
+                return ctx.json(
+                    _buildErrorResponse(
+                        400,
+                        `Invalid Session Options: ${errorMessage}`
+                    ),
+                    400
+                );
+            }
+
+            const session: DaemonServerSession = await _getOrCreateSession(
+                ctx,
+                sessionOptions
+            );
+            session.lastActiveAt = Date.now();
+
             const tool: Tool | undefined = toolMap[toolCallRequest.toolName];
             if (!tool) {
                 return ctx.json(ERRORS.toolNotFound, 404);
@@ -311,15 +452,10 @@ export async function startDaemonHTTPServer(port: number): Promise<void> {
                 toolInput = schema.parse(toolCallRequest.toolInput);
             } catch (err: any) {
                 // Return validation error with details
-                const errorMessage: string =
-                    err.errors && Array.isArray(err.errors)
-                        ? err.errors
-                              .map(
-                                  (e: any) =>
-                                      `${e.path?.join('.') || 'input'}: ${e.message}`
-                              )
-                              .join('; ')
-                        : 'Invalid tool input';
+                const errorMessage: string = _buildValidationErrorMessage(
+                    err,
+                    'Invalid tool input'
+                );
                 return ctx.json(
                     _buildErrorResponse(
                         400,
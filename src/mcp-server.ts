@@ -16,7 +16,9 @@ import {
     ToolInput,
     ToolOutput,
     ToolExecutor,
+    ToolExecutorOptions,
     ToolOutputWithImage,
+    sessionBrowserOptionsSchema,
 } from './tools';
 
 import { StreamableHTTPTransport } from '@hono/mcp';
@@ -27,6 +29,7 @@ import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { Context, Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { SafeParseReturnType } from 'zod';
 
 type McpServerConfig = {};
 
@@ -72,6 +75,13 @@ const MCP_ERRORS = {
     },
 };
 
+/**
+ * Key of the experimental client capability
+ * which the MCP clients can use to pass session options in the initialize handshake:
+ * `{ "capabilities": { "experimental": { "browser-devtools": { "browserType": "webkit", ... } } } }`
+ */
+const SESSION_OPTIONS_CAPABILITY_KEY: string = 'browser-devtools';
+
 const sessions: Map<string, McpServerSession> = new Map();
 
 function _buildMCPErrorResponse(code: number, message: string): any {
@@ -101,6 +111,24 @@ function _getImage(
     }
 }
 
+function _getSessionOptions(server: McpServer): ToolExecutorOptions {
+    const sessionOptions: unknown =
+        server.server.getClientCapabilities()?.experimental?.[
+            SESSION_OPTIONS_CAPABILITY_KEY
+        ];
+    if (!sessionOptions) {
+        return {};
+    }
+    const result: SafeParseReturnType<any, any> =
+        sessionBrowserOptionsSchema().safeParse(sessionOptions);
+    if (!result.success) {
+        throw new Error(
+            `Invalid session options in "${SESSION_OPTIONS_CAPABILITY_KEY}" experimental capability: ${result.error.message}`
+        );
+    }
+    return result.data as ToolExecutorOptions;
+}
+
 function _toResponse(response: ToolOutput): CallToolResult {
     const image: ToolOutputWithImage['image'] | undefined = _getImage(response);
     const contents: any[] = [];
@@ -170,8 +198,10 @@ function _createServer(opts: {
         })
     );
 
-    const toolExecutor: ToolExecutor = new ToolExecutor((): string =>
-        opts.sessionIdProvider ? opts.sessionIdProvider() : ''
+    const toolExecutor: ToolExecutor = new ToolExecutor(
+        (): string => (opts.sessionIdProvider ? opts.sessionIdProvider() : ''),
+        // Session options are passed by the client in the initialize handshake
+        (): ToolExecutorOptions => _getSessionOptions(server)
     );
 
     const createToolCallback = (tool: Tool) => {
@@ -2,7 +2,14 @@ import fs from 'fs';
 import path from 'path';
 
 import * as logger from '../logger';
+import { ConsoleMessage } from '../types';
+import {
+    OTELLogAttributeValues,
+    OTELLogExporter,
+    OTELLogRecord,
+} from './otel-log-exporter';
 import { OTELProxy } from './otel-proxy';
+import { OTELSpanStore } from './otel-span-store';
 
 import type { BrowserContext, Frame, Page, Request } from 'playwright';
 import {
@@ -13,10 +20,17 @@ import {
     OTEL_INSTRUMENTATION_USER_INTERACTION_EVENTS,
     OTEL_SERVICE_NAME,
     OTEL_SERVICE_VERSION,
+    OTEL_SIGNALS,
 } from '../config';
 
 const OTEL_PROXY_LOCAL_PATH: string = '/__mcp_otel/';
 const OTEL_BUNDLE_FILE_NAME: string = 'otel-initializer.bundle.js';
+const OTEL_LOG_EXPORT_PATH: string = '/v1/logs';
+const OTEL_CONFIG_BINDING_NAME: string = '__mcpOtelConfig';
+const OTEL_CLOSE_FLUSH_TIMEOUT_MS: number = 3_000;
+const OTEL_SUPPORTED_SIGNALS: OTELSignal[] = ['traces', 'metrics', 'logs'];
+
+type OTELSignal = 'traces' | 'metrics' | 'logs';
 
 type OTELExporterConfig =
     | {
@@ -26,7 +40,8 @@ type OTELExporterConfig =
            * Browser-side URL (same-origin) that OTEL exporter will post to.
            * Example: "/__mcp_otel/"
            * OTEL signal specific paths/suffixes will be appended
-           * by the "otel-initializer.ts" (for ex. for traces, "/v1/traces").
+           * by the "otel-initializer.ts" ("/v1/traces" and "/v1/metrics")
+           * and by the log exporter ("/v1/logs").
            */
           url: string;
 
@@ -40,6 +55,15 @@ type OTELExporterConfig =
 
           headers?: Record<string, string>;
       }
+    | {
+          type: 'memory';
+
+          /**
+           * Browser-side URL (same-origin) that OTEL exporter will post to.
+           * The OTELProxy keeps the received spans in memory instead of forwarding them.
+           */
+          url: string;
+      }
     | {
           type: 'console';
       }
@@ -47,8 +71,39 @@ type OTELExporterConfig =
           type: 'none';
       };
 
+export enum OTELInstrumentation {
+    DOCUMENT_LOAD = 'document-load',
+    FETCH = 'fetch',
+    XML_HTTP_REQUEST = 'xml-http-request',
+    USER_INTERACTION = 'user-interaction',
+}
+
+export type OTELAttributeValues = Record<string, string | number | boolean>;
+
+/**
+ * Config which can be changed at runtime per session (see "OTELController.configure").
+ */
+export type OTELRuntimeConfig = {
+    disabledInstrumentations: OTELInstrumentation[];
+
+    /**
+     * Regular expressions (sources) of the cross-origin URLs to propagate the trace header to.
+     */
+    propagateTraceHeaderCorsUrls: string[];
+
+    resourceAttributes: OTELAttributeValues;
+    spanAttributes: OTELAttributeValues;
+
+    /**
+     * Ratio (between 0 and 1) of the root spans to sample.
+     */
+    samplingRatio: number;
+};
+
 type OTELInstrumentationConfig = {
     userInteractionEvents?: (keyof HTMLElementEventMap)[];
+    disabledInstrumentations?: OTELInstrumentation[];
+    propagateTraceHeaderCorsUrls?: string[];
 };
 
 type OTELConfig = {
@@ -63,17 +118,42 @@ type OTELConfig = {
      */
     traceId?: string;
 
+    /**
+     * Signals to collect and export: traces (UI spans), metrics (web vitals)
+     * and logs (console errors).
+     */
+    signals: OTELSignal[];
+
     exporter: OTELExporterConfig;
     instrumentation: OTELInstrumentationConfig;
+    resourceAttributes?: OTELAttributeValues;
+    spanAttributes?: OTELAttributeValues;
+    samplingRatio?: number;
     debug?: boolean;
 };
 
 export type OTELInitOptions = {
     traceId: string;
+    runtimeConfig?: OTELRuntimeConfig;
 };
 
+export function defaultOTELRuntimeConfig(): OTELRuntimeConfig {
+    return {
+        disabledInstrumentations: [],
+        propagateTraceHeaderCorsUrls: [],
+        resourceAttributes: {},
+        spanAttributes: {},
+        samplingRatio: 1,
+    };
+}
+
 function _getOTELExporterConfig(): OTELExporterConfig {
-    if (OTEL_EXPORTER_TYPE === 'otlp/http' || OTEL_EXPORTER_HTTP_URL) {
+    if (OTEL_EXPORTER_TYPE === 'memory') {
+        return {
+            type: 'memory',
+            url: OTEL_PROXY_LOCAL_PATH,
+        };
+    } else if (OTEL_EXPORTER_TYPE === 'otlp/http' || OTEL_EXPORTER_HTTP_URL) {
         if (!OTEL_EXPORTER_HTTP_URL) {
             throw new Error(
                 `OTEL exporter HTTP url must be set when OTEL exporter type is "otlp/http"`
@@ -82,9 +162,8 @@ function _getOTELExporterConfig(): OTELExporterConfig {
         return {
             type: 'otlp/http',
             // IMPORTANT: OTEL_EXPORTER_HTTP_URL is a *base* URL, e.g. "http://localhost:4318"
-            // Browser exporter points to same-origin proxy. We choose a default suffix for traces.
-            // If you want to support metrics/logs too, you can configure initializer to use
-            // "/__mcp_otel/v1/metrics" and "/__mcp_otel/v1/logs" similarly.
+            // Browser exporters point to same-origin proxy, the initializer appends
+            // the signal specific suffixes (e.g. "/__mcp_otel/v1/traces", "/__mcp_otel/v1/metrics").
             url: OTEL_PROXY_LOCAL_PATH,
             upstreamURL: OTEL_EXPORTER_HTTP_URL,
             headers: OTEL_EXPORTER_HTTP_HEADERS,
@@ -102,6 +181,17 @@ function _getOTELExporterConfig(): OTELExporterConfig {
     }
 }
 
+function _getOTELSignals(): OTELSignal[] {
+    for (const signal of OTEL_SIGNALS) {
+        if (!OTEL_SUPPORTED_SIGNALS.includes(signal as OTELSignal)) {
+            throw new Error(
+                `Invalid OTEL signal ${signal} (supported signals: ${OTEL_SUPPORTED_SIGNALS.join(', ')})`
+            );
+        }
+    }
+    return OTEL_SIGNALS as OTELSignal[];
+}
+
 function _getOTELInstrumentationConfig(): OTELInstrumentationConfig {
     return {
         userInteractionEvents:
@@ -113,6 +203,7 @@ function _getOTELConfig(): OTELConfig {
     return {
         serviceName: OTEL_SERVICE_NAME,
         serviceVersion: OTEL_SERVICE_VERSION,
+        signals: _getOTELSignals(),
         exporter: _getOTELExporterConfig(),
         instrumentation: _getOTELInstrumentationConfig(),
         debug: false,
@@ -131,6 +222,48 @@ function _readBundleContent(assetDir: string, bundleFileName: string): string {
     return fs.readFileSync(filePath, 'utf-8');
 }
 
+/**
+ * Initializes OTEL in the new documents with the given config (installed as init script),
+ * then applies the current config of the controller (read through the given binding),
+ * as the config might have been changed after the init script was installed.
+ */
+function _initScript({
+    cfg,
+    bindingName,
+}: {
+    cfg: OTELConfig;
+    bindingName: string;
+}): void {
+    const g: any = globalThis as any;
+
+    if (!g.__MCP_DEVTOOLS__) {
+        g.__MCP_DEVTOOLS__ = {};
+    }
+
+    g.__MCP_TRACE_ID__ = cfg.traceId;
+
+    if (g.__mcpOtel && typeof g.__mcpOtel.init === 'function') {
+        g.__mcpOtel.init(cfg);
+    } else {
+        g.__MCP_DEVTOOLS__.otelInitialized = false;
+        g.__MCP_DEVTOOLS__.otelInitError =
+            '__mcpOtel.init is not available (initializer bundle did not install)';
+        return;
+    }
+
+    const binding: any = g[bindingName];
+    if (typeof binding === 'function') {
+        Promise.resolve(binding())
+            .then((currentCfg: OTELConfig): void => {
+                g.__MCP_TRACE_ID__ = currentCfg.traceId;
+                g.__mcpOtel.init(currentCfg);
+            })
+            .catch((): void => {
+                // Document might be closed before the config is received
+            });
+    }
+}
+
 async function _applyConfigToPage(page: Page, cfg: OTELConfig): Promise<void> {
     await page
         .evaluate((nextCfg: OTELConfig): void => {
@@ -238,8 +371,10 @@ function _installAutoSync(
 export class OTELController {
     private readonly browserContext: BrowserContext;
     private readonly config: OTELConfig;
+    private readonly spanStore?: OTELSpanStore;
 
     private proxy?: OTELProxy;
+    private logExporter?: OTELLogExporter;
 
     /**
      * We prevent multiple installs per OTELController instance.
@@ -251,9 +386,21 @@ export class OTELController {
      */
     private autoSyncDetach?: () => void;
 
-    constructor(browserContext: BrowserContext) {
+    /**
+     * @param spanStore Store to keep the spans in with the "memory" exporter.
+     *                  It is owned by the session, so the spans are kept when the browser context is recreated.
+     */
+    constructor(browserContext: BrowserContext, spanStore?: OTELSpanStore) {
         this.browserContext = browserContext;
         this.config = _getOTELConfig();
+        this.spanStore = spanStore;
+    }
+
+    /**
+     * Whether the spans are kept in memory (by the "memory" exporter).
+     */
+    isSpanStoreEnabled(): boolean {
+        return this.config.exporter.type === 'memory' && !!this.spanStore;
     }
 
     async init(options: OTELInitOptions): Promise<void> {
@@ -273,6 +420,9 @@ export class OTELController {
         }
 
         this.config.traceId = options.traceId;
+        if (options.runtimeConfig) {
+            this._setRuntimeConfig(options.runtimeConfig);
+        }
 
         const assetDir: string = OTEL_ASSETS_DIR || __dirname;
 
@@ -283,9 +433,36 @@ export class OTELController {
                 upstreamHeaders: { ...(this.config.exporter.headers ?? {}) },
             });
 
+            await this.proxy.install(this.browserContext);
+        } else if (this.config.exporter.type === 'memory') {
+            if (!this.spanStore) {
+                throw new Error(
+                    '[otel-controller] "memory" exporter requires a span store'
+                );
+            }
+            // Only the spans are kept in memory, so fail fast instead of silently dropping the other signals
+            const unsupportedSignals: OTELSignal[] = this.config.signals.filter(
+                (signal: OTELSignal): boolean => signal !== 'traces'
+            );
+            if (unsupportedSignals.length > 0) {
+                throw new Error(
+                    `[otel-controller] "memory" exporter only supports the "traces" signal, ` +
+                        `remove ${unsupportedSignals.map((signal: OTELSignal): string => `"${signal}"`).join(' and ')} from OTEL_SIGNALS ` +
+                        `or use the "otlp/http" or "console" exporter`
+                );
+            }
+            this.proxy = new OTELProxy({
+                localPath: OTEL_PROXY_LOCAL_PATH,
+                spanStore: this.spanStore,
+            });
+
             await this.proxy.install(this.browserContext);
         }
 
+        if (this.config.signals.includes('logs')) {
+            this.logExporter = this._createLogExporter();
+        }
+
         // Add extra debug breadcrumbs to quickly verify routing is working.
         // If you see 404s for /__mcp_otel/*, this tells you whether routing is installed.
         logger.debug(
@@ -312,33 +489,157 @@ export class OTELController {
             content: bundleContent,
         });
 
-        // 2) Install a config init script that runs on every new document (snapshot config at install time)
-        // Auto-sync will re-apply the latest config after navigations.
-        await this.browserContext.addInitScript((cfg: OTELConfig): void => {
-            const g: any = globalThis as any;
-
-            if (!g.__MCP_DEVTOOLS__) {
-                g.__MCP_DEVTOOLS__ = {};
-            }
-
-            g.__MCP_TRACE_ID__ = cfg.traceId;
-
-            if (g.__mcpOtel && typeof g.__mcpOtel.init === 'function') {
-                g.__mcpOtel.init(cfg);
-            } else {
-                g.__MCP_DEVTOOLS__.otelInitialized = false;
-                g.__MCP_DEVTOOLS__.otelInitError =
-                    '__mcpOtel.init is not available (initializer bundle did not install)';
-            }
-        }, this.config);
+        // 2) Install a config init script that runs on every new document.
+        // It initializes with the config at install time (so OTEL is set up before the page scripts run),
+        // then applies the current config read through the binding.
+        await this.browserContext.exposeBinding(
+            OTEL_CONFIG_BINDING_NAME,
+            (): OTELConfig => this.config
+        );
+        await this.browserContext.addInitScript(_initScript, {
+            cfg: this.config,
+            bindingName: OTEL_CONFIG_BINDING_NAME,
+        });
 
         this.initialized = true;
 
         logger.debug(
-            '[otel-controller] init installed: bundle + config init scripts + auto-sync'
+            '[otel-controller] init installed: bundle + config init script and binding + auto-sync'
         );
     }
 
+    private _createLogExporter(): OTELLogExporter | undefined {
+        const exporter: OTELExporterConfig = this.config.exporter;
+        if (exporter.type === 'otlp/http') {
+            return new OTELLogExporter({
+                sender: (payload: any): void => {
+                    this.proxy?.export(OTEL_LOG_EXPORT_PATH, payload);
+                },
+                getResourceAttributes: (): OTELLogAttributeValues =>
+                    this._getResourceAttributes(),
+            });
+        } else if (exporter.type === 'console') {
+            return new OTELLogExporter({
+                sender: (payload: any): void => {
+                    logger.info(
+                        `[otel-controller] logs: ${logger.toJson(payload)}`
+                    );
+                },
+                getResourceAttributes: (): OTELLogAttributeValues =>
+                    this._getResourceAttributes(),
+            });
+        }
+        return undefined;
+    }
+
+    private _getResourceAttributes(): OTELLogAttributeValues {
+        return {
+            ...(this.config.resourceAttributes ?? {}),
+            'service.name': this.config.serviceName,
+            'service.version': this.config.serviceVersion,
+        };
+    }
+
+    private _emitLog(record: Omit<OTELLogRecord, 'traceId'>): void {
+        if (!this.logExporter) {
+            return;
+        }
+        this.logExporter.emit({
+            ...record,
+            traceId: this.config.traceId,
+        });
+    }
+
+    /**
+     * Exports the given console error message of a page as an error log record
+     * (if the "logs" signal is enabled).
+     */
+    exportConsoleErrorLog(message: ConsoleMessage, pageUrl: string): void {
+        this._emitLog({
+            timestamp: message.timestamp,
+            body: message.text,
+            attributes: {
+                'log.source': `console.${message.type}`,
+                'url.full': pageUrl,
+                'code.filepath': message.location?.url || undefined,
+                'code.lineno': message.location?.lineNumber,
+                'code.column': message.location?.columnNumber,
+            },
+        });
+    }
+
+    /**
+     * Exports the given uncaught error (or unhandled promise rejection) of a page as an error log record
+     * (if the "logs" signal is enabled).
+     */
+    exportPageErrorLog(error: Error | any, pageUrl: string): void {
+        this._emitLog({
+            timestamp: Date.now(),
+            body: error instanceof Error ? error.message : String(error),
+            attributes: {
+                'log.source': 'page-error',
+                'url.full': pageUrl,
+                ...(error instanceof Error
+                    ? {
+                          'exception.type': error.name,
+                          'exception.message': error.message,
+                          'exception.stacktrace': error.stack,
+                      }
+                    : {}),
+            },
+        });
+    }
+
+    getRuntimeConfig(): OTELRuntimeConfig {
+        return {
+            disabledInstrumentations: [
+                ...(this.config.instrumentation.disabledInstrumentations ?? []),
+            ],
+            propagateTraceHeaderCorsUrls: [
+                ...(this.config.instrumentation.propagateTraceHeaderCorsUrls ??
+                    []),
+            ],
+            resourceAttributes: { ...(this.config.resourceAttributes ?? {}) },
+            spanAttributes: { ...(this.config.spanAttributes ?? {}) },
+            samplingRatio: this.config.samplingRatio ?? 1,
+        };
+    }
+
+    /**
+     * Changes the runtime config and re-applies the config to the open pages
+     * (in-document, without reloading them) and to the new documents.
+     * Resource attribute changes apply to the signals exported after the change.
+     */
+    async configure(runtimeConfig: OTELRuntimeConfig): Promise<void> {
+        this._setRuntimeConfig(runtimeConfig);
+
+        if (!this.initialized) {
+            return;
+        }
+
+        // New documents read the current config through the binding of the init script
+        for (const page of this.browserContext.pages()) {
+            await _applyConfigToPage(page, this.config);
+        }
+    }
+
+    private _setRuntimeConfig(runtimeConfig: OTELRuntimeConfig): void {
+        this.config.instrumentation = {
+            ...this.config.instrumentation,
+            disabledInstrumentations: [
+                ...runtimeConfig.disabledInstrumentations,
+            ],
+            propagateTraceHeaderCorsUrls: [
+                ...runtimeConfig.propagateTraceHeaderCorsUrls,
+            ],
+        };
+        this.config.resourceAttributes = {
+            ...runtimeConfig.resourceAttributes,
+        };
+        this.config.spanAttributes = { ...runtimeConfig.spanAttributes };
+        this.config.samplingRatio = runtimeConfig.samplingRatio;
+    }
+
     isOTELRequest(request: Request): boolean {
         const path: string = new URL(request.url()).pathname;
         return path.startsWith(OTEL_PROXY_LOCAL_PATH);
@@ -397,6 +698,31 @@ export class OTELController {
         }, traceId);
     }
 
+    private async _flushPages(): Promise<void> {
+        await Promise.allSettled(
+            this.browserContext.pages().map(
+                (page: Page): Promise<void> =>
+                    Promise.race([
+                        page.evaluate(async (): Promise<void> => {
+                            const g: any = globalThis as any;
+                            if (
+                                g.__mcpOtel &&
+                                typeof g.__mcpOtel.flush === 'function'
+                            ) {
+                                await g.__mcpOtel.flush();
+                            }
+                        }),
+                        new Promise<void>((resolve: () => void): void => {
+                            setTimeout(
+                                resolve,
+                                OTEL_CLOSE_FLUSH_TIMEOUT_MS
+                            ).unref();
+                        }),
+                    ])
+            )
+        );
+    }
+
     async close(): Promise<void> {
         // Cleanup auto-sync listeners to avoid:
         // - leaking listeners across long sessions
@@ -408,7 +734,19 @@ export class OTELController {
             this.autoSyncDetach = undefined;
         }
 
+        // Export what is still buffered by the pages and by the log exporter
+        // and wait until it is forwarded, before the proxy route is removed
+        if (this.initialized) {
+            await this._flushPages();
+        }
+
+        if (this.logExporter) {
+            this.logExporter.close();
+            this.logExporter = undefined;
+        }
+
         if (this.proxy) {
+            await this.proxy.drain(OTEL_CLOSE_FLUSH_TIMEOUT_MS);
             await this.proxy.uninstall(this.browserContext);
             this.proxy = undefined;
         }
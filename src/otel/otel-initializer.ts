@@ -2,26 +2,45 @@ import {
     diag,
     DiagConsoleLogger,
     DiagLogLevel,
+    metrics,
     trace,
 } from '@opentelemetry/api';
+import type { Attributes, Context, Histogram, Meter } from '@opentelemetry/api';
 
 import { WebTracerProvider } from '@opentelemetry/sdk-trace-web';
-import type { IdGenerator } from '@opentelemetry/sdk-trace-base';
+import type {
+    IdGenerator,
+    Sampler,
+    SamplingResult,
+    Span,
+    SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
 import {
     BatchSpanProcessor,
     ConsoleSpanExporter,
+    ParentBasedSampler,
+    SamplingDecision,
     SimpleSpanProcessor,
 } from '@opentelemetry/sdk-trace-base';
 
+import {
+    ConsoleMetricExporter,
+    MeterProvider,
+    PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics';
+
 import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
 
 import { DocumentLoadInstrumentation } from '@opentelemetry/instrumentation-document-load';
 import { FetchInstrumentation } from '@opentelemetry/instrumentation-fetch';
 import { UserInteractionInstrumentation } from '@opentelemetry/instrumentation-user-interaction';
 import { XMLHttpRequestInstrumentation } from '@opentelemetry/instrumentation-xml-http-request';
 import { registerInstrumentations } from '@opentelemetry/instrumentation';
+import type { InstrumentationBase } from '@opentelemetry/instrumentation';
 
 import { resourceFromAttributes } from '@opentelemetry/resources';
+import type { RawResourceAttribute, Resource } from '@opentelemetry/resources';
 import {
     SEMRESATTRS_SERVICE_NAME,
     SEMRESATTRS_SERVICE_VERSION,
@@ -38,6 +57,11 @@ export type OTELExporterConfig =
           url: string;
           headers?: Record<string, string>;
       }
+    | {
+          // Exported by OTLP/HTTP to the proxy like "otlp/http", but kept in memory by the proxy
+          type: 'memory';
+          url: string;
+      }
     | {
           type: 'console';
       }
@@ -45,20 +69,42 @@ export type OTELExporterConfig =
           type: 'none';
       };
 
+// Logs (console errors) are captured and exported by the MCP side (not in the page),
+// so the console of the page is not wrapped and the console message locations are kept
+export type OTELSignal = 'traces' | 'metrics' | 'logs';
+
+export type OTELInstrumentationName =
+    | 'document-load'
+    | 'fetch'
+    | 'xml-http-request'
+    | 'user-interaction';
+
+export type OTELAttributeValues = Record<string, string | number | boolean>;
+
 export type OTELInstrumentationConfig = {
     userInteractionEvents?: (keyof HTMLElementEventMap)[];
+    disabledInstrumentations?: OTELInstrumentationName[];
+    /**
+     * Regular expressions (sources) of the cross-origin URLs to propagate the trace header to.
+     */
+    propagateTraceHeaderCorsUrls?: string[];
 };
 
 export type OTELConfig = {
     serviceName: string;
     serviceVersion?: string;
     traceId: string;
+    signals: OTELSignal[];
     exporter: OTELExporterConfig;
     instrumentation: OTELInstrumentationConfig;
+    resourceAttributes?: OTELAttributeValues;
+    spanAttributes?: OTELAttributeValues;
+    samplingRatio?: number;
     debug?: boolean;
 };
 
 const OTEL_TRACE_EXPORT_PATH: string = 'v1/traces';
+const OTEL_METRIC_EXPORT_PATH: string = 'v1/metrics';
 
 /**
  * -------------------------
@@ -70,6 +116,12 @@ function isValidTraceIdHex(traceId: string): boolean {
     return /^[0-9a-f]{32}$/.test(v) && v !== '00000000000000000000000000000000';
 }
 
+function buildExportURL(baseUrl: string, exportPath: string): string {
+    return baseUrl.endsWith('/')
+        ? `${baseUrl}${exportPath}`
+        : `${baseUrl}/${exportPath}`;
+}
+
 function randomHex(byteLen: number): string {
     const bytes: Uint8Array = new Uint8Array(byteLen);
     crypto.getRandomValues(bytes);
@@ -117,6 +169,96 @@ class McpIdGenerator implements IdGenerator {
     }
 }
 
+/**
+ * Resource whose attributes can be replaced after the providers are created,
+ * as the providers keep the resource they are created with.
+ */
+class McpResource implements Resource {
+    private resource: Resource;
+
+    public constructor(attributes: Attributes) {
+        this.resource = resourceFromAttributes(attributes);
+    }
+
+    public setAttributes(attributes: Attributes): void {
+        this.resource = resourceFromAttributes(attributes);
+    }
+
+    public get asyncAttributesPending(): boolean | undefined {
+        return this.resource.asyncAttributesPending;
+    }
+
+    public get attributes(): Attributes {
+        return this.resource.attributes;
+    }
+
+    public get schemaUrl(): string | undefined {
+        return this.resource.schemaUrl;
+    }
+
+    public async waitForAsyncAttributes(): Promise<void> {
+        await this.resource.waitForAsyncAttributes?.();
+    }
+
+    public merge(other: Resource | null): Resource {
+        return this.resource.merge(other);
+    }
+
+    public getRawAttributes(): RawResourceAttribute[] {
+        return this.resource.getRawAttributes();
+    }
+}
+
+/**
+ * Samples the root spans randomly by the given ratio (which can be changed later).
+ * Trace id based sampling can't be used, as all the spans share the MCP-controlled trace id.
+ */
+class McpRatioSampler implements Sampler {
+    private ratio: number;
+
+    public constructor(ratio: number) {
+        this.ratio = ratio;
+    }
+
+    public setRatio(ratio: number): void {
+        this.ratio = ratio;
+    }
+
+    public shouldSample(): SamplingResult {
+        return {
+            decision:
+                Math.random() < this.ratio
+                    ? SamplingDecision.RECORD_AND_SAMPLED
+                    : SamplingDecision.NOT_RECORD,
+        };
+    }
+
+    public toString(): string {
+        return `McpRatioSampler{${this.ratio}}`;
+    }
+}
+
+/**
+ * Adds the custom span attributes (which can be changed later) to the started spans.
+ */
+class McpSpanAttributesProcessor implements SpanProcessor {
+    private attributes: OTELAttributeValues = {};
+
+    public setAttributes(attributes: OTELAttributeValues): void {
+        this.attributes = attributes;
+    }
+
+    public onStart(span: Span, _parentContext: Context): void {
+        span.setAttributes(this.attributes);
+    }
+
+    public onEnd(): void {}
+
+    public async forceFlush(): Promise<void> {}
+
+    public async shutdown(): Promise<void> {}
+}
+
 /**
  * -------------------------
  * Global controller exposed by the bundle
@@ -128,6 +270,7 @@ type McpOtelController = {
     getTraceId: () => string;
     isInitialized: () => boolean;
     getInitError: () => string | undefined;
+    flush: () => Promise<void>;
 };
 
 declare global {
@@ -153,6 +296,15 @@ declare global {
     }
 
     let idGen: McpIdGenerator | null = null;
+    let resource: McpResource | null = null;
+    let sampler: McpRatioSampler | null = null;
+    let spanAttributesProcessor: McpSpanAttributesProcessor | null = null;
+    let tracerProvider: WebTracerProvider | null = null;
+    let meterProvider: MeterProvider | null = null;
+    const instrumentations: Map<
+        OTELInstrumentationName,
+        { instrumentation: InstrumentationBase; enabled: boolean }
+    > = new Map();
     let initialized: boolean = false;
     let initError: string | undefined = undefined;
 
@@ -172,13 +324,16 @@ declare global {
             const proc: SimpleSpanProcessor = new SimpleSpanProcessor(exp);
             procs.push(proc);
             return procs;
-        } else if (cfg.exporter.type === 'otlp/http') {
-            const traceExportURL: string = cfg.exporter.url.endsWith('/')
-                ? `${cfg.exporter.url}${OTEL_TRACE_EXPORT_PATH}`
-                : `${cfg.exporter.url}/${OTEL_TRACE_EXPORT_PATH}`;
+        } else if (
+            cfg.exporter.type === 'otlp/http' ||
+            cfg.exporter.type === 'memory'
+        ) {
             const exporter: OTLPTraceExporter = new OTLPTraceExporter({
-                url: traceExportURL,
-                headers: cfg.exporter.headers,
+                url: buildExportURL(cfg.exporter.url, OTEL_TRACE_EXPORT_PATH),
+                headers:
+                    cfg.exporter.type === 'otlp/http'
+                        ? cfg.exporter.headers
+                        : undefined,
             });
 
             const bsp: BatchSpanProcessor = new BatchSpanProcessor(exporter);
@@ -191,6 +346,144 @@ declare global {
         );
     }
 
+    function buildMetricReaders(cfg: OTELConfig): Array<any> {
+        const readers: Array<any> = [];
+
+        if (cfg.exporter.type === 'none') {
+            return readers;
+        } else if (cfg.exporter.type === 'console') {
+            const exp: ConsoleMetricExporter = new ConsoleMetricExporter();
+            readers.push(new PeriodicExportingMetricReader({ exporter: exp }));
+            return readers;
+        } else if (
+            cfg.exporter.type === 'otlp/http' ||
+            cfg.exporter.type === 'memory'
+        ) {
+            const exporter: OTLPMetricExporter = new OTLPMetricExporter({
+                url: buildExportURL(cfg.exporter.url, OTEL_METRIC_EXPORT_PATH),
+                headers:
+                    cfg.exporter.type === 'otlp/http'
+                        ? cfg.exporter.headers
+                        : undefined,
+            });
+            readers.push(new PeriodicExportingMetricReader({ exporter }));
+            return readers;
+        }
+
+        throw new Error(
+            `Not supported exporter type: ${(cfg.exporter as any).type}`
+        );
+    }
+
+    function observePerformanceEntries(
+        type: string,
+        onEntry: (entry: any) => void,
+        options?: Record<string, unknown>
+    ): boolean {
+        try {
+            const po: PerformanceObserver = new PerformanceObserver(
+                (list: PerformanceObserverEntryList): void => {
+                    for (const entry of list.getEntries()) {
+                        onEntry(entry);
+                    }
+                }
+            );
+            po.observe({ type, buffered: true, ...(options ?? {}) } as any);
+            return true;
+        } catch {
+            // Entry type is not supported by the browser
+            return false;
+        }
+    }
+
+    /**
+     * Records the final LCP, INP and CLS values of the page into histograms
+     * once the page is hidden or unloaded (as they can change until then),
+     * with the same approximations as the "o11y_get-web-vitals" tool.
+     */
+    function installWebVitalsMetrics(
+        meterProvider: MeterProvider,
+        meterName: string
+    ): void {
+        const meter: Meter = meterProvider.getMeter(meterName);
+        const lcpHistogram: Histogram = meter.createHistogram(
+            'browser.web_vitals.lcp',
+            { unit: 'ms', description: 'Largest Contentful Paint' }
+        );
+        const inpHistogram: Histogram = meter.createHistogram(
+            'browser.web_vitals.inp',
+            { unit: 'ms', description: 'Interaction to Next Paint' }
+        );
+        const clsHistogram: Histogram = meter.createHistogram(
+            'browser.web_vitals.cls',
+            { unit: '1', description: 'Cumulative Layout Shift' }
+        );
+
+        let lcpMs: number | undefined = undefined;
+        let inpMs: number | undefined = undefined;
+        let cls: number = 0;
+
+        observePerformanceEntries(
+            'largest-contentful-paint',
+            (entry: any): void => {
+                if (typeof entry.startTime === 'number') {
+                    lcpMs = entry.startTime;
+                }
+            }
+        );
+        const clsSupported: boolean = observePerformanceEntries(
+            'layout-shift',
+            (entry: any): void => {
+                if (entry.hadRecentInput !== true) {
+                    cls += typeof entry.value === 'number' ? entry.value : 0;
+                }
+            }
+        );
+        observePerformanceEntries(
+            'event',
+            (entry: any): void => {
+                if (
+                    typeof entry.interactionId === 'number' &&
+                    entry.interactionId > 0 &&
+                    typeof entry.duration === 'number' &&
+                    entry.duration > (inpMs ?? 0)
+                ) {
+                    inpMs = entry.duration;
+                }
+            },
+            { durationThreshold: 16 }
+        );
+
+        let reported: boolean = false;
+        const report = (): void => {
+            if (reported) {
+                return;
+            }
+            reported = true;
+
+            const attributes: Record<string, string> = {
+                'url.path': location.pathname,
+            };
+            if (lcpMs !== undefined) {
+                lcpHistogram.record(lcpMs, attributes);
+            }
+            if (inpMs !== undefined) {
+                inpHistogram.record(inpMs, attributes);
+            }
+            if (clsSupported) {
+                clsHistogram.record(cls, attributes);
+            }
+            meterProvider.forceFlush().catch((): void => {});
+        };
+
+        addEventListener('visibilitychange', (): void => {
+            if (document.visibilityState === 'hidden') {
+                report();
+            }
+        });
+        addEventListener('pagehide', report);
+    }
+
     function buildIgnoreUrlsForBasePath(
         basePath: string
     ): Array<string | RegExp> {
@@ -265,6 +558,76 @@ declare global {
         try {
             (uiInst as any).enable?.();
         } catch {}
+
+        instrumentations.set('document-load', {
+            instrumentation: docLoadInst,
+            enabled: true,
+        });
+        instrumentations.set('fetch', {
+            instrumentation: fetchInst,
+            enabled: true,
+        });
+        instrumentations.set('xml-http-request', {
+            instrumentation: xhrInst,
+            enabled: true,
+        });
+        instrumentations.set('user-interaction', {
+            instrumentation: uiInst,
+            enabled: true,
+        });
+    }
+
+    function buildResourceAttributes(cfg: OTELConfig): Attributes {
+        return {
+            ...(cfg.resourceAttributes ?? {}),
+            [SEMRESATTRS_SERVICE_NAME]: cfg.serviceName,
+            ...(cfg.serviceVersion
+                ? { [SEMRESATTRS_SERVICE_VERSION]: cfg.serviceVersion }
+                : {}),
+        };
+    }
+
+    function applyInstrumentationConfig(
+        instrumentationConfig: OTELInstrumentationConfig
+    ): void {
+        const disabled: OTELInstrumentationName[] =
+            instrumentationConfig.disabledInstrumentations ?? [];
+        const propagateTraceHeaderCorsUrls: RegExp[] = (
+            instrumentationConfig.propagateTraceHeaderCorsUrls ?? []
+        ).map((source: string): RegExp => new RegExp(source));
+
+        for (const [name, entry] of instrumentations) {
+            if (name === 'fetch' || name === 'xml-http-request') {
+                entry.instrumentation.setConfig({
+                    ...entry.instrumentation.getConfig(),
+                    propagateTraceHeaderCorsUrls,
+                } as any);
+            }
+
+            // Only on state changes, as enabling twice might instrument twice
+            // (e.g. the document load instrumentation creates its spans again)
+            const enabled: boolean = !disabled.includes(name);
+            if (enabled !== entry.enabled) {
+                if (enabled) {
+                    entry.instrumentation.enable();
+                } else {
+                    entry.instrumentation.disable();
+                }
+                entry.enabled = enabled;
+            }
+        }
+    }
+
+    /**
+     * Applies the parts of the config which can be changed in-document.
+     */
+    function applyRuntimeConfig(cfg: OTELConfig): void {
+        resource?.setAttributes(buildResourceAttributes(cfg));
+        sampler?.setRatio(cfg.samplingRatio ?? 1);
+        spanAttributesProcessor?.setAttributes({
+            ...(cfg.spanAttributes ?? {}),
+        });
+        applyInstrumentationConfig(cfg.instrumentation ?? {});
     }
 
     function doInit(cfg: OTELConfig): void {
@@ -276,8 +639,9 @@ declare global {
             /**
              * IMPORTANT:
              * We initialize OTel only once per document.
-             * If already initialized, we only update the trace id (MCP-controlled).
-             * Exporter/serviceName changes are intentionally ignored in-document.
+             * If already initialized, we only update the trace id (MCP-controlled)
+             * and the runtime config (instrumentations, attributes, sampling ratio).
+             * Exporter/signal changes are intentionally ignored in-document.
              * For full changes, navigate/reload into a fresh document.
              */
             if (ns.otelInitialized === true) {
@@ -285,6 +649,7 @@ declare global {
                     idGen.setTraceId(cfg.traceId);
                 }
                 g.__MCP_TRACE_ID__ = normalizeTraceId(cfg.traceId);
+                applyRuntimeConfig(cfg);
                 initialized = true;
                 initError = undefined;
                 return;
@@ -295,31 +660,52 @@ declare global {
             const traceIdNorm: string = normalizeTraceId(cfg.traceId);
             idGen = new McpIdGenerator(traceIdNorm);
 
-            const resource: unknown = resourceFromAttributes({
-                [SEMRESATTRS_SERVICE_NAME]: cfg.serviceName,
-                ...(cfg.serviceVersion
-                    ? { [SEMRESATTRS_SERVICE_VERSION]: cfg.serviceVersion }
-                    : {}),
-            });
+            const signals: OTELSignal[] = cfg.signals ?? ['traces'];
 
-            const spanProcessors: Array<any> = buildSpanProcessors(cfg);
+            // Shared by all the signals
+            resource = new McpResource(buildResourceAttributes(cfg));
 
-            const provider: WebTracerProvider = new WebTracerProvider({
-                resource: resource as any,
-                idGenerator: idGen,
-                spanProcessors: spanProcessors,
-            });
+            if (signals.includes('traces')) {
+                sampler = new McpRatioSampler(cfg.samplingRatio ?? 1);
+                spanAttributesProcessor = new McpSpanAttributesProcessor();
 
-            provider.register();
+                const spanProcessors: Array<any> = [
+                    // Must be the first one to add the attributes before the spans are exported
+                    spanAttributesProcessor,
+                    ...buildSpanProcessors(cfg),
+                ];
 
-            installInstrumentations(
-                provider,
-                cfg.instrumentation ?? {},
-                (cfg.exporter as any).url
-            );
+                const provider: WebTracerProvider = new WebTracerProvider({
+                    resource: resource,
+                    idGenerator: idGen,
+                    sampler: new ParentBasedSampler({ root: sampler }),
+                    spanProcessors: spanProcessors,
+                });
+                tracerProvider = provider;
+
+                provider.register();
+
+                installInstrumentations(
+                    provider,
+                    cfg.instrumentation ?? {},
+                    (cfg.exporter as any).url
+                );
 
-            // Optional: named tracer (doesn't affect auto-instrumentation)
-            trace.getTracer(cfg.serviceName);
+                // Optional: named tracer (doesn't affect auto-instrumentation)
+                trace.getTracer(cfg.serviceName);
+            }
+
+            if (signals.includes('metrics')) {
+                meterProvider = new MeterProvider({
+                    resource: resource,
+                    readers: buildMetricReaders(cfg),
+                });
+                metrics.setGlobalMeterProvider(meterProvider);
+
+                installWebVitalsMetrics(meterProvider, cfg.serviceName);
+            }
+
+            applyRuntimeConfig(cfg);
 
             ns.otelInitialized = true;
             ns.otelInitError = undefined;
@@ -359,6 +745,16 @@ declare global {
         return normalizeTraceId(randomHex(16));
     }
 
+    /**
+     * Exports the spans and metrics buffered by the batch processors and the metric readers.
+     */
+    async function doFlush(): Promise<void> {
+        await Promise.allSettled([
+            tracerProvider?.forceFlush(),
+            meterProvider?.forceFlush(),
+        ]);
+    }
+
     function doIsInitialized(): boolean {
         return ns.otelInitialized === true && initialized === true;
     }
@@ -387,6 +783,9 @@ declare global {
         getInitError: (): string | undefined => {
             return doGetInitError();
         },
+        flush: (): Promise<void> => {
+            return doFlush();
+        },
     };
 
     g.__mcpOtel = controller;
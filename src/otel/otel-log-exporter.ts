@@ -0,0 +1,153 @@
+import * as logger from '../logger';
+
+const OTEL_LOG_SEVERITY_NUMBER_ERROR: number = 17;
+const OTEL_LOG_SCOPE_NAME: string = 'browser-devtools-mcp/console';
+const DEFAULT_MAX_BATCH_SIZE: number = 100;
+const DEFAULT_FLUSH_INTERVAL_MS: number = 1_000;
+
+export type OTELLogAttributeValues = Record<
+    string,
+    string | number | boolean | undefined
+>;
+
+export type OTELLogRecord = {
+    /**
+     * Unix epoch timestamp (in milliseconds) of the log record.
+     */
+    timestamp: number;
+    body: string;
+    attributes: OTELLogAttributeValues;
+    traceId?: string;
+};
+
+/**
+ * Sends the given OTLP/JSON logs export request payload.
+ */
+export type OTELLogSender = (payload: any) => void;
+
+export type OTELLogExporterConfig = {
+    sender: OTELLogSender;
+
+    /**
+     * Resource attributes of the exported batches,
+     * resolved on every export as they can be changed at runtime.
+     */
+    getResourceAttributes: () => OTELLogAttributeValues;
+
+    maxBatchSize?: number;
+    flushIntervalMs?: number;
+};
+
+function _toAnyValue(value: string | number | boolean): any {
+    if (typeof value === 'boolean') {
+        return { boolValue: value };
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value)
+            ? { intValue: value }
+            : { doubleValue: value };
+    }
+    return { stringValue: value };
+}
+
+function _toKeyValues(attributes: OTELLogAttributeValues): any[] {
+    const keyValues: any[] = [];
+    for (const [key, value] of Object.entries(attributes)) {
+        if (value !== undefined) {
+            keyValues.push({ key, value: _toAnyValue(value) });
+        }
+    }
+    return keyValues;
+}
+
+function _toUnixNano(timestamp: number): string {
+    return (BigInt(Math.round(timestamp)) * 1_000_000n).toString();
+}
+
+/**
+ * Exports the console errors of the pages as error log records (OTLP/JSON) in batches.
+ * Runs on the MCP side (fed by the Playwright console and page error events),
+ * so the console of the pages doesn't need to be wrapped.
+ */
+export class OTELLogExporter {
+    private readonly config: Required<OTELLogExporterConfig>;
+    private readonly records: OTELLogRecord[] = [];
+    private flushTimer?: NodeJS.Timeout;
+
+    constructor(config: OTELLogExporterConfig) {
+        this.config = {
+            maxBatchSize: DEFAULT_MAX_BATCH_SIZE,
+            flushIntervalMs: DEFAULT_FLUSH_INTERVAL_MS,
+            ...config,
+        };
+    }
+
+    emit(record: OTELLogRecord): void {
+        this.records.push(record);
+        if (this.records.length >= this.config.maxBatchSize) {
+            this.flush();
+        } else if (!this.flushTimer) {
+            this.flushTimer = setTimeout((): void => {
+                this.flush();
+            }, this.config.flushIntervalMs);
+            this.flushTimer.unref();
+        }
+    }
+
+    flush(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+        if (this.records.length === 0) {
+            return;
+        }
+
+        const records: OTELLogRecord[] = this.records.splice(0);
+        try {
+            this.config.sender({
+                resourceLogs: [
+                    {
+                        resource: {
+                            attributes: _toKeyValues(
+                                this.config.getResourceAttributes()
+                            ),
+                        },
+                        scopeLogs: [
+                            {
+                                scope: { name: OTEL_LOG_SCOPE_NAME },
+                                logRecords: records.map(
+                                    (record: OTELLogRecord): any => ({
+                                        timeUnixNano: _toUnixNano(
+                                            record.timestamp
+                                        ),
+                                        observedTimeUnixNano: _toUnixNano(
+                                            record.timestamp
+                                        ),
+                                        severityNumber:
+                                            OTEL_LOG_SEVERITY_NUMBER_ERROR,
+                                        severityText: 'ERROR',
+                                        body: { stringValue: record.body },
+                                        attributes: _toKeyValues(
+                                            record.attributes
+                                        ),
+                                        traceId: record.traceId,
+                                    })
+                                ),
+                            },
+                        ],
+                    },
+                ],
+            });
+        } catch (e: unknown) {
+            const msg: string = e instanceof Error ? e.message : String(e);
+            logger.warn(
+                `[otel-log-exporter] unable to export ${records.length} log records: ${msg}`
+            );
+        }
+    }
+
+    close(): void {
+        this.flush();
+    }
+}
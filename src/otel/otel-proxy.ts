@@ -71,6 +71,14 @@
  *   <upstreamBase>/v1/metrics
  *   <upstreamBase>/v1/logs
  *
+ * In-memory mode:
+ * ---------------
+ * When a span store is given instead of an upstream URL, the trace batches
+ * (OTLP/JSON, as sent by the browser exporter) are kept in the bounded
+ * in-memory store instead of being forwarded, so the spans can be inspected
+ * without a collector (e.g. in CI or on laptops). Metric and log batches are
+ * dropped in this mode.
+ *
  * Performance considerations:
  * ---------------------------
  * - Browser is ACKed immediately (204/200)
@@ -80,6 +88,7 @@
  */
 
 import * as logger from '../logger';
+import { OTELSpanStore } from './otel-span-store';
 
 import type { BrowserContext, Route, Request as PwRequest } from 'playwright';
 
@@ -95,8 +104,14 @@ export type OTELProxyConfig = {
      * Example: 'http://localhost:4318' or 'https://collector.company.com:4318'
      *
      * The intercepted request suffix path (e.g. '/v1/traces') is appended to this base.
+     * Not used (and not required) if spanStore is given.
      */
-    upstreamUrl: string;
+    upstreamUrl?: string;
+
+    /**
+     * Store to keep the received spans in, instead of forwarding them to upstream.
+     */
+    spanStore?: OTELSpanStore;
 
     /**
      * Optional extra headers to add when forwarding to upstream (e.g., API key).
@@ -224,11 +239,7 @@ export class OTELProxy {
     private readonly config: Required<
         Pick<
             OTELProxyConfig,
-            | 'localPath'
-            | 'upstreamUrl'
-            | 'maxQueueSize'
-            | 'concurrency'
-            | 'respondNoContent'
+            'localPath' | 'maxQueueSize' | 'concurrency' | 'respondNoContent'
         >
     > &
         OTELProxyConfig;
@@ -248,9 +259,9 @@ export class OTELProxy {
         const normalizedLocalPath: string = _normalizeBasePath(
             config.localPath
         );
-        const normalizedUpstreamUrl: string = _normalizeUpstreamBaseUrl(
-            config.upstreamUrl
-        );
+        const normalizedUpstreamUrl: string | undefined = config.upstreamUrl
+            ? _normalizeUpstreamBaseUrl(config.upstreamUrl)
+            : undefined;
 
         this.config = {
             ...config,
@@ -308,12 +319,16 @@ export class OTELProxy {
 
         this.isInstalled = true;
 
-        if (!this.isRunning) {
+        // Nothing to forward when the spans are kept in memory
+        if (!this.isRunning && !this.config.spanStore) {
             await this.start();
         }
 
         logger.debug(
-            `[otel-proxy] installed route pattern: ${pattern} (basePath=${basePath}, upstreamBase=${this.config.upstreamUrl})`
+            `[otel-proxy] installed route pattern: ${pattern} (basePath=${basePath}, ` +
+                (this.config.spanStore
+                    ? 'in-memory)'
+                    : `upstreamBase=${this.config.upstreamUrl})`)
         );
     }
 
@@ -360,6 +375,21 @@ export class OTELProxy {
         );
     }
 
+    /**
+     * Waits until the queued items are forwarded to upstream
+     * (or the given timeout elapses), so they are not dropped by "stop".
+     */
+    async drain(timeoutMs: number): Promise<void> {
+        const deadline: number = Date.now() + timeoutMs;
+        while (
+            this.isRunning &&
+            (this.queue.length > 0 || this.metrics.inFlight > 0) &&
+            Date.now() < deadline
+        ) {
+            await this._sleep(25);
+        }
+    }
+
     /**
      * Stop workers. Any queued items will be dropped.
      */
@@ -414,12 +444,6 @@ export class OTELProxy {
             return;
         }
 
-        const upstreamFullUrl: string = _appendSuffixToUpstream(
-            this.config.upstreamUrl,
-            suffixPath,
-            requestUrl
-        );
-
         const buf: Buffer | null = await req.postDataBuffer();
         const body: Buffer = buf ?? Buffer.alloc(0);
 
@@ -428,8 +452,57 @@ export class OTELProxy {
         const contentType: string =
             contentTypeHeader ?? 'application/x-protobuf';
 
-        const method: string = req.method();
+        if (this.config.spanStore) {
+            this._store(this.config.spanStore, suffixPath, contentType, body);
+            await this._fulfillFast(route);
+            return;
+        }
+
+        const upstreamFullUrl: string = _appendSuffixToUpstream(
+            this.config.upstreamUrl!,
+            suffixPath,
+            requestUrl
+        );
 
+        this._enqueue(
+            suffixPath,
+            upstreamFullUrl,
+            req.method(),
+            contentType,
+            body
+        );
+
+        await this._fulfillFast(route);
+    }
+
+    /**
+     * Queues the given OTLP/JSON payload, which is exported by the MCP side (e.g. console error logs),
+     * to be forwarded to upstream like the batches sent by the browser.
+     */
+    export(suffixPath: string, payload: unknown): void {
+        if (!this.isRunning || !this.config.upstreamUrl) {
+            this.metrics.droppedBatches++;
+            logger.debug(
+                `[otel-proxy] dropped exported batch (not forwarding) suffix=${suffixPath}`
+            );
+            return;
+        }
+        this._enqueue(
+            suffixPath,
+            this.config.upstreamUrl + suffixPath,
+            'POST',
+            'application/json',
+            Buffer.from(JSON.stringify(payload), 'utf-8')
+        );
+    }
+
+    private _enqueue(
+        suffixPath: string,
+        upstreamUrl: string,
+        method: string,
+        contentType: string,
+        body: Buffer
+    ): void {
         const headers: Record<string, string> = {
             'content-type': contentType,
         };
@@ -442,7 +515,6 @@ export class OTELProxy {
 
         if (this.queue.length >= this.config.maxQueueSize) {
             this.metrics.droppedBatches++;
-            await this._fulfillFast(route);
 
             logger.warn(
                 `[otel-proxy] dropped batch (queue full: ${this.queue.length}/${this.config.maxQueueSize}) suffix=${suffixPath}`
@@ -454,15 +526,44 @@ export class OTELProxy {
             body,
             contentType,
             createdAtMs: Date.now(),
-            upstreamUrl: upstreamFullUrl,
+            upstreamUrl,
             method,
             headers,
         };
 
         this.queue.push(item);
         this.metrics.acceptedBatches++;
+    }
 
-        await this._fulfillFast(route);
+    private _store(
+        spanStore: OTELSpanStore,
+        suffixPath: string,
+        contentType: string,
+        body: Buffer
+    ): void {
+        if (suffixPath !== '/v1/traces') {
+            logger.debug(
+                `[otel-proxy] dropped batch (not kept in memory) suffix=${suffixPath}`
+            );
+            return;
+        }
+        if (!contentType.toLowerCase().includes('json')) {
+            // Browser exporter sends OTLP/JSON, protobuf payloads are not decoded
+            this.metrics.droppedBatches++;
+            logger.debug(
+                `[otel-proxy] dropped batch (unsupported content type: ${contentType}) suffix=${suffixPath}`
+            );
+            return;
+        }
+        try {
+            spanStore.addTraces(JSON.parse(body.toString('utf-8')));
+            this.metrics.acceptedBatches++;
+        } catch (e: unknown) {
+            this.metrics.droppedBatches++;
+            const msg: string = e instanceof Error ? e.message : String(e);
+            this.metrics.lastError = msg;
+            logger.warn(`[otel-proxy] unable to store batch: ${msg}`);
+        }
     }
 
     private async _fulfillFast(route: Route): Promise<void> {
@@ -0,0 +1,250 @@
+import * as logger from '../logger';
+
+export enum OTELSpanKind {
+    UNSPECIFIED = 'unspecified',
+    INTERNAL = 'internal',
+    SERVER = 'server',
+    CLIENT = 'client',
+    PRODUCER = 'producer',
+    CONSUMER = 'consumer',
+}
+
+export enum OTELSpanStatusCode {
+    UNSET = 'unset',
+    OK = 'ok',
+    ERROR = 'error',
+}
+
+export type OTELAttributes = Record<string, any>;
+
+export type OTELSpanEvent = {
+    name: string;
+    /**
+     * Unix epoch timestamp (in milliseconds) of the event.
+     */
+    timestamp: number;
+    attributes?: OTELAttributes;
+};
+
+export type OTELSpan = {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    kind: OTELSpanKind;
+    /**
+     * Unix epoch timestamp (in milliseconds) of the span start.
+     */
+    startTime: number;
+    /**
+     * Unix epoch timestamp (in milliseconds) of the span end.
+     */
+    endTime: number;
+    /**
+     * Duration of the span in milliseconds.
+     */
+    duration: number;
+    attributes: OTELAttributes;
+    events?: OTELSpanEvent[];
+    status: {
+        code: OTELSpanStatusCode;
+        message?: string;
+    };
+    serviceName?: string;
+    scopeName?: string;
+    sequenceNumber: number;
+};
+
+const SPAN_KINDS: OTELSpanKind[] = [
+    OTELSpanKind.UNSPECIFIED,
+    OTELSpanKind.INTERNAL,
+    OTELSpanKind.SERVER,
+    OTELSpanKind.CLIENT,
+    OTELSpanKind.PRODUCER,
+    OTELSpanKind.CONSUMER,
+];
+
+const SPAN_STATUS_CODES: OTELSpanStatusCode[] = [
+    OTELSpanStatusCode.UNSET,
+    OTELSpanStatusCode.OK,
+    OTELSpanStatusCode.ERROR,
+];
+
+/**
+ * Converts the given OTLP/JSON id (hex encoded, or base64 encoded by some exporters)
+ * to lowercase hex.
+ */
+function _toHexId(id: unknown, length: number): string | undefined {
+    if (typeof id !== 'string' || !id) {
+        return undefined;
+    }
+    if (id.length === length && /^[0-9a-f]+$/i.test(id)) {
+        return id.toLowerCase();
+    }
+    const hex: string = Buffer.from(id, 'base64').toString('hex');
+    return hex.length === length ? hex : undefined;
+}
+
+/**
+ * Converts the given OTLP/JSON nanoseconds timestamp
+ * (number, string or {low, high} long bits) to milliseconds.
+ */
+function _toMillis(nanos: unknown): number {
+    if (typeof nanos === 'number') {
+        return nanos / 1e6;
+    }
+    if (typeof nanos === 'string' && nanos) {
+        return Number(BigInt(nanos) / 1000n) / 1e3;
+    }
+    if (nanos && typeof nanos === 'object') {
+        const { low, high } = nanos as { low: number; high: number };
+        return ((high >>> 0) * 2 ** 32 + (low >>> 0)) / 1e6;
+    }
+    return 0;
+}
+
+function _toAttributeValue(value: any): any {
+    if (!value || typeof value !== 'object') {
+        return undefined;
+    }
+    if ('stringValue' in value) {
+        return value.stringValue;
+    }
+    if ('boolValue' in value) {
+        return value.boolValue;
+    }
+    if ('intValue' in value) {
+        return Number(value.intValue);
+    }
+    if ('doubleValue' in value) {
+        return Number(value.doubleValue);
+    }
+    if ('arrayValue' in value) {
+        return (value.arrayValue?.values ?? []).map(_toAttributeValue);
+    }
+    if ('kvlistValue' in value) {
+        return _toAttributes(value.kvlistValue?.values);
+    }
+    if ('bytesValue' in value) {
+        return value.bytesValue;
+    }
+    return undefined;
+}
+
+function _toAttributes(keyValues: any): OTELAttributes {
+    const attributes: OTELAttributes = {};
+    for (const kv of Array.isArray(keyValues) ? keyValues : []) {
+        if (kv && typeof kv.key === 'string') {
+            attributes[kv.key] = _toAttributeValue(kv.value);
+        }
+    }
+    return attributes;
+}
+
+/**
+ * Bounded in-memory store of the spans received in OTLP/JSON trace export requests
+ * (used by the "memory" OTEL exporter instead of forwarding the spans to a collector).
+ * Oldest spans are dropped first when the store is full.
+ */
+export class OTELSpanStore {
+    private readonly maxSize: number;
+    private readonly spans: OTELSpan[] = [];
+    private _sequenceNumber: number = 0;
+    private _droppedCount: number = 0;
+
+    constructor(maxSize: number) {
+        this.maxSize = maxSize;
+    }
+
+    /**
+     * Adds the spans of the given OTLP/JSON trace export request payload
+     * and returns the count of the added spans.
+     */
+    addTraces(payload: any): number {
+        let count: number = 0;
+        for (const resourceSpans of payload?.resourceSpans ?? []) {
+            const resourceAttributes: OTELAttributes = _toAttributes(
+                resourceSpans?.resource?.attributes
+            );
+            const serviceName: string | undefined =
+                resourceAttributes['service.name'];
+            for (const scopeSpans of resourceSpans?.scopeSpans ?? []) {
+                const scopeName: string | undefined = scopeSpans?.scope?.name;
+                for (const span of scopeSpans?.spans ?? []) {
+                    const traceId: string | undefined = _toHexId(
+                        span?.traceId,
+                        32
+                    );
+                    const spanId: string | undefined = _toHexId(
+                        span?.spanId,
+                        16
+                    );
+                    if (!traceId || !spanId) {
+                        logger.debug(
+                            `[otel-span-store] skipped span without valid trace/span id: ${span?.name}`
+                        );
+                        continue;
+                    }
+                    const startTime: number = _toMillis(span.startTimeUnixNano);
+                    const endTime: number = _toMillis(span.endTimeUnixNano);
+                    this.spans.push({
+                        traceId,
+                        spanId,
+                        parentSpanId: _toHexId(span.parentSpanId, 16),
+                        name: String(span.name ?? ''),
+                        kind:
+                            SPAN_KINDS[Number(span.kind ?? 0)] ??
+                            OTELSpanKind.UNSPECIFIED,
+                        startTime,
+                        endTime,
+                        duration: Math.max(0, endTime - startTime),
+                        attributes: _toAttributes(span.attributes),
+                        events: Array.isArray(span.events)
+                            ? span.events.map(
+                                  (event: any): OTELSpanEvent => ({
+                                      name: String(event?.name ?? ''),
+                                      timestamp: _toMillis(event?.timeUnixNano),
+                                      attributes: _toAttributes(
+                                          event?.attributes
+                                      ),
+                                  })
+                              )
+                            : undefined,
+                        status: {
+                            code:
+                                SPAN_STATUS_CODES[
+                                    Number(span.status?.code ?? 0)
+                                ] ?? OTELSpanStatusCode.UNSET,
+                            message: span.status?.message || undefined,
+                        },
+                        serviceName,
+                        scopeName,
+                        sequenceNumber: ++this._sequenceNumber,
+                    });
+                    count++;
+                }
+            }
+        }
+        if (this.spans.length > this.maxSize) {
+            const droppedCount: number = this.spans.length - this.maxSize;
+            this.spans.splice(0, droppedCount);
+            this._droppedCount += droppedCount;
+        }
+        return count;
+    }
+
+    getSpans(): OTELSpan[] {
+        return this.spans;
+    }
+
+    /**
+     * Count of the spans dropped as the store was full.
+     */
+    droppedCount(): number {
+        return this._droppedCount;
+    }
+
+    clear(): void {
+        this.spans.length = 0;
+    }
+}
@@ -6,11 +6,15 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 
+import type { Frame } from 'playwright';
 import { z } from 'zod';
 
 export interface TakeSnapshotInput extends ToolInput {
     selector?: string;
+    frame?: FrameSelector;
 }
 
 export interface TakeSnapshotOutput extends ToolOutput {
@@ -41,6 +45,7 @@ The output includes the page URL, title, and a YAML-formatted accessibility tree
                 .string()
                 .describe('CSS selector for element to take snapshot.')
                 .optional(),
+            frame: frameSelectorSchema(),
         };
     }
 
@@ -58,7 +63,8 @@ The output includes the page URL, title, and a YAML-formatted accessibility tree
         context: ToolSessionContext,
         args: TakeSnapshotInput
     ): Promise<TakeSnapshotOutput> {
-        const snapshot: string = await context.page
+        const frame: Frame = await getFrame(context.page, args.frame);
+        const snapshot: string = await frame
             .locator(args.selector || 'body')
             .ariaSnapshot();
         const output: string = `
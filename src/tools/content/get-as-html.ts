@@ -6,14 +6,17 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 
-import type { ElementHandle } from 'playwright';
+import type { ElementHandle, Frame } from 'playwright';
 import { z } from 'zod';
 
 const DEFAULT_MAX_HTML_LENGTH = 50_000;
 
 export interface GetAsHtmlInput extends ToolInput {
     selector: string;
+    frame?: FrameSelector;
     removeScripts: boolean;
     removeComments: boolean;
     removeStyles: boolean;
@@ -34,7 +37,7 @@ export class GetAsHtml implements Tool {
 
     description(): string {
         return `
-Gets the HTML content of the current page. 
+Gets the HTML content of the current page (or one of its frames). 
 By default, all <script> tags are removed from the output unless "removeScripts" is explicitly set to "false".
         `;
     }
@@ -47,6 +50,7 @@ By default, all <script> tags are removed from the output unless "removeScripts"
                     'CSS selector to limit the HTML content to a specific container.'
                 )
                 .optional(),
+            frame: frameSelectorSchema(),
             removeScripts: z
                 .boolean()
                 .describe(
@@ -120,13 +124,14 @@ By default, all <script> tags are removed from the output unless "removeScripts"
             maxLength,
         } = args;
 
+        const frame: Frame = await getFrame(context.page, args.frame);
+
         // Get the HTML content
         let htmlContent: string;
 
         if (selector) {
             // If a selector is provided, get only the HTML for that element
-            const element: ElementHandle | null =
-                await context.page.$(selector);
+            const element: ElementHandle | null = await frame.$(selector);
             if (!element) {
                 throw new Error(
                     `Element with selector "${selector}" not found`
@@ -136,8 +141,8 @@ By default, all <script> tags are removed from the output unless "removeScripts"
                 (el: Element): string => el.outerHTML
             );
         } else {
-            // Otherwise get the full page HTML
-            htmlContent = await context.page.content();
+            // Otherwise get the full page (or frame) HTML
+            htmlContent = await frame.content();
         }
 
         // Determine if we need to apply filters
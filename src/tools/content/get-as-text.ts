@@ -6,13 +6,17 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 
+import type { Frame } from 'playwright';
 import { z } from 'zod';
 
 const DEFAULT_MAX_TEXT_LENGTH = 50_000;
 
 export interface GetAsTextInput extends ToolInput {
     selector?: string;
+    frame?: FrameSelector;
     maxLength: number;
 }
 
@@ -26,7 +30,7 @@ export class GetAsText implements Tool {
     }
 
     description(): string {
-        return 'Gets the visible text content of the current page.';
+        return 'Gets the visible text content of the current page (or one of its frames).';
     }
 
     inputSchema(): ToolInputSchema {
@@ -37,6 +41,7 @@ export class GetAsText implements Tool {
                     'CSS selector to limit the text content to a specific container.'
                 )
                 .optional(),
+            frame: frameSelectorSchema(),
             maxLength: z
                 .number()
                 .int()
@@ -63,7 +68,8 @@ export class GetAsText implements Tool {
     ): Promise<GetAsTextOutput> {
         const { selector, maxLength } = args;
 
-        const visibleText: string = await context.page.evaluate(
+        const frame: Frame = await getFrame(context.page, args.frame);
+        const visibleText: string = await frame.evaluate(
             ({ selector }): string => {
                 const root: Element | null = selector
                     ? document.querySelector(selector)
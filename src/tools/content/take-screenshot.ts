@@ -6,6 +6,8 @@ import {
     ToolOutputSchema,
     ToolOutputWithImage,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 import {
     createEnumTransformer,
     formattedTimeForFilename,
@@ -16,7 +18,7 @@ import os from 'os';
 import path from 'path';
 
 import jpegjs from 'jpeg-js';
-import type { ElementHandle } from 'playwright';
+import type { ElementHandle, Frame } from 'playwright';
 import { PNG } from 'pngjs';
 import { z } from 'zod';
 
@@ -29,6 +31,7 @@ export interface TakeScreenshotInput extends ToolInput {
     outputPath: string;
     name?: string;
     selector?: string;
+    frame?: FrameSelector;
     fullPage?: boolean;
     type?: ScreenshotType;
     quality?: number;
@@ -81,6 +84,7 @@ the image data directly in the response.`;
                 .string()
                 .describe('CSS selector for element to take screenshot.')
                 .optional(),
+            frame: frameSelectorSchema(),
             fullPage: z
                 .boolean()
                 .describe(
@@ -380,13 +384,16 @@ the image data directly in the response.`;
         };
 
         if (args.selector) {
-            const element: ElementHandle | null = await context.page.$(
-                args.selector
-            );
+            const frame: Frame = await getFrame(context.page, args.frame);
+            const element: ElementHandle | null = await frame.$(args.selector);
             if (!element) {
                 throw new Error(`Element not found: ${args.selector}`);
             }
             options.element = element;
+        } else if (args.frame) {
+            // Take screenshot of the iframe element itself
+            const frame: Frame = await getFrame(context.page, args.frame);
+            options.element = await frame.frameElement();
         }
 
         const screenshot: Buffer<ArrayBufferLike> =
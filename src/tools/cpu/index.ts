@@ -0,0 +1,4 @@
+import { Tool } from '../types';
+import { Throttle } from './throttle';
+
+export const tools: Tool[] = [new Throttle()];
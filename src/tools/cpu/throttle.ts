@@ -0,0 +1,69 @@
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+const MAX_THROTTLING_RATE: number = 20;
+
+export interface ThrottleInput extends ToolInput {
+    rate: number;
+}
+
+export interface ThrottleOutput extends ToolOutput {
+    rate: number;
+}
+
+export class Throttle implements Tool {
+    name(): string {
+        return 'cpu_throttle';
+    }
+
+    description(): string {
+        return `
+Throttles CPU on all the open pages of the current session and the ones opened later,
+to reproduce the performance on slower devices.
+
+- "rate" is the slowdown factor: 1 disables throttling, 4 is a typical mid-tier mobile device, 6 is a low-end mobile device.
+- Only supported on Chromium-based browsers.
+- Active throttling rate is reported by "o11y_get-web-vitals" tool to keep the measured values interpretable.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            rate: z
+                .number()
+                .min(1)
+                .max(MAX_THROTTLING_RATE)
+                .describe(
+                    'CPU slowdown factor (1 disables throttling, e.g. 4 means 4x slower).'
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            rate: z
+                .number()
+                .describe(
+                    'Active CPU slowdown factor (1 means no throttling).'
+                ),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: ThrottleInput
+    ): Promise<ThrottleOutput> {
+        await context.setCpuThrottlingRate(args.rate);
+        return {
+            rate: context.getCpuThrottlingRate() ?? 1,
+        };
+    }
+}
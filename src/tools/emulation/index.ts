@@ -0,0 +1,14 @@
+import { Tool } from '../types';
+import { SetDevice } from './set-device';
+import { SetGeolocation } from './set-geolocation';
+import { SetLocaleTimezone } from './set-locale-timezone';
+import { SetMedia } from './set-media';
+import { SetPermissions } from './set-permissions';
+
+export const tools: Tool[] = [
+    new SetDevice(),
+    new SetGeolocation(),
+    new SetLocaleTimezone(),
+    new SetMedia(),
+    new SetPermissions(),
+];
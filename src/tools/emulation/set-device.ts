@@ -0,0 +1,245 @@
+import { BrowserContextEmulationOptions } from '../../browser';
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { devices } from 'playwright';
+import { z } from 'zod';
+
+const MAX_SUGGESTED_DEVICE_COUNT: number = 10;
+
+type DeviceDescriptor = (typeof devices)[string];
+
+export interface SetDeviceInput extends ToolInput {
+    device?: string;
+    viewport?: {
+        width: number;
+        height: number;
+    };
+    deviceScaleFactor?: number;
+    isMobile?: boolean;
+    hasTouch?: boolean;
+    userAgent?: string;
+}
+
+export interface SetDeviceOutput extends ToolOutput {
+    device?: string;
+    applied: {
+        viewport?: {
+            width: number;
+            height: number;
+        };
+        deviceScaleFactor?: number;
+        isMobile?: boolean;
+        hasTouch?: boolean;
+        userAgent?: string;
+    };
+    effective: {
+        innerWidth: number;
+        innerHeight: number;
+        devicePixelRatio: number;
+        maxTouchPoints: number;
+        coarsePointer: boolean;
+        userAgent: string;
+    };
+}
+
+function _findDevice(name: string): DeviceDescriptor {
+    const descriptor: DeviceDescriptor | undefined =
+        devices[name] ??
+        Object.entries(devices).find(
+            ([deviceName]: [string, unknown]): boolean =>
+                deviceName.toLowerCase() === name.trim().toLowerCase()
+        )?.[1];
+    if (!descriptor) {
+        const query: string = name.trim().toLowerCase();
+        const suggestions: string[] = Object.keys(devices)
+            .filter((deviceName: string): boolean =>
+                deviceName.toLowerCase().includes(query)
+            )
+            .slice(0, MAX_SUGGESTED_DEVICE_COUNT);
+        throw new Error(
+            `Unknown device "${name}". ` +
+                (suggestions.length
+                    ? `Did you mean one of: ${suggestions.map((s: string): string => `"${s}"`).join(', ')}?`
+                    : 'Use Playwright device descriptor names such as "iPhone 15" or "Pixel 7".')
+        );
+    }
+    return descriptor;
+}
+
+export class SetDevice implements Tool {
+    name(): string {
+        return 'emulation_set-device';
+    }
+
+    description(): string {
+        return `
+Emulates a device (viewport, device scale factor, mobile mode, touch support and user agent) in the current session.
+
+- "device" accepts Playwright device descriptor names (e.g. "iPhone 15", "Pixel 7", "iPad Pro 11", "Desktop Chrome").
+  Append " landscape" for the landscape variant (e.g. "iPhone 15 landscape").
+- Custom values (viewport, deviceScaleFactor, isMobile, hasTouch, userAgent) can be given alone
+  or together with "device" to override the values of the device descriptor.
+
+As these settings can only be applied while creating the browser context,
+the browser context of the session is recreated with them, and state is carried over where possible:
+- Cookies, localStorage and IndexedDB, granted permissions and geolocation
+- Open pages (with their ids and URLs, they are reloaded), stubs, collected console messages and HTTP requests
+
+In-memory state of the pages (JavaScript heap, form inputs, scroll positions) is lost.
+"isMobile" is not supported by Firefox.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            device: z
+                .string()
+                .describe(
+                    'Playwright device descriptor name (e.g. "iPhone 15", "Pixel 7").'
+                )
+                .optional(),
+            viewport: z
+                .object({
+                    width: z
+                        .number()
+                        .int()
+                        .positive()
+                        .describe('Viewport width in CSS pixels.'),
+                    height: z
+                        .number()
+                        .int()
+                        .positive()
+                        .describe('Viewport height in CSS pixels.'),
+                })
+                .describe('Viewport size.')
+                .optional(),
+            deviceScaleFactor: z
+                .number()
+                .positive()
+                .describe('Device scale factor (window.devicePixelRatio).')
+                .optional(),
+            isMobile: z
+                .boolean()
+                .describe(
+                    'Whether the meta viewport tag is taken into account and mobile layout is used.'
+                )
+                .optional(),
+            hasTouch: z
+                .boolean()
+                .describe('Whether touch events are supported.')
+                .optional(),
+            userAgent: z.string().describe('User agent string.').optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            device: z
+                .string()
+                .describe('Name of the emulated device, if any.')
+                .optional(),
+            applied: z
+                .object({
+                    viewport: z
+                        .object({
+                            width: z.number().int(),
+                            height: z.number().int(),
+                        })
+                        .optional(),
+                    deviceScaleFactor: z.number().optional(),
+                    isMobile: z.boolean().optional(),
+                    hasTouch: z.boolean().optional(),
+                    userAgent: z.string().optional(),
+                })
+                .describe(
+                    'Emulation options the browser context has been recreated with.'
+                ),
+            effective: z
+                .object({
+                    innerWidth: z
+                        .number()
+                        .describe('window.innerWidth (CSS pixels).'),
+                    innerHeight: z
+                        .number()
+                        .describe('window.innerHeight (CSS pixels).'),
+                    devicePixelRatio: z
+                        .number()
+                        .describe('window.devicePixelRatio.'),
+                    maxTouchPoints: z
+                        .number()
+                        .describe('navigator.maxTouchPoints.'),
+                    coarsePointer: z
+                        .boolean()
+                        .describe(
+                            'Whether "(pointer: coarse)" media query matches.'
+                        ),
+                    userAgent: z.string().describe('navigator.userAgent.'),
+                })
+                .describe('Values read back from the active page.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: SetDeviceInput
+    ): Promise<SetDeviceOutput> {
+        const descriptor: DeviceDescriptor | undefined = args.device
+            ? _findDevice(args.device)
+            : undefined;
+
+        const emulation: BrowserContextEmulationOptions = {
+            viewport: args.viewport ?? descriptor?.viewport,
+            deviceScaleFactor:
+                args.deviceScaleFactor ?? descriptor?.deviceScaleFactor,
+            isMobile: args.isMobile ?? descriptor?.isMobile,
+            hasTouch: args.hasTouch ?? descriptor?.hasTouch,
+            userAgent: args.userAgent ?? descriptor?.userAgent,
+        };
+        for (const key of Object.keys(emulation)) {
+            const k: keyof BrowserContextEmulationOptions =
+                key as keyof BrowserContextEmulationOptions;
+            if (emulation[k] === undefined) {
+                delete emulation[k];
+            }
+        }
+        if (Object.keys(emulation).length === 0) {
+            throw new Error(
+                'Either "device" or at least one of the custom values (viewport, deviceScaleFactor, isMobile, hasTouch, userAgent) must be specified'
+            );
+        }
+
+        await context.recreateBrowserContext(emulation);
+
+        const effective: SetDeviceOutput['effective'] =
+            await context.page.evaluate((): SetDeviceOutput['effective'] => {
+                return {
+                    innerWidth: window.innerWidth,
+                    innerHeight: window.innerHeight,
+                    devicePixelRatio: window.devicePixelRatio,
+                    maxTouchPoints: navigator.maxTouchPoints,
+                    coarsePointer:
+                        window.matchMedia('(pointer: coarse)').matches,
+                    userAgent: navigator.userAgent,
+                };
+            });
+
+        return {
+            device: args.device,
+            applied: {
+                viewport: emulation.viewport ?? undefined,
+                deviceScaleFactor: emulation.deviceScaleFactor,
+                isMobile: emulation.isMobile,
+                hasTouch: emulation.hasTouch,
+                userAgent: emulation.userAgent,
+            },
+            effective,
+        };
+    }
+}
@@ -0,0 +1,170 @@
+import { Geolocation, ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+const GEOLOCATION_READ_TIMEOUT_MS: number = 5000;
+
+export interface SetGeolocationInput extends ToolInput {
+    latitude?: number;
+    longitude?: number;
+    accuracy?: number;
+    clear?: boolean;
+    grantPermission?: boolean;
+}
+
+export interface SetGeolocationOutput extends ToolOutput {
+    geolocation?: Geolocation;
+    effective?: Geolocation;
+    effectiveError?: string;
+}
+
+export class SetGeolocation implements Tool {
+    name(): string {
+        return 'emulation_set-geolocation';
+    }
+
+    description(): string {
+        return `
+Sets (or clears) the emulated geolocation of the current session, without reloading the pages.
+
+- Pages can only read the geolocation if the "geolocation" permission is granted.
+  By default, it is granted for all origins (see "grantPermission").
+- The effective geolocation is read back from the active page by "navigator.geolocation.getCurrentPosition()".
+  Reading back might fail (reported in "effectiveError") on pages without a secure origin (e.g. "about:blank").
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            latitude: z
+                .number()
+                .min(-90)
+                .max(90)
+                .describe('Latitude between -90 and 90.')
+                .optional(),
+            longitude: z
+                .number()
+                .min(-180)
+                .max(180)
+                .describe('Longitude between -180 and 180.')
+                .optional(),
+            accuracy: z
+                .number()
+                .nonnegative()
+                .describe('Non-negative accuracy value in meters.')
+                .optional(),
+            clear: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe(
+                    'Clears the emulated geolocation instead of setting it.'
+                ),
+            grantPermission: z
+                .boolean()
+                .optional()
+                .default(true)
+                .describe(
+                    'Whether to grant "geolocation" permission for all origins.'
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            geolocation: z
+                .object({
+                    latitude: z.number(),
+                    longitude: z.number(),
+                    accuracy: z.number().optional(),
+                })
+                .describe(
+                    'Emulated geolocation of the session. Omitted if cleared.'
+                )
+                .optional(),
+            effective: z
+                .object({
+                    latitude: z.number(),
+                    longitude: z.number(),
+                    accuracy: z.number().optional(),
+                })
+                .describe('Geolocation read back from the active page.')
+                .optional(),
+            effectiveError: z
+                .string()
+                .describe(
+                    'Error message if the geolocation could not be read back from the active page.'
+                )
+                .optional(),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: SetGeolocationInput
+    ): Promise<SetGeolocationOutput> {
+        if (args.clear) {
+            await context.setGeolocation(null);
+            return {};
+        }
+
+        if (args.latitude === undefined || args.longitude === undefined) {
+            throw new Error(
+                'Both "latitude" and "longitude" must be specified unless "clear" is set'
+            );
+        }
+
+        const geolocation: Geolocation = {
+            latitude: args.latitude,
+            longitude: args.longitude,
+            accuracy: args.accuracy,
+        };
+        if (args.grantPermission !== false) {
+            await context.grantPermissions(['geolocation']);
+        }
+        await context.setGeolocation(geolocation);
+
+        const result: { effective?: Geolocation; error?: string } =
+            await context.page.evaluate(
+                (
+                    timeoutMs: number
+                ): Promise<{ effective?: Geolocation; error?: string }> => {
+                    return new Promise((resolve: any): void => {
+                        if (!navigator.geolocation) {
+                            resolve({
+                                error: 'Geolocation API is not available',
+                            });
+                            return;
+                        }
+                        navigator.geolocation.getCurrentPosition(
+                            (position: GeolocationPosition): void =>
+                                resolve({
+                                    effective: {
+                                        latitude: position.coords.latitude,
+                                        longitude: position.coords.longitude,
+                                        accuracy: position.coords.accuracy,
+                                    },
+                                }),
+                            (err: GeolocationPositionError): void =>
+                                resolve({ error: err.message }),
+                            { timeout: timeoutMs, maximumAge: 0 }
+                        );
+                    });
+                },
+                GEOLOCATION_READ_TIMEOUT_MS
+            );
+
+        return {
+            geolocation,
+            effective: result.effective,
+            effectiveError: result.error,
+        };
+    }
+}
@@ -0,0 +1,149 @@
+import { BrowserContextEmulationOptions } from '../../browser';
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface SetLocaleTimezoneInput extends ToolInput {
+    locale?: string;
+    timezone?: string;
+}
+
+export interface SetLocaleTimezoneOutput extends ToolOutput {
+    applied: {
+        locale?: string;
+        timezone?: string;
+    };
+    effective: {
+        language: string;
+        languages: string[];
+        locale: string;
+        timezone: string;
+        timezoneOffsetMinutes: number;
+        formattedDate: string;
+    };
+}
+
+export class SetLocaleTimezone implements Tool {
+    name(): string {
+        return 'emulation_set-locale-timezone';
+    }
+
+    description(): string {
+        return `
+Sets the locale and/or timezone of the current session
+(affects "navigator.language", "Accept-Language" header, "Intl" APIs and "Date" formatting).
+
+As these settings can only be applied while creating the browser context,
+the browser context of the session is recreated with them, and state is carried over where possible:
+- Cookies, localStorage and IndexedDB, granted permissions and geolocation
+- Open pages (with their ids and URLs, they are reloaded), stubs, collected console messages and HTTP requests
+
+In-memory state of the pages (JavaScript heap, form inputs, scroll positions) is lost.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            locale: z
+                .string()
+                .describe('Locale (e.g. "en-US", "de-DE", "tr-TR").')
+                .optional(),
+            timezone: z
+                .string()
+                .describe(
+                    'IANA timezone id (e.g. "Europe/Istanbul", "America/New_York").'
+                )
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            applied: z
+                .object({
+                    locale: z.string().optional(),
+                    timezone: z.string().optional(),
+                })
+                .describe(
+                    'Locale and timezone the browser context has been recreated with.'
+                ),
+            effective: z
+                .object({
+                    language: z.string().describe('navigator.language.'),
+                    languages: z
+                        .array(z.string())
+                        .describe('navigator.languages.'),
+                    locale: z
+                        .string()
+                        .describe('Locale resolved by the "Intl" APIs.'),
+                    timezone: z
+                        .string()
+                        .describe('Timezone resolved by the "Intl" APIs.'),
+                    timezoneOffsetMinutes: z
+                        .number()
+                        .describe(
+                            'Current timezone offset in minutes (Date.getTimezoneOffset()).'
+                        ),
+                    formattedDate: z
+                        .string()
+                        .describe('Current date formatted by the locale.'),
+                })
+                .describe('Values read back from the active page.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: SetLocaleTimezoneInput
+    ): Promise<SetLocaleTimezoneOutput> {
+        if (!args.locale && !args.timezone) {
+            throw new Error(
+                'At least one of "locale" or "timezone" must be specified'
+            );
+        }
+
+        const emulation: BrowserContextEmulationOptions = {};
+        if (args.locale) {
+            emulation.locale = args.locale;
+        }
+        if (args.timezone) {
+            emulation.timezoneId = args.timezone;
+        }
+
+        await context.recreateBrowserContext(emulation);
+
+        const current: BrowserContextEmulationOptions =
+            context.getEmulationOptions();
+        const effective: SetLocaleTimezoneOutput['effective'] =
+            await context.page.evaluate(
+                (): SetLocaleTimezoneOutput['effective'] => {
+                    const now: Date = new Date();
+                    const resolvedOptions: Intl.ResolvedDateTimeFormatOptions =
+                        Intl.DateTimeFormat().resolvedOptions();
+                    return {
+                        language: navigator.language,
+                        languages: [...navigator.languages],
+                        locale: resolvedOptions.locale,
+                        timezone: resolvedOptions.timeZone,
+                        timezoneOffsetMinutes: now.getTimezoneOffset(),
+                        formattedDate: now.toLocaleString(),
+                    };
+                }
+            );
+
+        return {
+            applied: {
+                locale: current.locale,
+                timezone: current.timezoneId,
+            },
+            effective,
+        };
+    }
+}
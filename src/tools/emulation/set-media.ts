@@ -0,0 +1,150 @@
+import { MediaEmulationOptions, ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface SetMediaInput extends ToolInput {
+    media?: 'screen' | 'print' | null;
+    colorScheme?: 'light' | 'dark' | 'no-preference' | null;
+    reducedMotion?: 'reduce' | 'no-preference' | null;
+    forcedColors?: 'active' | 'none' | null;
+}
+
+export interface SetMediaOutput extends ToolOutput {
+    effective: {
+        print: boolean;
+        prefersColorScheme: 'light' | 'dark' | 'no-preference';
+        prefersReducedMotion: 'reduce' | 'no-preference';
+        forcedColors: 'active' | 'none';
+    };
+}
+
+export class SetMedia implements Tool {
+    name(): string {
+        return 'emulation_set-media';
+    }
+
+    description(): string {
+        return `
+Emulates CSS media type and media features on all the open pages of the current session
+(and the ones opened later), without reloading them:
+- media: "screen" or "print" (to check print styles)
+- colorScheme: "prefers-color-scheme" media feature ("light", "dark", "no-preference")
+- reducedMotion: "prefers-reduced-motion" media feature ("reduce", "no-preference")
+- forcedColors: "forced-colors" media feature ("active", "none")
+
+Omitted options keep their current emulation; "null" resets the option to the browser default.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            media: z
+                .enum(['screen', 'print'])
+                .nullable()
+                .describe('CSS media type to emulate. "null" resets it.')
+                .optional(),
+            colorScheme: z
+                .enum(['light', 'dark', 'no-preference'])
+                .nullable()
+                .describe(
+                    '"prefers-color-scheme" media feature. "null" resets it.'
+                )
+                .optional(),
+            reducedMotion: z
+                .enum(['reduce', 'no-preference'])
+                .nullable()
+                .describe(
+                    '"prefers-reduced-motion" media feature. "null" resets it.'
+                )
+                .optional(),
+            forcedColors: z
+                .enum(['active', 'none'])
+                .nullable()
+                .describe('"forced-colors" media feature. "null" resets it.')
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            effective: z
+                .object({
+                    print: z
+                        .boolean()
+                        .describe('Whether "print" media query matches.'),
+                    prefersColorScheme: z
+                        .enum(['light', 'dark', 'no-preference'])
+                        .describe('Matching "prefers-color-scheme" value.'),
+                    prefersReducedMotion: z
+                        .enum(['reduce', 'no-preference'])
+                        .describe('Matching "prefers-reduced-motion" value.'),
+                    forcedColors: z
+                        .enum(['active', 'none'])
+                        .describe('Matching "forced-colors" value.'),
+                })
+                .describe(
+                    'Media query results read back from the active page.'
+                ),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: SetMediaInput
+    ): Promise<SetMediaOutput> {
+        const options: MediaEmulationOptions = {};
+        if (args.media !== undefined) {
+            options.media = args.media;
+        }
+        if (args.colorScheme !== undefined) {
+            options.colorScheme = args.colorScheme;
+        }
+        if (args.reducedMotion !== undefined) {
+            options.reducedMotion = args.reducedMotion;
+        }
+        if (args.forcedColors !== undefined) {
+            options.forcedColors = args.forcedColors;
+        }
+        if (Object.keys(options).length === 0) {
+            throw new Error(
+                'At least one of the media, colorScheme, reducedMotion or forcedColors options must be specified'
+            );
+        }
+
+        await context.emulateMedia(options);
+
+        const effective: SetMediaOutput['effective'] =
+            await context.page.evaluate((): SetMediaOutput['effective'] => {
+                const matches: (query: string) => boolean = (
+                    query: string
+                ): boolean => window.matchMedia(query).matches;
+                return {
+                    print: matches('print'),
+                    prefersColorScheme: matches('(prefers-color-scheme: dark)')
+                        ? 'dark'
+                        : matches('(prefers-color-scheme: light)')
+                          ? 'light'
+                          : 'no-preference',
+                    prefersReducedMotion: matches(
+                        '(prefers-reduced-motion: reduce)'
+                    )
+                        ? 'reduce'
+                        : 'no-preference',
+                    forcedColors: matches('(forced-colors: active)')
+                        ? 'active'
+                        : 'none',
+                };
+            });
+
+        return {
+            effective,
+        };
+    }
+}
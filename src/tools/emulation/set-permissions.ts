@@ -0,0 +1,168 @@
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+// Permissions supported by Playwright ("BrowserContext.grantPermissions")
+const PERMISSIONS: [string, ...string[]] = [
+    'accelerometer',
+    'ambient-light-sensor',
+    'background-sync',
+    'camera',
+    'clipboard-read',
+    'clipboard-write',
+    'geolocation',
+    'gyroscope',
+    'local-fonts',
+    'local-network-access',
+    'magnetometer',
+    'microphone',
+    'midi',
+    'midi-sysex',
+    'notifications',
+    'payment-handler',
+    'storage-access',
+];
+
+export interface SetPermissionsInput extends ToolInput {
+    action: 'grant' | 'revoke';
+    permissions: string[];
+    origin?: string;
+}
+
+export interface SetPermissionsOutput extends ToolOutput {
+    grantedPermissions: Record<string, string[]>;
+    effective?: {
+        origin: string;
+        states: {
+            name: string;
+            state: string;
+        }[];
+    };
+}
+
+export class SetPermissions implements Tool {
+    name(): string {
+        return 'emulation_set-permissions';
+    }
+
+    description(): string {
+        return `
+Grants or revokes browser permissions (geolocation, notifications, clipboard-read, camera, ...)
+for a specific origin or for all origins in the current session, without reloading the pages.
+
+- If "origin" is omitted, the permissions are granted/revoked for all origins.
+  Revoking for all origins doesn't revoke the ones granted for a specific origin.
+- The effective permission states are read back from the active page by "navigator.permissions.query()"
+  if the active page belongs to the given origin (or if no origin is given).
+  State of a permission is "unsupported" if the browser doesn't support querying it.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            action: z
+                .enum(['grant', 'revoke'])
+                .describe('Whether to grant or revoke the permissions.'),
+            permissions: z
+                .array(z.enum(PERMISSIONS))
+                .min(1)
+                .describe('Permissions to grant or revoke.'),
+            origin: z
+                .string()
+                .describe(
+                    'Origin to grant/revoke the permissions for (e.g. "https://example.com"). Omit for all origins.'
+                )
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            grantedPermissions: z
+                .record(z.string(), z.array(z.string()))
+                .describe(
+                    'Granted permissions of the session by origin ("*" for all origins).'
+                ),
+            effective: z
+                .object({
+                    origin: z.string().describe('Origin of the active page.'),
+                    states: z
+                        .array(
+                            z.object({
+                                name: z.string().describe('Permission name.'),
+                                state: z
+                                    .string()
+                                    .describe(
+                                        'Permission state: "granted", "denied", "prompt" or "unsupported".'
+                                    ),
+                            })
+                        )
+                        .describe('States of the given permissions.'),
+                })
+                .describe('Permission states read back from the active page.')
+                .optional(),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: SetPermissionsInput
+    ): Promise<SetPermissionsOutput> {
+        const origin: string | undefined = args.origin
+            ? new URL(args.origin).origin
+            : undefined;
+
+        if (args.action === 'grant') {
+            await context.grantPermissions(args.permissions, origin);
+        } else {
+            await context.revokePermissions(args.permissions, origin);
+        }
+
+        let effective: SetPermissionsOutput['effective'];
+        const pageOrigin: string = await context.page.evaluate(
+            (): string => location.origin
+        );
+        if (!origin || origin === pageOrigin) {
+            effective = {
+                origin: pageOrigin,
+                states: await context.page.evaluate(
+                    async (
+                        names: string[]
+                    ): Promise<{ name: string; state: string }[]> => {
+                        const states: { name: string; state: string }[] = [];
+                        for (const name of names) {
+                            try {
+                                const status: PermissionStatus =
+                                    await navigator.permissions.query(
+                                        name === 'midi-sysex'
+                                            ? ({
+                                                  name: 'midi',
+                                                  sysex: true,
+                                              } as any)
+                                            : ({ name } as any)
+                                    );
+                                states.push({ name, state: status.state });
+                            } catch {
+                                states.push({ name, state: 'unsupported' });
+                            }
+                        }
+                        return states;
+                    },
+                    args.permissions
+                ),
+            };
+        }
+
+        return {
+            grantedPermissions: context.getGrantedPermissions(),
+            effective,
+        };
+    }
+}
@@ -0,0 +1,30 @@
+import { z, ZodTypeAny } from 'zod';
+
+export function frameSelectorSchema(): ZodTypeAny {
+    return z
+        .object({
+            selectors: z
+                .array(z.string())
+                .describe(
+                    `
+Chain of CSS selectors of the iframe elements, from the outermost to the innermost one. 
+Each selector is resolved in the frame selected by the previous one, starting from the main frame.`
+                )
+                .optional(),
+            name: z.string().describe('Name (or id) of the frame.').optional(),
+            url: z
+                .string()
+                .describe(
+                    'Glob pattern matched against the full frame URL (picomatch).'
+                )
+                .optional(),
+        })
+        .describe(
+            `
+Frame to resolve the selector(s) in. Omit to use the main frame of the page. 
+The iframe selector chain (if any) is resolved first, and then the name/URL filters 
+are applied to the resolved frame and its descendant frames. 
+Use "page_list-frames" to discover the frames of the page.`
+        )
+        .optional();
+}
@@ -1,12 +1,17 @@
 import { Tool, ToolInput, ToolOutput, ToolOutputWithImage } from './types';
 import { tools as a11yTools } from './a11y';
 import { tools as contentTools } from './content';
+import { tools as cpuTools } from './cpu';
+import { tools as emulationTools } from './emulation';
 import { tools as figmaTools } from './figma';
 import { tools as interactionTools } from './interaction';
 import { tools as navigationTools } from './navigation';
+import { tools as networkTools } from './network';
 import { tools as o11yTools } from './o11y';
+import { tools as pageTools } from './page';
 import { tools as reactTools } from './react';
 import { tools as runTools } from './run';
+import { tools as sessionTools } from './session';
 import { tools as stubTools } from './stub';
 import { tools as syncTools } from './sync';
 
@@ -15,12 +20,17 @@ export * from './tool-executor';
 export const tools: Tool[] = [
     ...a11yTools,
     ...contentTools,
+    ...cpuTools,
+    ...emulationTools,
     ...figmaTools,
     ...interactionTools,
     ...navigationTools,
+    ...networkTools,
     ...o11yTools,
+    ...pageTools,
     ...reactTools,
     ...runTools,
+    ...sessionTools,
     ...stubTools,
     ...syncTools,
 ];
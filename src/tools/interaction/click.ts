@@ -6,12 +6,15 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 
 import { z } from 'zod';
-import type { ElementHandle } from 'playwright';
+import type { ElementHandle, Frame } from 'playwright';
 
 export interface ClickInput extends ToolInput {
     selector: string;
+    frame?: FrameSelector;
 }
 
 export interface ClickOutput extends ToolOutput {}
@@ -30,6 +33,7 @@ export class Click implements Tool {
             selector: z
                 .string()
                 .describe('CSS selector for the element to click.'),
+            frame: frameSelectorSchema(),
         };
     }
 
@@ -41,7 +45,8 @@ export class Click implements Tool {
         context: ToolSessionContext,
         args: ClickInput
     ): Promise<ClickOutput> {
-        const element: ElementHandle = await context.page.waitForSelector(
+        const frame: Frame = await getFrame(context.page, args.frame);
+        const element: ElementHandle = await frame.waitForSelector(
             args.selector
         );
         await element.click();
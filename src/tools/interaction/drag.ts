@@ -6,13 +6,17 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 
-import type { ElementHandle } from 'playwright';
+import type { ElementHandle, Frame } from 'playwright';
 import { z } from 'zod';
 
 export interface DragInput extends ToolInput {
     sourceSelector: string;
+    sourceFrame?: FrameSelector;
     targetSelector: string;
+    targetFrame?: FrameSelector;
 }
 
 export interface DragOutput extends ToolOutput {}
@@ -31,9 +35,11 @@ export class Drag implements Tool {
             sourceSelector: z
                 .string()
                 .describe('CSS selector for the element to drag.'),
+            sourceFrame: frameSelectorSchema(),
             targetSelector: z
                 .string()
                 .describe('CSS selector for the target location.'),
+            targetFrame: frameSelectorSchema(),
         };
     }
 
@@ -45,10 +51,18 @@ export class Drag implements Tool {
         context: ToolSessionContext,
         args: DragInput
     ): Promise<DragOutput> {
-        const sourceElement: ElementHandle = await context.page.waitForSelector(
+        const sourceFrame: Frame = await getFrame(
+            context.page,
+            args.sourceFrame
+        );
+        const targetFrame: Frame = await getFrame(
+            context.page,
+            args.targetFrame
+        );
+        const sourceElement: ElementHandle = await sourceFrame.waitForSelector(
             args.sourceSelector
         );
-        const targetElement: ElementHandle = await context.page.waitForSelector(
+        const targetElement: ElementHandle = await targetFrame.waitForSelector(
             args.targetSelector
         );
 
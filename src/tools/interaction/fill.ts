@@ -6,12 +6,15 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 
-import type { ElementHandle } from 'playwright';
+import type { ElementHandle, Frame } from 'playwright';
 import { z } from 'zod';
 
 export interface FillInput extends ToolInput {
     selector: string;
+    frame?: FrameSelector;
     value: string;
 }
 
@@ -30,6 +33,7 @@ export class Fill implements Tool {
         return {
             selector: z.string().describe('CSS selector for the input field.'),
             value: z.string().describe('Value to fill.'),
+            frame: frameSelectorSchema(),
         };
     }
 
@@ -41,7 +45,8 @@ export class Fill implements Tool {
         context: ToolSessionContext,
         args: FillInput
     ): Promise<FillOutput> {
-        const element: ElementHandle = await context.page.waitForSelector(
+        const frame: Frame = await getFrame(context.page, args.frame);
+        const element: ElementHandle = await frame.waitForSelector(
             args.selector
         );
         await element.fill(args.value);
@@ -6,12 +6,15 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 
-import type { ElementHandle } from 'playwright';
+import type { ElementHandle, Frame } from 'playwright';
 import { z } from 'zod';
 
 export interface HoverInput extends ToolInput {
     selector: string;
+    frame?: FrameSelector;
 }
 
 export interface HoverOutput extends ToolOutput {}
@@ -30,6 +33,7 @@ export class Hover implements Tool {
             selector: z
                 .string()
                 .describe('CSS selector for the element to hover.'),
+            frame: frameSelectorSchema(),
         };
     }
 
@@ -41,7 +45,8 @@ export class Hover implements Tool {
         context: ToolSessionContext,
         args: HoverInput
     ): Promise<HoverOutput> {
-        const element: ElementHandle = await context.page.waitForSelector(
+        const frame: Frame = await getFrame(context.page, args.frame);
+        const element: ElementHandle = await frame.waitForSelector(
             args.selector
         );
         await element.hover();
@@ -6,8 +6,10 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 
-import type { ElementHandle } from 'playwright';
+import type { ElementHandle, Frame } from 'playwright';
 import { z } from 'zod';
 
 const DEFAULT_REPEAT_INTERVAL_MS: number = 50;
@@ -38,6 +40,7 @@ export interface PressKeyInput extends ToolInput {
      * If omitted, the key event is sent to the currently focused element (or the page).
      */
     selector?: string;
+    frame?: FrameSelector;
 
     /**
      * Duration (in milliseconds) to keep the key logically "held".
@@ -115,6 +118,7 @@ Execution logic:
                     'Optional CSS selector to focus before sending the key.'
                 )
                 .optional(),
+            frame: frameSelectorSchema(),
             holdMs: z
                 .number()
                 .int()
@@ -155,7 +159,8 @@ Execution logic:
          * Otherwise, key events go to the currently focused element or page.
          */
         if (args.selector) {
-            const element: ElementHandle = await context.page.waitForSelector(
+            const frame: Frame = await getFrame(context.page, args.frame);
+            const element: ElementHandle = await frame.waitForSelector(
                 args.selector
             );
             await element.focus();
@@ -6,7 +6,10 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 
+import type { Frame } from 'playwright';
 import { z } from 'zod';
 
 const DEFAULT_BEHAVIOR: 'auto' | 'smooth' = 'auto';
@@ -20,6 +23,7 @@ export interface ScrollInput extends ToolInput {
      * Otherwise scrolls the document viewport.
      */
     selector?: string;
+    frame?: FrameSelector;
 
     /**
      * Used for mode='by'
@@ -112,6 +116,7 @@ Use this tool to:
                 .describe(
                     'Optional CSS selector for a scrollable container. If omitted, scrolls the document viewport.'
                 ),
+            frame: frameSelectorSchema(),
             dx: z
                 .number()
                 .optional()
@@ -269,7 +274,8 @@ Use this tool to:
             }
         }
 
-        const result: any = await context.page.evaluate(
+        const frame: Frame = await getFrame(context.page, args.frame);
+        const result: any = await frame.evaluate(
             ({
                 modeEval,
                 selectorEval,
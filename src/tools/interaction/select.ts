@@ -6,12 +6,15 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
+import { FrameSelector, getFrame } from '../../browser';
+import { frameSelectorSchema } from '../frame';
 
-import type { ElementHandle } from 'playwright';
+import type { ElementHandle, Frame } from 'playwright';
 import { z } from 'zod';
 
 export interface SelectInput extends ToolInput {
     selector: string;
+    frame?: FrameSelector;
     value: string;
 }
 
@@ -32,6 +35,7 @@ export class Select implements Tool {
                 .string()
                 .describe('CSS selector for element to select.'),
             value: z.string().describe('Value to select.'),
+            frame: frameSelectorSchema(),
         };
     }
 
@@ -43,7 +47,8 @@ export class Select implements Tool {
         context: ToolSessionContext,
         args: SelectInput
     ): Promise<SelectOutput> {
-        const element: ElementHandle = await context.page.waitForSelector(
+        const frame: Frame = await getFrame(context.page, args.frame);
+        const element: ElementHandle = await frame.waitForSelector(
             args.selector
         );
         await element.selectOption(args.value);
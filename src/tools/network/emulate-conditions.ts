@@ -0,0 +1,186 @@
+import { ToolSessionContext } from '../../context';
+import { NetworkConditions } from '../../types';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+type NetworkConditionsPreset =
+    | 'no-throttling'
+    | 'slow-3g'
+    | 'fast-3g'
+    | '4g'
+    | 'offline';
+
+// Based on the network throttling presets of Chrome DevTools
+const PRESETS: Record<NetworkConditionsPreset, NetworkConditions> = {
+    'no-throttling': {
+        offline: false,
+        latencyMs: 0,
+        downloadKbps: -1,
+        uploadKbps: -1,
+    },
+    'slow-3g': {
+        offline: false,
+        latencyMs: 2000,
+        downloadKbps: 400,
+        uploadKbps: 400,
+    },
+    'fast-3g': {
+        offline: false,
+        latencyMs: 563,
+        downloadKbps: 1440,
+        uploadKbps: 675,
+    },
+    '4g': {
+        offline: false,
+        latencyMs: 165,
+        downloadKbps: 8100,
+        uploadKbps: 1350,
+    },
+    offline: {
+        offline: true,
+        latencyMs: 0,
+        downloadKbps: -1,
+        uploadKbps: -1,
+    },
+};
+
+export interface EmulateConditionsInput extends ToolInput {
+    preset?: NetworkConditionsPreset;
+    offline?: boolean;
+    latencyMs?: number;
+    downloadKbps?: number;
+    uploadKbps?: number;
+}
+
+export interface EmulateConditionsOutput extends ToolOutput {
+    conditions?: NetworkConditions;
+}
+
+export class EmulateConditions implements Tool {
+    name(): string {
+        return 'network_emulate-conditions';
+    }
+
+    description(): string {
+        return `
+Emulates network conditions (latency, download/upload throughput, offline mode)
+on all the open pages of the current session and the ones opened later.
+
+Presets (based on Chrome DevTools):
+- "slow-3g": 2000 ms latency, 400 kbps download, 400 kbps upload
+- "fast-3g": 563 ms latency, 1440 kbps download, 675 kbps upload
+- "4g": 165 ms latency, 8100 kbps download, 1350 kbps upload
+- "offline": no network connection
+- "no-throttling": disables network emulation
+
+Custom values can be given alone or together with a preset to override its values.
+Offline mode is supported by all browsers, but latency and throughput emulation is only supported on Chromium-based browsers.
+Active conditions are reported by "o11y_get-web-vitals" tool to keep the measured values interpretable.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            preset: z
+                .enum(['no-throttling', 'slow-3g', 'fast-3g', '4g', 'offline'])
+                .describe('Network conditions preset.')
+                .optional(),
+            offline: z
+                .boolean()
+                .describe('Whether to emulate network being offline.')
+                .optional(),
+            latencyMs: z
+                .number()
+                .nonnegative()
+                .describe(
+                    'Minimum latency from request sent to response headers received (ms).'
+                )
+                .optional(),
+            downloadKbps: z
+                .number()
+                .min(-1)
+                .describe(
+                    'Maximal download throughput in kilobits per second (-1 disables download throttling).'
+                )
+                .optional(),
+            uploadKbps: z
+                .number()
+                .min(-1)
+                .describe(
+                    'Maximal upload throughput in kilobits per second (-1 disables upload throttling).'
+                )
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            conditions: z
+                .object({
+                    preset: z
+                        .string()
+                        .describe('Preset the conditions are based on.')
+                        .optional(),
+                    offline: z.boolean().describe('Whether offline.'),
+                    latencyMs: z.number().describe('Latency (ms).'),
+                    downloadKbps: z
+                        .number()
+                        .describe(
+                            'Download throughput (kbps, -1 means no limit).'
+                        ),
+                    uploadKbps: z
+                        .number()
+                        .describe(
+                            'Upload throughput (kbps, -1 means no limit).'
+                        ),
+                })
+                .describe(
+                    'Active network conditions. Omitted if network emulation is disabled.'
+                )
+                .optional(),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: EmulateConditionsInput
+    ): Promise<EmulateConditionsOutput> {
+        const hasCustomValues: boolean =
+            args.offline !== undefined ||
+            args.latencyMs !== undefined ||
+            args.downloadKbps !== undefined ||
+            args.uploadKbps !== undefined;
+        if (!args.preset && !hasCustomValues) {
+            throw new Error(
+                'Either "preset" or at least one of the custom values (offline, latencyMs, downloadKbps, uploadKbps) must be specified'
+            );
+        }
+
+        const base: NetworkConditions = PRESETS[args.preset ?? 'no-throttling'];
+        const conditions: NetworkConditions = {
+            preset: args.preset,
+            offline: args.offline ?? base.offline,
+            latencyMs: args.latencyMs ?? base.latencyMs,
+            downloadKbps: args.downloadKbps ?? base.downloadKbps,
+            uploadKbps: args.uploadKbps ?? base.uploadKbps,
+        };
+        const disabled: boolean =
+            !conditions.offline &&
+            conditions.latencyMs === 0 &&
+            conditions.downloadKbps < 0 &&
+            conditions.uploadKbps < 0;
+
+        await context.setNetworkConditions(disabled ? undefined : conditions);
+
+        return {
+            conditions: context.getNetworkConditions(),
+        };
+    }
+}
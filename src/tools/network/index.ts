@@ -0,0 +1,4 @@
+import { Tool } from '../types';
+import { EmulateConditions } from './emulate-conditions';
+
+export const tools: Tool[] = [new EmulateConditions()];
@@ -0,0 +1,198 @@
+import { ToolSessionContext } from '../../context';
+import {
+    defaultOTELRuntimeConfig,
+    OTELAttributeValues,
+    OTELInstrumentation,
+    OTELRuntimeConfig,
+} from '../../otel/otel-controller';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+import { getEnumKeyTuples } from '../../utils';
+
+import { z, ZodTypeAny } from 'zod';
+
+export interface ConfigureOTELInput extends ToolInput {
+    reset?: boolean;
+    instrumentations?: Partial<Record<OTELInstrumentation, boolean>>;
+    propagateTraceHeaderCorsUrls?: string[];
+    resourceAttributes?: OTELAttributeValues;
+    spanAttributes?: OTELAttributeValues;
+    samplingRatio?: number;
+}
+
+export interface ConfigureOTELOutput extends ToolOutput {
+    instrumentations: Record<OTELInstrumentation, boolean>;
+    propagateTraceHeaderCorsUrls: string[];
+    resourceAttributes: OTELAttributeValues;
+    spanAttributes: OTELAttributeValues;
+    samplingRatio: number;
+}
+
+function _attributeValueSchema(): ZodTypeAny {
+    return z.union([z.string(), z.number(), z.boolean()]);
+}
+
+export class ConfigureOTEL implements Tool {
+    name(): string {
+        return 'o11y_configure-otel';
+    }
+
+    description(): string {
+        return `
+Configures the OpenTelemetry instrumentation of the current session at runtime:
+enables/disables individual instrumentations, sets the cross-origin URLs to propagate the trace header to,
+adds custom resource and span attributes (e.g. a test name or a ticket id) and sets the sampling ratio.
+Returns the resulting configuration.
+
+Notes:
+- Requires OpenTelemetry to be enabled ("OTEL_ENABLE=true").
+- The configuration is re-applied to the open pages without reloading them, and applies to the new pages and navigations too.
+- Only the given settings are changed, the others are kept. Use "reset" to go back to the defaults first.
+- Attributes replace the previously set ones as a whole (pass {} to clear them).
+- Resource attributes apply to the traces, metrics and logs exported after the change
+  (spans already started keep their resource attributes if they are exported in the same batch).
+- Sampling ratio applies to the root spans (e.g. document load, user interaction and unparented fetch/XHR spans),
+  the child spans follow the decision of their parents.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            reset: z
+                .boolean()
+                .describe(
+                    'Whether to reset the configuration to the defaults before applying the given settings.'
+                )
+                .default(false),
+            instrumentations: z
+                .record(
+                    z.enum(getEnumKeyTuples(OTELInstrumentation)),
+                    z.boolean()
+                )
+                .describe(
+                    `Instrumentations to enable ("true") or disable ("false"), e.g. {"user-interaction": false}. Valid instrumentations are: ${getEnumKeyTuples(OTELInstrumentation)}.`
+                )
+                .optional(),
+            propagateTraceHeaderCorsUrls: z
+                .array(z.string())
+                .describe(
+                    'Regular expressions of the cross-origin URLs to propagate the trace header ("traceparent") to by the fetch and XMLHttpRequest instrumentations (e.g. ["^https://api\\\\.example\\\\.com/"]). Same-origin requests always get the header.'
+                )
+                .optional(),
+            resourceAttributes: z
+                .record(z.string(), _attributeValueSchema())
+                .describe(
+                    'Custom resource attributes to add to the exported traces, metrics and logs (e.g. {"test.name": "checkout"}).'
+                )
+                .optional(),
+            spanAttributes: z
+                .record(z.string(), _attributeValueSchema())
+                .describe(
+                    'Custom attributes to add to all the spans started after the change (e.g. {"ticket.id": "JIRA-123"}).'
+                )
+                .optional(),
+            samplingRatio: z
+                .number()
+                .min(0)
+                .max(1)
+                .describe(
+                    'Ratio (between 0 and 1) of the root spans to sample. "1" samples all the spans.'
+                )
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            instrumentations: z
+                .record(z.string(), z.boolean())
+                .describe(
+                    'Whether each instrumentation is enabled, by instrumentation name.'
+                ),
+            propagateTraceHeaderCorsUrls: z
+                .array(z.string())
+                .describe(
+                    'Regular expressions of the cross-origin URLs to propagate the trace header to.'
+                ),
+            resourceAttributes: z
+                .record(z.string(), _attributeValueSchema())
+                .describe('Custom resource attributes.'),
+            spanAttributes: z
+                .record(z.string(), _attributeValueSchema())
+                .describe('Custom span attributes.'),
+            samplingRatio: z
+                .number()
+                .describe('Ratio of the root spans to sample.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: ConfigureOTELInput
+    ): Promise<ConfigureOTELOutput> {
+        const currentConfig: OTELRuntimeConfig = args.reset
+            ? defaultOTELRuntimeConfig()
+            : context.getOTELRuntimeConfig();
+
+        const disabledInstrumentations: Set<OTELInstrumentation> = new Set(
+            currentConfig.disabledInstrumentations
+        );
+        for (const [instrumentation, enabled] of Object.entries(
+            args.instrumentations ?? {}
+        )) {
+            if (enabled) {
+                disabledInstrumentations.delete(
+                    instrumentation as OTELInstrumentation
+                );
+            } else {
+                disabledInstrumentations.add(
+                    instrumentation as OTELInstrumentation
+                );
+            }
+        }
+
+        for (const source of args.propagateTraceHeaderCorsUrls ?? []) {
+            try {
+                new RegExp(source);
+            } catch (err: any) {
+                throw new Error(
+                    `Invalid regular expression for propagateTraceHeaderCorsUrls: ${err.message}`
+                );
+            }
+        }
+
+        const runtimeConfig: OTELRuntimeConfig = {
+            disabledInstrumentations: [...disabledInstrumentations],
+            propagateTraceHeaderCorsUrls:
+                args.propagateTraceHeaderCorsUrls ??
+                currentConfig.propagateTraceHeaderCorsUrls,
+            resourceAttributes:
+                args.resourceAttributes ?? currentConfig.resourceAttributes,
+            spanAttributes: args.spanAttributes ?? currentConfig.spanAttributes,
+            samplingRatio: args.samplingRatio ?? currentConfig.samplingRatio,
+        };
+
+        await context.configureOTEL(runtimeConfig);
+
+        const instrumentations: Record<OTELInstrumentation, boolean> =
+            {} as Record<OTELInstrumentation, boolean>;
+        for (const instrumentation of getEnumKeyTuples(OTELInstrumentation)) {
+            instrumentations[instrumentation] =
+                !disabledInstrumentations.has(instrumentation);
+        }
+
+        return {
+            instrumentations,
+            propagateTraceHeaderCorsUrls:
+                runtimeConfig.propagateTraceHeaderCorsUrls,
+            resourceAttributes: runtimeConfig.resourceAttributes,
+            spanAttributes: runtimeConfig.spanAttributes,
+            samplingRatio: runtimeConfig.samplingRatio,
+        };
+    }
+}
@@ -0,0 +1,257 @@
+import { HarRecording, SessionPage, ToolSessionContext } from '../../context';
+import { HttpRequest, HttpResourceType } from '../../types';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+import {
+    createEnumTransformer,
+    formattedTimeForFilename,
+    getEnumKeyTuples,
+} from '../../utils';
+import { buildHar, Har } from './har-builder';
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import picomatch from 'picomatch';
+import { z } from 'zod';
+
+const DEFAULT_NAME: string = 'session';
+
+export interface ExportHarInput extends ToolInput {
+    recording?: 'start' | 'stop';
+    outputPath: string;
+    name?: string;
+    urlPattern?: string;
+    resourceTypes?: HttpResourceType[];
+}
+
+export interface ExportHarOutput extends ToolOutput {
+    filePath?: string;
+    source?: 'buffer' | 'recording';
+    entryCount?: number;
+    recording: {
+        active: boolean;
+        startedAt?: number;
+        entryCount?: number;
+        droppedCount?: number;
+    };
+}
+
+export class ExportHar implements Tool {
+    name(): string {
+        return 'o11y_export-har';
+    }
+
+    description(): string {
+        return `
+Exports HTTP requests of the session into a HAR 1.2 file,
+including timings, headers, request/response bodies and failures.
+
+Sources:
+- By default, HTTP requests in the session buffer (the last "HTTP_REQUESTS_BUFFER_SIZE" requests) are exported.
+  In this mode binary response bodies are not preserved.
+- For full-fidelity export, start a HAR recording first with "recording: start".
+  While recording, all the completed HTTP requests are recorded (independent of the buffer)
+  with their full response bodies (binary ones base64 encoded).
+  Then export the recorded requests with "recording: stop" (which also stops the recording)
+  or without "recording" (which keeps recording).
+
+Requests can be filtered by URL glob pattern and resource types.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            recording: z
+                .enum(['start', 'stop'])
+                .describe(
+                    '"start" starts a full-fidelity HAR recording (no file is written). ' +
+                        '"stop" stops the active recording and exports the recorded requests. ' +
+                        'Omit to export the recorded requests (if recording) or the buffered requests.'
+                )
+                .optional(),
+            outputPath: z
+                .string()
+                .describe(
+                    'Directory path where HAR file will be saved. By default OS tmp directory is used.'
+                )
+                .optional()
+                .default(os.tmpdir()),
+            name: z
+                .string()
+                .describe(
+                    `Name of the export. Default value is "${DEFAULT_NAME}". ` +
+                        'Note that final saved/exported file name is in the "{name}-{time}.har" format ' +
+                        'in which "{time}" is in the "YYYYMMDD-HHmmss" format.'
+                )
+                .optional()
+                .default(DEFAULT_NAME),
+            urlPattern: z
+                .string()
+                .describe(
+                    'Glob pattern (picomatch) to filter the exported requests by URL (e.g. "**/api/**").'
+                )
+                .optional(),
+            resourceTypes: z
+                .array(
+                    z
+                        .enum(getEnumKeyTuples(HttpResourceType))
+                        .transform(createEnumTransformer(HttpResourceType))
+                )
+                .describe(
+                    `Resource types to filter the exported requests by. Valid values are: ${getEnumKeyTuples(HttpResourceType)}.`
+                )
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            filePath: z
+                .string()
+                .describe(
+                    'Full path of the saved HAR file. Omitted if a recording has been started.'
+                )
+                .optional(),
+            source: z
+                .enum(['buffer', 'recording'])
+                .describe('Source of the exported requests.')
+                .optional(),
+            entryCount: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe('Count of the exported HAR entries.')
+                .optional(),
+            recording: z
+                .object({
+                    active: z
+                        .boolean()
+                        .describe('Whether a HAR recording is active.'),
+                    startedAt: z
+                        .number()
+                        .int()
+                        .describe(
+                            'Unix epoch timestamp (in milliseconds) of the recording start.'
+                        )
+                        .optional(),
+                    entryCount: z
+                        .number()
+                        .int()
+                        .nonnegative()
+                        .describe('Count of the recorded requests.')
+                        .optional(),
+                    droppedCount: z
+                        .number()
+                        .int()
+                        .nonnegative()
+                        .describe(
+                            'Count of the requests not recorded as the "HAR_RECORDING_MAX_ENTRIES" limit had been reached.'
+                        )
+                        .optional(),
+                })
+                .describe('State of the HAR recording after this call.'),
+        };
+    }
+
+    private _recordingState(
+        harRecording: HarRecording | undefined,
+        active: boolean
+    ): ExportHarOutput['recording'] {
+        return harRecording
+            ? {
+                  active,
+                  startedAt: harRecording.startedAt,
+                  entryCount: harRecording.requests.length,
+                  droppedCount: harRecording.droppedCount,
+              }
+            : { active };
+    }
+
+    private async _pageTitle(sessionPage: SessionPage): Promise<string> {
+        const title: string = await sessionPage.page
+            .title()
+            .catch((): string => '');
+        return title || sessionPage.page.url();
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: ExportHarInput
+    ): Promise<ExportHarOutput> {
+        if (args.recording === 'start') {
+            return {
+                recording: this._recordingState(
+                    context.startHarRecording(),
+                    true
+                ),
+            };
+        }
+
+        let harRecording: HarRecording | undefined;
+        let recordingActive: boolean;
+        if (args.recording === 'stop') {
+            harRecording = context.stopHarRecording();
+            if (!harRecording) {
+                throw new Error(
+                    'No active HAR recording. Start one with "recording: start" first'
+                );
+            }
+            recordingActive = false;
+        } else {
+            harRecording = context.getHarRecording();
+            recordingActive = !!harRecording;
+        }
+
+        const urlMatcher: ((url: string) => boolean) | undefined =
+            args.urlPattern
+                ? picomatch(args.urlPattern.trim(), { dot: true })
+                : undefined;
+        // Captured HTTP requests have truncated bodies, so they are exported with their full bodies
+        const requests: HttpRequest[] = (
+            harRecording
+                ? harRecording.requests
+                : context
+                      .getHttpRequests()
+                      .map(
+                          (req: HttpRequest): HttpRequest =>
+                              context.withFullHttpRequestBodies(req)
+                      )
+        ).filter((req: HttpRequest): boolean => {
+            if (urlMatcher && !urlMatcher(req.url)) {
+                return false;
+            }
+            if (
+                args.resourceTypes?.length &&
+                !args.resourceTypes.includes(req.resourceType)
+            ) {
+                return false;
+            }
+            return true;
+        });
+
+        const pageTitles: Record<string, string> = {};
+        for (const sessionPage of context.getPages()) {
+            pageTitles[sessionPage.pageId] = await this._pageTitle(sessionPage);
+        }
+        const har: Har = buildHar(requests, pageTitles);
+
+        const filename: string = `${args.name || DEFAULT_NAME}-${formattedTimeForFilename()}.har`;
+        const filePath: string = path.resolve(args.outputPath, filename);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(har, null, 2), 'utf-8');
+
+        return {
+            filePath,
+            source: harRecording ? 'recording' : 'buffer',
+            entryCount: har.log.entries.length,
+            recording: this._recordingState(harRecording, recordingActive),
+        };
+    }
+}
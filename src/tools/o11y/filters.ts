@@ -0,0 +1,112 @@
+import { HttpRequestInitiator, HttpRequestInitiatorFrame } from '../../types';
+
+const URL_REGEXP: RegExp = /\b[a-z][a-z0-9+.-]*:\/\/[^\s'"`<>()]+/gi;
+const UUID_REGEXP: RegExp =
+    /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+const HEX_ID_REGEXP: RegExp = /\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi;
+const NUMBER_REGEXP: RegExp = /\d+(?:\.\d+)?/g;
+
+const ID_PATH_SEGMENT_REGEXP: RegExp =
+    /^(?:\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|(?=[0-9a-f]*\d)[0-9a-f]{8,})$/i;
+
+const MAX_SIGNATURE_LENGTH: number = 200;
+
+const LIBRARY_SOURCE_REGEXP: RegExp =
+    /\/node_modules\/|\/\.vite\/deps\/|\/@vite\/|webpack\/(?:runtime|bootstrap)/;
+
+/**
+ * Compiles the given regular expression source of a filter (case-insensitive).
+ */
+export function compileFilterRegExp(source: string, name: string): RegExp {
+    try {
+        return new RegExp(source, 'i');
+    } catch (err: any) {
+        throw new Error(
+            `Invalid regular expression for ${name}: ${err.message}`
+        );
+    }
+}
+
+/**
+ * Gets the host of the given URL (or the URL itself if it can't be parsed).
+ */
+export function getHost(url: string): string {
+    try {
+        return new URL(url).host || url;
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Gets the endpoint of the given request as "<METHOD> <host><path>",
+ * by replacing the id-like path segments (numbers, UUIDs and hex ids) with ":id"
+ * so that the requests to the same resource are grouped together.
+ */
+export function getEndpoint(method: string, url: string): string {
+    let host: string;
+    let path: string;
+    try {
+        const parsedUrl: URL = new URL(url);
+        host = parsedUrl.host;
+        path = parsedUrl.pathname;
+    } catch {
+        host = '';
+        path = url.split(/[?#]/)[0];
+    }
+    const normalizedPath: string = path
+        .split('/')
+        .map((segment: string): string =>
+            ID_PATH_SEGMENT_REGEXP.test(segment) ? ':id' : segment
+        )
+        .join('/');
+    return `${method} ${host}${normalizedPath}`;
+}
+
+/**
+ * Gets the signature of the given console message text
+ * by taking its first line and replacing the variable parts
+ * (URLs, UUIDs, hex ids and numbers) with placeholders,
+ * so that the repeated messages are grouped together.
+ */
+export function getMessageSignature(text: string): string {
+    const firstLine: string = text.split('\n', 1)[0];
+    const signature: string = firstLine
+        .replace(URL_REGEXP, '<url>')
+        .replace(UUID_REGEXP, '<uuid>')
+        .replace(HEX_ID_REGEXP, '<id>')
+        .replace(NUMBER_REGEXP, '<n>')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return signature.length > MAX_SIGNATURE_LENGTH
+        ? `${signature.substring(0, MAX_SIGNATURE_LENGTH)}...`
+        : signature;
+}
+
+/**
+ * Gets the module (original source if resolved through source maps, script URL otherwise)
+ * which has issued the request with the given initiator.
+ * The frames of the libraries (e.g. the HTTP clients and the bundler runtimes) are skipped
+ * when there is an application frame in the stack.
+ * Falls back to the initiator URL (e.g. the document for the parser initiated requests)
+ * and then to the initiator type.
+ */
+export function getInitiatorModule(
+    initiator: HttpRequestInitiator | undefined
+): string {
+    if (!initiator) {
+        return '<unknown>';
+    }
+    const modules: string[] = (initiator.stack ?? [])
+        .map(
+            (frame: HttpRequestInitiatorFrame): string =>
+                // Query strings are mostly cache busters (e.g. "?v=1a2b3c")
+                (frame.original?.source ?? frame.url).split('?')[0]
+        )
+        .filter((module: string): boolean => !!module);
+    const module: string | undefined =
+        modules.find(
+            (module: string): boolean => !LIBRARY_SOURCE_REGEXP.test(module)
+        ) ?? modules[0];
+    return module ?? initiator.url?.split('?')[0] ?? `<${initiator.type}>`;
+}
@@ -1,4 +1,5 @@
 import { ToolSessionContext } from '../../context';
+import { compileFilterRegExp, getMessageSignature } from './filters';
 import {
     Tool,
     ToolInput,
@@ -14,21 +15,26 @@ import {
 } from '../../types';
 import { createEnumTransformer, getEnumKeyTuples } from '../../utils';
 
+import picomatch from 'picomatch';
 import { z } from 'zod';
 
 export interface GetConsoleMessagesInput extends ToolInput {
     type?: ConsoleMessageLevelName;
     search?: string;
+    textRegex?: string;
+    locationPattern?: string;
+    pageId?: string;
     timestamp?: number;
     sequenceNumber?: number;
     limit?: {
         count: number;
         from: 'start' | 'end';
     };
+    groupBy?: 'signature';
 }
 
 export interface GetConsoleMessagesOutput extends ToolOutput {
-    messages: Array<{
+    messages?: Array<{
         type: string;
         text: string;
         location?: {
@@ -36,18 +42,41 @@ export interface GetConsoleMessagesOutput extends ToolOutput {
             lineNumber: number;
             columnNumber: number;
         };
+        pageId?: string;
         timestamp: number;
         sequenceNumber: number;
     }>;
+    groups?: Array<{
+        signature: string;
+        type: string;
+        count: number;
+        example: string;
+        locationUrl?: string;
+        firstTimestamp: number;
+        lastTimestamp: number;
+        lastSequenceNumber: number;
+    }>;
 }
 
+type ConsoleMessageGroup = NonNullable<
+    GetConsoleMessagesOutput['groups']
+>[number];
+
 export class GetConsoleMessages implements Tool {
     name(): string {
         return 'o11y_get-console-messages';
     }
 
     description(): string {
-        return 'Retrieves console messages/logs from the browser with filtering options.';
+        return `
+Retrieves console messages/logs from the browser with filtering options.
+
+Notes:
+- textRegex is case-insensitive. All the given filters must match.
+- When groupBy="signature" is set, the (filtered and limited) messages are summarized as "groups" (sorted by count, descending)
+  instead of being returned one by one. The signature of a message is its first line where the variable parts
+  (URLs, UUIDs, hex ids and numbers) are replaced with placeholders, so repeated messages fall into the same group.
+        `.trim();
     }
 
     inputSchema(): ToolInputSchema {
@@ -66,6 +95,24 @@ Valid values are (in ascending order according to their levels): ${getEnumKeyTup
                 .string()
                 .describe('Text to search for in console messages.')
                 .optional(),
+            textRegex: z
+                .string()
+                .describe(
+                    'Regular expression (case-insensitive) to search for in the text of console messages.'
+                )
+                .optional(),
+            locationPattern: z
+                .string()
+                .describe(
+                    'Glob pattern (picomatch) matched against the URL of the resource the console messages came from (e.g. "**/checkout*.js").'
+                )
+                .optional(),
+            pageId: z
+                .string()
+                .describe(
+                    'Id of the page (as listed by "page_list") to retrieve console messages from. Omit to retrieve from all pages of the session.'
+                )
+                .optional(),
             timestamp: z
                 .number()
                 .int()
@@ -100,6 +147,12 @@ Controls which side is kept when truncation is applied.
                 })
                 .describe('Maximum number of console messages to return.')
                 .optional(),
+            groupBy: z
+                .enum(['signature'])
+                .describe(
+                    'Set to "signature" to return counts per message signature instead of the console messages.'
+                )
+                .optional(),
         };
     }
 
@@ -137,6 +190,12 @@ Controls which side is kept when truncation is applied.
                                     'Location of the console message in the resource.'
                                 )
                                 .optional(),
+                            pageId: z
+                                .string()
+                                .describe(
+                                    'Id of the page which the console message came from.'
+                                )
+                                .optional(),
                             timestamp: z
                                 .number()
                                 .int()
@@ -153,7 +212,60 @@ number than the last one received.`),
                         })
                         .describe('Console message item.')
                 )
-                .describe('Retrieved console messages.'),
+                .describe(
+                    'Retrieved console messages (omitted if groupBy is set).'
+                )
+                .optional(),
+            groups: z
+                .array(
+                    z
+                        .object({
+                            signature: z
+                                .string()
+                                .describe('Signature of the console messages.'),
+                            type: z
+                                .string()
+                                .describe('Type of the console messages.'),
+                            count: z
+                                .number()
+                                .int()
+                                .describe('Count of the console messages.'),
+                            example: z
+                                .string()
+                                .describe(
+                                    'Text of the last console message with this signature.'
+                                ),
+                            locationUrl: z
+                                .string()
+                                .describe(
+                                    'URL of the resource the last console message came from (if any).'
+                                )
+                                .optional(),
+                            firstTimestamp: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Unix epoch timestamp (in milliseconds) of the first console message.'
+                                ),
+                            lastTimestamp: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Unix epoch timestamp (in milliseconds) of the last console message.'
+                                ),
+                            lastSequenceNumber: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Sequence number of the last console message.'
+                                ),
+                        })
+                        .describe('Console message group.')
+                )
+                .describe(
+                    'Counts of the console messages per signature (only if groupBy is set).'
+                )
+                .optional(),
         };
     }
 
@@ -166,6 +278,13 @@ number than the last one received.`),
             | undefined = args.type
             ? ConsoleMessageLevel[args.type]?.code
             : undefined;
+        const textRegExp: RegExp | undefined = args.textRegex
+            ? compileFilterRegExp(args.textRegex, 'textRegex')
+            : undefined;
+        const locationMatcher: ((url: string) => boolean) | undefined =
+            args.locationPattern
+                ? picomatch(args.locationPattern.trim(), { dot: true })
+                : undefined;
 
         const filteredConsoleMessages: ConsoleMessage[] = context
             .getConsoleMessages()
@@ -174,6 +293,9 @@ number than the last one received.`),
                 if (consoleMessageLevelCodeThreshold !== undefined) {
                     filter = msg.level.code >= consoleMessageLevelCodeThreshold;
                 }
+                if (filter && args.pageId) {
+                    filter = msg.pageId === args.pageId;
+                }
                 if (filter && args.timestamp) {
                     filter = msg.timestamp >= args.timestamp;
                 }
@@ -183,6 +305,14 @@ number than the last one received.`),
                 if (filter && args.search) {
                     filter = msg.text.includes(args.search);
                 }
+                if (filter && textRegExp) {
+                    filter = textRegExp.test(msg.text);
+                }
+                if (filter && locationMatcher) {
+                    filter = msg.location
+                        ? locationMatcher(msg.location.url)
+                        : false;
+                }
                 return filter;
             });
 
@@ -192,11 +322,19 @@ number than the last one received.`),
                 : filteredConsoleMessages.slice(-args.limit.count)
             : filteredConsoleMessages;
 
+        if (args.groupBy === 'signature') {
+            return {
+                groups: _groupConsoleMessages(trimmedConsoleMessages),
+            };
+        }
+
         const consoleMessagesToReturn: GetConsoleMessagesOutput['messages'] =
             trimmedConsoleMessages.map(
                 (
                     msg: ConsoleMessage
-                ): GetConsoleMessagesOutput['messages'][number] => {
+                ): NonNullable<
+                    GetConsoleMessagesOutput['messages']
+                >[number] => {
                     return {
                         type: msg.type,
                         text: msg.text,
@@ -207,6 +345,7 @@ number than the last one received.`),
                                   columnNumber: msg.location.columnNumber,
                               }
                             : undefined,
+                        pageId: msg.pageId,
                         timestamp: msg.timestamp,
                         sequenceNumber: msg.sequenceNumber,
                     };
@@ -218,3 +357,36 @@ number than the last one received.`),
         };
     }
 }
+
+function _groupConsoleMessages(
+    consoleMessages: ConsoleMessage[]
+): Array<ConsoleMessageGroup> {
+    const groups: Map<string, ConsoleMessageGroup> = new Map();
+    for (const msg of consoleMessages) {
+        const signature: string = getMessageSignature(msg.text);
+        // The same text logged at different levels (e.g. warning vs error) is grouped separately
+        const key: string = `${msg.type}:${signature}`;
+        let group: ConsoleMessageGroup | undefined = groups.get(key);
+        if (!group) {
+            group = {
+                signature,
+                type: msg.type,
+                count: 0,
+                example: msg.text,
+                firstTimestamp: msg.timestamp,
+                lastTimestamp: msg.timestamp,
+                lastSequenceNumber: msg.sequenceNumber,
+            };
+            groups.set(key, group);
+        }
+        group.count++;
+        group.example = msg.text;
+        group.locationUrl = msg.location?.url || undefined;
+        group.lastTimestamp = msg.timestamp;
+        group.lastSequenceNumber = msg.sequenceNumber;
+    }
+    return [...groups.values()].sort(
+        (g1: ConsoleMessageGroup, g2: ConsoleMessageGroup): number =>
+            g2.count - g1.count
+    );
+}
@@ -0,0 +1,183 @@
+import { HTTP_BODY_MAX_SIZE } from '../../config';
+import { HttpRequestBodies, ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+import { HttpRequest } from '../../types';
+import { isTextContentType } from '../../utils';
+
+import { z } from 'zod';
+
+export interface GetHttpRequestBodyInput extends ToolInput {
+    sequenceNumber: number;
+    part?: 'request' | 'response';
+    offset?: number;
+    length?: number;
+}
+
+export interface GetHttpRequestBodyOutput extends ToolOutput {
+    sequenceNumber: number;
+    url: string;
+    part: 'request' | 'response';
+    contentType?: string;
+    body: string;
+    bodyEncoding?: 'base64';
+    offset: number;
+    length: number;
+    totalSize: number;
+    hasMore: boolean;
+    nextOffset?: number;
+}
+
+export class GetHttpRequestBody implements Tool {
+    name(): string {
+        return 'o11y_get-http-request-body';
+    }
+
+    description(): string {
+        return `
+Retrieves the full (not truncated) request or response body of a captured HTTP request by its sequence number,
+page by page (as returned by "o11y_get-http-requests", where the bodies are limited by their content type).
+
+Notes:
+- offset and length are in characters for text bodies, and in bytes for binary bodies (returned base64 encoded).
+- Use nextOffset of the result as offset to retrieve the next page while hasMore is true.
+- Full bodies are kept only for the HTTP requests in the buffer and up to "HTTP_FULL_BODIES_MAX_SIZE" bytes in total
+  (bodies of the oldest requests are dropped first).
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            sequenceNumber: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe('Sequence number of the HTTP request.'),
+            part: z
+                .enum(['request', 'response'])
+                .default('response')
+                .describe('Whether to retrieve the request or response body.'),
+            offset: z
+                .number()
+                .int()
+                .nonnegative()
+                .default(0)
+                .describe(
+                    'Offset of the page to retrieve (in characters for text bodies, in bytes for binary bodies).'
+                ),
+            length: z
+                .number()
+                .int()
+                .positive()
+                .default(HTTP_BODY_MAX_SIZE)
+                .describe(
+                    'Maximum length of the page to retrieve (in characters for text bodies, in bytes for binary bodies).'
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            sequenceNumber: z
+                .number()
+                .int()
+                .describe('Sequence number of the HTTP request.'),
+            url: z.string().describe('HTTP request url.'),
+            part: z
+                .enum(['request', 'response'])
+                .describe('Whether the body is the request or response body.'),
+            contentType: z
+                .string()
+                .describe('Content type of the body (if any).')
+                .optional(),
+            body: z.string().describe('Retrieved page of the body.'),
+            bodyEncoding: z
+                .literal('base64')
+                .describe(
+                    'Set to "base64" if the body is binary and encoded in base64.'
+                )
+                .optional(),
+            offset: z.number().int().describe('Offset of the retrieved page.'),
+            length: z.number().int().describe('Length of the retrieved page.'),
+            totalSize: z
+                .number()
+                .int()
+                .describe(
+                    'Total size of the body (in characters for text bodies, in bytes for binary bodies).'
+                ),
+            hasMore: z
+                .boolean()
+                .describe('Whether there are more pages after this one.'),
+            nextOffset: z
+                .number()
+                .int()
+                .describe('Offset of the next page (if any).')
+                .optional(),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: GetHttpRequestBodyInput
+    ): Promise<GetHttpRequestBodyOutput> {
+        const httpRequest: HttpRequest | undefined = context
+            .getHttpRequests()
+            .find(
+                (req: HttpRequest): boolean =>
+                    req.sequenceNumber === args.sequenceNumber
+            );
+        if (!httpRequest) {
+            throw new Error(
+                `No HTTP request found with sequence number ${args.sequenceNumber}`
+            );
+        }
+
+        const part: 'request' | 'response' = args.part ?? 'response';
+        const contentType: string | undefined =
+            part === 'request'
+                ? httpRequest.contentType
+                : httpRequest.response?.contentType;
+        const originalSize: number | undefined =
+            part === 'request'
+                ? httpRequest.originalSize
+                : httpRequest.response?.originalSize;
+        const bodies: HttpRequestBodies | undefined =
+            context.getHttpRequestBodies(args.sequenceNumber);
+        const body: Buffer = bodies?.[part] ?? Buffer.alloc(0);
+        if (body.length === 0 && originalSize) {
+            throw new Error(
+                `Full ${part} body of the HTTP request with sequence number ${args.sequenceNumber} is not available anymore`
+            );
+        }
+
+        const offset: number = args.offset ?? 0;
+        const length: number = args.length ?? HTTP_BODY_MAX_SIZE;
+        const text: boolean = isTextContentType(contentType);
+        const content: string | Buffer = text ? body.toString('utf-8') : body;
+        const page: string | Buffer =
+            typeof content === 'string'
+                ? content.substring(offset, offset + length)
+                : content.subarray(offset, offset + length);
+        const end: number = offset + page.length;
+        const hasMore: boolean = end < content.length;
+
+        return {
+            sequenceNumber: httpRequest.sequenceNumber,
+            url: httpRequest.url,
+            part,
+            contentType,
+            body: typeof page === 'string' ? page : page.toString('base64'),
+            bodyEncoding: text ? undefined : 'base64',
+            offset,
+            length: page.length,
+            totalSize: content.length,
+            hasMore,
+            nextOffset: hasMore ? end : undefined,
+        };
+    }
+}
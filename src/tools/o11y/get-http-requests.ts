@@ -1,4 +1,10 @@
-import { ToolSessionContext } from '../../context';
+import { HttpRequestBodies, ToolSessionContext } from '../../context';
+import {
+    compileFilterRegExp,
+    getEndpoint,
+    getHost,
+    getInitiatorModule,
+} from './filters';
 import {
     Tool,
     ToolInput,
@@ -6,32 +12,57 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
-import { HttpMethod, HttpRequest, HttpResourceType } from '../../types';
+import {
+    HttpMethod,
+    HttpRequest,
+    HttpRequestInitiator,
+    HttpResourceType,
+} from '../../types';
 
 import { z } from 'zod';
-import { createEnumTransformer, getEnumKeyTuples } from '../../utils';
+import {
+    createEnumTransformer,
+    getEnumKeyTuples,
+    isTextContentType,
+    normalizeTraceId,
+} from '../../utils';
+
+import picomatch from 'picomatch';
+
+export type HttpRequestGroupBy = 'host' | 'endpoint' | 'status' | 'initiator';
 
 export interface GetHttpRequestsInput extends ToolInput {
+    urlPattern?: string;
+    urlRegex?: string;
+    method?: HttpMethod;
     resourceType?: HttpResourceType;
     status?: {
         min?: number;
         max?: number;
     };
     ok?: boolean;
+    hasHeaders?: Array<string>;
+    bodySearch?: string;
+    traceId?: string;
+    pageId?: string;
     timestamp?: number;
     sequenceNumber?: number;
     limit?: {
         count: number;
         from: 'start' | 'end';
     };
+    groupBy?: Array<HttpRequestGroupBy>;
 }
 
 export interface GetHttpRequestsOutput extends ToolOutput {
-    requests: Array<{
+    requests?: Array<{
         url: string;
         method: HttpMethod;
         headers: { [key: string]: string };
         body?: string;
+        truncated?: boolean;
+        originalSize?: number;
+        contentType?: string;
         resourceType: HttpResourceType;
         failure?: string;
         duration?: number;
@@ -40,24 +71,98 @@ export interface GetHttpRequestsOutput extends ToolOutput {
             statusText: string;
             headers: { [key: string]: string };
             body?: string;
+            bodyEncoding?: 'base64';
+            truncated?: boolean;
+            originalSize?: number;
+            contentType?: string;
         };
+        initiator?: HttpRequestInitiator;
+        traceId?: string;
+        spanId?: string;
         ok: boolean;
+        pageId?: string;
         timestamp: number;
         sequenceNumber: number;
     }>;
+    groups?: Array<{
+        host?: string;
+        endpoint?: string;
+        status?: number;
+        initiator?: string;
+        count: number;
+        failedCount: number;
+        avgDuration?: number;
+        firstSequenceNumber: number;
+        lastSequenceNumber: number;
+    }>;
 }
 
+type HttpRequestGroup = NonNullable<GetHttpRequestsOutput['groups']>[number];
+
+type HttpRequestGroupStats = HttpRequestGroup & {
+    durationSum: number;
+    durationCount: number;
+};
+
+type HttpRequestBodyPart = {
+    body?: string;
+    fullBody?: Buffer;
+    contentType?: string;
+};
+
 export class GetHttpRequests implements Tool {
     name(): string {
         return 'o11y_get-http-requests';
     }
 
     description(): string {
-        return 'Retrieves HTTP requests from the browser with filtering options.';
+        return `
+Retrieves HTTP requests from the browser with filtering options.
+
+Notes:
+- Captured request/response bodies are limited by their content type ("HTTP_BODY_MAX_SIZE" and "HTTP_BODY_MAX_SIZE_BY_CONTENT_TYPE"),
+  and binary bodies are skipped ("HTTP_BODY_SKIP_BINARY"). Such bodies are marked as "truncated" with their "originalSize".
+- Use "o11y_get-http-request-body" to retrieve the full body of a request by its sequence number.
+- urlRegex and bodySearch are case-insensitive. bodySearch searches the full request and response bodies
+  (as long as they are kept, see "HTTP_FULL_BODIES_MAX_SIZE") and skips binary bodies.
+- All the given filters must match.
+- When groupBy is set, the (filtered and limited) requests are summarized as "groups" (sorted by count, descending)
+  instead of being returned one by one. For example, groupBy=["endpoint", "status"] gives the count of each status per endpoint.
+  Endpoints are "<METHOD> <host><path>" where the id-like path segments (numbers, UUIDs and hex ids) are replaced with ":id".
+- initiator tells which code has issued the request (script location and stack, including the async stacks),
+  with the original locations resolved through the source maps of the scripts (if available).
+  Initiators are only captured on Chromium-based browsers. They are matched to the requests by method and URL,
+  in the order the requests are issued, so concurrent identical requests get the initiators in their issue order.
+  A request might still get the initiator of an identical one if the browser reports only one of them
+  (e.g. a request served by a service worker), and requests completed before their initiators are reported have none.
+- groupBy=["initiator"] gives the count of the requests per module which has issued them
+  (the first application frame of the initiator stack, skipping the library frames like "node_modules").
+- traceId and spanId are taken from the "traceparent" header of the request (injected by the OTEL instrumentation
+  for the same-origin requests, see "o11y_get-trace-id"), so the request can be looked up in the backend traces.
+        `.trim();
     }
 
     inputSchema(): ToolInputSchema {
         return {
+            urlPattern: z
+                .string()
+                .describe(
+                    'Glob pattern (picomatch) matched against the full URL of the HTTP requests to retrieve (e.g. "**/api/orders/**").'
+                )
+                .optional(),
+            urlRegex: z
+                .string()
+                .describe(
+                    'Regular expression (case-insensitive) to search for in the URL of the HTTP requests to retrieve.'
+                )
+                .optional(),
+            method: z
+                .enum(getEnumKeyTuples(HttpMethod))
+                .transform(createEnumTransformer(HttpMethod))
+                .describe(
+                    `HTTP method of the HTTP requests to retrieve. Valid values are: ${getEnumKeyTuples(HttpMethod)}.`
+                )
+                .optional(),
             resourceType: z
                 .enum(getEnumKeyTuples(HttpResourceType))
                 .transform(createEnumTransformer(HttpResourceType))
@@ -98,6 +203,31 @@ Otherwise (non-2XX status code or no response at all because of timeout, network
 When this flag is not set, all (successful and failed HTTP requests) are retrieved.`
                 )
                 .optional(),
+            hasHeaders: z
+                .array(z.string().min(1))
+                .describe(
+                    'Names of the headers (case-insensitive) which must be present in the request or response headers of the HTTP requests to retrieve.'
+                )
+                .optional(),
+            bodySearch: z
+                .string()
+                .min(1)
+                .describe(
+                    'Text (case-insensitive) to search for in the request or response body of the HTTP requests to retrieve.'
+                )
+                .optional(),
+            traceId: z
+                .string()
+                .describe(
+                    'OpenTelemetry compatible trace id (propagated by the "traceparent" header) of the HTTP requests to retrieve.'
+                )
+                .optional(),
+            pageId: z
+                .string()
+                .describe(
+                    'Id of the page (as listed by "page_list") to retrieve HTTP requests from. Omit to retrieve from all pages of the session.'
+                )
+                .optional(),
             timestamp: z
                 .number()
                 .int()
@@ -134,6 +264,17 @@ Controls which side is kept when truncation is applied.
                 })
                 .describe('Maximum number of HTTP requests to return.')
                 .optional(),
+            groupBy: z
+                .array(z.enum(['host', 'endpoint', 'status', 'initiator']))
+                .min(1)
+                .describe(
+                    `
+Fields to group the HTTP requests by, to return counts per group instead of the HTTP requests.
+"host" is the host of the URL, "endpoint" is the method with the host and the normalized path of the URL,
+"status" is the response status code ("0" for the requests without response),
+and "initiator" is the module (original source or script URL) which has issued the request.`
+                )
+                .optional(),
         };
     }
 
@@ -156,7 +297,29 @@ Controls which side is kept when truncation is applied.
                                 ),
                             body: z
                                 .string()
-                                .describe('HTTP request body if available.')
+                                .describe(
+                                    'HTTP request body if available (truncated by the limit of its content type).'
+                                )
+                                .optional(),
+                            truncated: z
+                                .boolean()
+                                .describe(
+                                    'Whether the HTTP request body has been truncated (or skipped if binary).'
+                                )
+                                .optional(),
+                            originalSize: z
+                                .number()
+                                .int()
+                                .nonnegative()
+                                .describe(
+                                    'Original size of the HTTP request body in bytes (if any).'
+                                )
+                                .optional(),
+                            contentType: z
+                                .string()
+                                .describe(
+                                    'Content type of the HTTP request (if any).'
+                                )
                                 .optional(),
                             resourceType: z.enum(
                                 getEnumKeyTuples(HttpResourceType)
@@ -193,12 +356,143 @@ Valid values are: ${getEnumKeyTuples(HttpResourceType)}`),
                                     body: z
                                         .string()
                                         .describe(
-                                            'HTTP response body if available.'
+                                            'HTTP response body if available (truncated by the limit of its content type).'
+                                        )
+                                        .optional(),
+                                    bodyEncoding: z
+                                        .literal('base64')
+                                        .describe(
+                                            'Set to "base64" if the body is binary and encoded in base64.'
+                                        )
+                                        .optional(),
+                                    truncated: z
+                                        .boolean()
+                                        .describe(
+                                            'Whether the HTTP response body has been truncated (or skipped if binary).'
+                                        )
+                                        .optional(),
+                                    originalSize: z
+                                        .number()
+                                        .int()
+                                        .nonnegative()
+                                        .describe(
+                                            'Original size of the HTTP response body in bytes (if any).'
+                                        )
+                                        .optional(),
+                                    contentType: z
+                                        .string()
+                                        .describe(
+                                            'Content type of the HTTP response (if any).'
                                         )
                                         .optional(),
                                 })
                                 .describe('HTTP response.')
                                 .optional(),
+                            initiator: z
+                                .object({
+                                    type: z
+                                        .string()
+                                        .describe(
+                                            'Type of the initiator (e.g. "parser", "script", "preload", "preflight", "other").'
+                                        ),
+                                    url: z
+                                        .string()
+                                        .describe(
+                                            'URL of the initiator resource (if any).'
+                                        )
+                                        .optional(),
+                                    lineNumber: z
+                                        .number()
+                                        .int()
+                                        .describe(
+                                            '0-based line number in the initiator resource (if any).'
+                                        )
+                                        .optional(),
+                                    columnNumber: z
+                                        .number()
+                                        .int()
+                                        .describe(
+                                            '0-based column number in the initiator resource (if any).'
+                                        )
+                                        .optional(),
+                                    stack: z
+                                        .array(
+                                            z.object({
+                                                functionName: z
+                                                    .string()
+                                                    .describe(
+                                                        'Function name (empty for anonymous functions).'
+                                                    ),
+                                                url: z
+                                                    .string()
+                                                    .describe(
+                                                        'URL of the script.'
+                                                    ),
+                                                lineNumber: z
+                                                    .number()
+                                                    .int()
+                                                    .describe(
+                                                        '0-based line number in the script.'
+                                                    ),
+                                                columnNumber: z
+                                                    .number()
+                                                    .int()
+                                                    .describe(
+                                                        '0-based column number in the script.'
+                                                    ),
+                                                asyncDescription: z
+                                                    .string()
+                                                    .describe(
+                                                        'Set on the first frame of an async stack to its async operation (e.g. "Promise.then").'
+                                                    )
+                                                    .optional(),
+                                                original: z
+                                                    .object({
+                                                        source: z
+                                                            .string()
+                                                            .describe(
+                                                                'Original source.'
+                                                            ),
+                                                        lineNumber: z
+                                                            .number()
+                                                            .int()
+                                                            .describe(
+                                                                '0-based line number in the original source.'
+                                                            ),
+                                                        columnNumber: z
+                                                            .number()
+                                                            .int()
+                                                            .describe(
+                                                                '0-based column number in the original source.'
+                                                            ),
+                                                    })
+                                                    .describe(
+                                                        'Original location resolved through the source map of the script (if available).'
+                                                    )
+                                                    .optional(),
+                                            })
+                                        )
+                                        .describe(
+                                            'Stack of the initiator script, including the async stacks (if any).'
+                                        )
+                                        .optional(),
+                                })
+                                .describe(
+                                    'Initiator of the HTTP request (only on Chromium-based browsers).'
+                                )
+                                .optional(),
+                            traceId: z
+                                .string()
+                                .describe(
+                                    'Trace id propagated by the "traceparent" header of the HTTP request (if any).'
+                                )
+                                .optional(),
+                            spanId: z
+                                .string()
+                                .describe(
+                                    'Span id propagated by the "traceparent" header of the HTTP request, which is the parent of the backend spans (if any).'
+                                )
+                                .optional(),
                             ok: z
                                 .boolean()
                                 .describe(
@@ -208,6 +502,12 @@ An HTTP request is considered successful only if its status code is 2XX.
 Otherwise (non-2XX status code or no response at all because of timeout, network failure, etc ...) it is considered as failed.`
                                 )
                                 .optional(),
+                            pageId: z
+                                .string()
+                                .describe(
+                                    'Id of the page which the HTTP request came from.'
+                                )
+                                .optional(),
                             timestamp: z
                                 .number()
                                 .int()
@@ -224,7 +524,71 @@ number than the last one received.`),
                         })
                         .describe('HTTP request item.')
                 )
-                .describe('Retrieved HTTP requests.'),
+                .describe(
+                    'Retrieved HTTP requests (omitted if groupBy is set).'
+                )
+                .optional(),
+            groups: z
+                .array(
+                    z
+                        .object({
+                            host: z
+                                .string()
+                                .describe('Host (if grouped by host).')
+                                .optional(),
+                            endpoint: z
+                                .string()
+                                .describe('Endpoint (if grouped by endpoint).')
+                                .optional(),
+                            initiator: z
+                                .string()
+                                .describe(
+                                    'Module which has issued the HTTP requests (if grouped by initiator).'
+                                )
+                                .optional(),
+                            status: z
+                                .number()
+                                .int()
+                                .nonnegative()
+                                .describe(
+                                    'Response status code, "0" for no response (if grouped by status).'
+                                )
+                                .optional(),
+                            count: z
+                                .number()
+                                .int()
+                                .describe('Count of the HTTP requests.'),
+                            failedCount: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Count of the failed (not "ok") HTTP requests.'
+                                ),
+                            avgDuration: z
+                                .number()
+                                .describe(
+                                    'Average duration in milliseconds of the HTTP requests with response (if any).'
+                                )
+                                .optional(),
+                            firstSequenceNumber: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Sequence number of the first HTTP request.'
+                                ),
+                            lastSequenceNumber: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Sequence number of the last HTTP request.'
+                                ),
+                        })
+                        .describe('HTTP request group.')
+                )
+                .describe(
+                    'Counts of the HTTP requests per group (only if groupBy is set).'
+                )
+                .optional(),
         };
     }
 
@@ -232,10 +596,31 @@ number than the last one received.`),
         context: ToolSessionContext,
         args: GetHttpRequestsInput
     ): Promise<GetHttpRequestsOutput> {
+        const urlMatcher: ((url: string) => boolean) | undefined =
+            args.urlPattern
+                ? picomatch(args.urlPattern.trim(), { dot: true })
+                : undefined;
+        const urlRegExp: RegExp | undefined = args.urlRegex
+            ? compileFilterRegExp(args.urlRegex, 'urlRegex')
+            : undefined;
+        const bodySearch: string | undefined = args.bodySearch?.toLowerCase();
+        const traceId: string | undefined = args.traceId
+            ? normalizeTraceId(args.traceId)
+            : undefined;
+
         const filteredHttpRequests: HttpRequest[] = context
             .getHttpRequests()
             .filter((req: HttpRequest): boolean => {
                 let filter: boolean = true;
+                if (filter && urlMatcher) {
+                    filter = urlMatcher(req.url);
+                }
+                if (filter && urlRegExp) {
+                    filter = urlRegExp.test(req.url);
+                }
+                if (filter && args.method) {
+                    filter = req.method === args.method;
+                }
                 if (filter && args.resourceType) {
                     filter = req.resourceType === args.resourceType;
                 }
@@ -254,6 +639,20 @@ number than the last one received.`),
                 if (filter && args.ok !== undefined) {
                     filter = req.ok;
                 }
+                if (filter && args.hasHeaders) {
+                    filter = args.hasHeaders.every((name: string): boolean =>
+                        _hasHeader(req, name)
+                    );
+                }
+                if (filter && bodySearch) {
+                    filter = _bodyIncludes(context, req, bodySearch);
+                }
+                if (filter && traceId) {
+                    filter = req.traceId === traceId;
+                }
+                if (filter && args.pageId) {
+                    filter = req.pageId === args.pageId;
+                }
                 if (filter && args.timestamp) {
                     filter = req.timestamp >= args.timestamp;
                 }
@@ -269,16 +668,25 @@ number than the last one received.`),
                 : filteredHttpRequests.slice(-args.limit.count)
             : filteredHttpRequests;
 
+        if (args.groupBy) {
+            return {
+                groups: _groupHttpRequests(trimmedHttpRequests, args.groupBy),
+            };
+        }
+
         const httpRequestsToReturn: GetHttpRequestsOutput['requests'] =
             trimmedHttpRequests.map(
                 (
                     req: HttpRequest
-                ): GetHttpRequestsOutput['requests'][number] => {
+                ): NonNullable<GetHttpRequestsOutput['requests']>[number] => {
                     return {
                         url: req.url,
                         method: req.method,
                         headers: req.headers,
                         body: req.body,
+                        truncated: req.truncated,
+                        originalSize: req.originalSize,
+                        contentType: req.contentType,
                         resourceType: req.resourceType,
                         failure: req.failure,
                         duration: req.duration,
@@ -288,9 +696,17 @@ number than the last one received.`),
                                   statusText: req.response.statusText,
                                   headers: req.response.headers,
                                   body: req.response.body,
+                                  bodyEncoding: req.response.bodyEncoding,
+                                  truncated: req.response.truncated,
+                                  originalSize: req.response.originalSize,
+                                  contentType: req.response.contentType,
                               }
                             : undefined,
+                        initiator: req.initiator,
+                        traceId: req.traceId,
+                        spanId: req.spanId,
                         ok: req.ok,
+                        pageId: req.pageId,
                         timestamp: req.timestamp,
                         sequenceNumber: req.sequenceNumber,
                     };
@@ -302,3 +718,107 @@ number than the last one received.`),
         };
     }
 }
+
+function _hasHeader(req: HttpRequest, name: string): boolean {
+    const lowerCaseName: string = name.toLowerCase();
+    return [req.headers, req.response?.headers ?? {}].some(
+        (headers: { [key: string]: string }): boolean =>
+            Object.keys(headers).some(
+                (key: string): boolean => key.toLowerCase() === lowerCaseName
+            )
+    );
+}
+
+function _bodyIncludes(
+    context: ToolSessionContext,
+    req: HttpRequest,
+    search: string
+): boolean {
+    const bodies: HttpRequestBodies | undefined = context.getHttpRequestBodies(
+        req.sequenceNumber
+    );
+    const parts: Array<HttpRequestBodyPart> = [
+        {
+            body: req.body,
+            fullBody: bodies?.request,
+            contentType: req.contentType,
+        },
+        {
+            body: req.response?.body,
+            fullBody: bodies?.response,
+            contentType: req.response?.contentType,
+        },
+    ];
+    return parts.some((part: HttpRequestBodyPart): boolean => {
+        if (!isTextContentType(part.contentType)) {
+            return false;
+        }
+        // Prefer the full body (if still kept) over the captured one which might be truncated
+        const body: string | undefined = part.fullBody
+            ? part.fullBody.toString('utf-8')
+            : part.body;
+        return !!body && body.toLowerCase().includes(search);
+    });
+}
+
+function _groupHttpRequests(
+    httpRequests: HttpRequest[],
+    groupBy: Array<HttpRequestGroupBy>
+): Array<HttpRequestGroup> {
+    const groups: Map<string, HttpRequestGroupStats> = new Map();
+    for (const req of httpRequests) {
+        const keyFields: Pick<HttpRequestGroup, HttpRequestGroupBy> = {};
+        if (groupBy.includes('host')) {
+            keyFields.host = getHost(req.url);
+        }
+        if (groupBy.includes('endpoint')) {
+            keyFields.endpoint = getEndpoint(req.method, req.url);
+        }
+        if (groupBy.includes('status')) {
+            keyFields.status = req.response?.status ?? 0;
+        }
+        if (groupBy.includes('initiator')) {
+            keyFields.initiator = getInitiatorModule(req.initiator);
+        }
+        const key: string = JSON.stringify(keyFields);
+        let group: HttpRequestGroupStats | undefined = groups.get(key);
+        if (!group) {
+            group = {
+                ...keyFields,
+                count: 0,
+                failedCount: 0,
+                firstSequenceNumber: req.sequenceNumber,
+                lastSequenceNumber: req.sequenceNumber,
+                durationSum: 0,
+                durationCount: 0,
+            };
+            groups.set(key, group);
+        }
+        group.count++;
+        if (!req.ok) {
+            group.failedCount++;
+        }
+        if (req.duration !== undefined && req.duration >= 0) {
+            group.durationSum += req.duration;
+            group.durationCount++;
+        }
+        group.lastSequenceNumber = req.sequenceNumber;
+    }
+    return [...groups.values()]
+        .sort(
+            (g1: HttpRequestGroupStats, g2: HttpRequestGroupStats): number =>
+                g2.count - g1.count
+        )
+        .map(
+            ({
+                durationSum,
+                durationCount,
+                ...group
+            }: HttpRequestGroupStats): HttpRequestGroup => ({
+                ...group,
+                avgDuration: durationCount
+                    ? Math.round(durationSum / durationCount)
+                    : undefined,
+            })
+        );
+}
@@ -0,0 +1,359 @@
+import { ToolSessionContext } from '../../context';
+import {
+    OTELAttributes,
+    OTELSpan,
+    OTELSpanEvent,
+    OTELSpanKind,
+    OTELSpanStatusCode,
+} from '../../otel/otel-span-store';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+import { getEnumKeyTuples, normalizeTraceId } from '../../utils';
+
+import { z } from 'zod';
+
+export interface GetSpansInput extends ToolInput {
+    traceId?: string;
+    name?: string;
+    minDuration?: number;
+    maxDuration?: number;
+    attributes?: Record<string, string>;
+    status?: OTELSpanStatusCode;
+    sequenceNumber?: number;
+    limit?: {
+        count: number;
+        from: 'start' | 'end';
+    };
+}
+
+export type SpanNode = {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    kind: OTELSpanKind;
+    startTime: number;
+    endTime: number;
+    duration: number;
+    attributes: OTELAttributes;
+    events?: OTELSpanEvent[];
+    status: {
+        code: OTELSpanStatusCode;
+        message?: string;
+    };
+    serviceName?: string;
+    scopeName?: string;
+    sequenceNumber: number;
+    children: SpanNode[];
+};
+
+export interface GetSpansOutput extends ToolOutput {
+    spans: SpanNode[];
+    spanCount: number;
+}
+
+export class GetSpans implements Tool {
+    name(): string {
+        return 'o11y_get-spans';
+    }
+
+    description(): string {
+        return `
+Retrieves the OpenTelemetry spans collected from the pages (document load, fetch, XMLHttpRequest, user interactions)
+as span trees, filtered by trace id, name, duration, attributes and status.
+
+Notes:
+- Only available when OTEL is enabled with the in-memory exporter ("OTEL_EXPORTER_TYPE=memory"),
+  which keeps the spans (the last "OTEL_SPANS_BUFFER_SIZE" ones) instead of exporting them to a collector.
+- The matching spans are returned with all their child spans (even if the children don't match),
+  arranged as trees by their parent span ids. Roots are the spans whose parent is not returned.
+- Spans are exported by the pages in batches, so the latest spans might be available a few seconds later.
+- limit applies to the root spans (ordered by start time).
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            traceId: z
+                .string()
+                .describe(
+                    'Trace id of the spans to retrieve (e.g. as returned by "o11y_get-trace-id" or "o11y_get-http-requests").'
+                )
+                .optional(),
+            name: z
+                .string()
+                .describe(
+                    'Text (case-insensitive) to search for in the name of the spans to retrieve.'
+                )
+                .optional(),
+            minDuration: z
+                .number()
+                .nonnegative()
+                .describe(
+                    'Minimum duration in milliseconds of the spans to retrieve.'
+                )
+                .optional(),
+            maxDuration: z
+                .number()
+                .nonnegative()
+                .describe(
+                    'Maximum duration in milliseconds of the spans to retrieve.'
+                )
+                .optional(),
+            attributes: z
+                .record(z.string(), z.string())
+                .describe(
+                    'Attributes of the spans to retrieve, matched by their values as strings (e.g. {"http.status_code": "500"}).'
+                )
+                .optional(),
+            status: z
+                .enum(getEnumKeyTuples(OTELSpanStatusCode))
+                .describe(
+                    `Status of the spans to retrieve. Valid values are: ${getEnumKeyTuples(OTELSpanStatusCode)}.`
+                )
+                .optional(),
+            sequenceNumber: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe(
+                    `
+Sequence number for incremental retrieval.
+If provided, only spans with a sequence number greater than this value will be matched.`
+                )
+                .optional(),
+            limit: z
+                .object({
+                    count: z.number().int().nonnegative().default(0).describe(`
+Count of the maximum number of root spans to return.
+"0" means no count limit.`),
+                    from: z.enum(['start', 'end']).default('end').describe(`
+Controls which side is kept when truncation is applied.
+"start" keeps the first N root spans, "end" keeps the last N root spans.`),
+                })
+                .describe('Maximum number of root spans to return.')
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            spans: z
+                .array(
+                    z
+                        .object({
+                            traceId: z.string().describe('Trace id.'),
+                            spanId: z.string().describe('Span id.'),
+                            parentSpanId: z
+                                .string()
+                                .describe('Parent span id (if any).')
+                                .optional(),
+                            name: z.string().describe('Span name.'),
+                            kind: z
+                                .enum(getEnumKeyTuples(OTELSpanKind))
+                                .describe('Span kind.'),
+                            startTime: z
+                                .number()
+                                .describe(
+                                    'Unix epoch timestamp (in milliseconds) of the span start.'
+                                ),
+                            endTime: z
+                                .number()
+                                .describe(
+                                    'Unix epoch timestamp (in milliseconds) of the span end.'
+                                ),
+                            duration: z
+                                .number()
+                                .describe('Span duration in milliseconds.'),
+                            attributes: z
+                                .record(z.string(), z.any())
+                                .describe('Span attributes.'),
+                            events: z
+                                .array(
+                                    z.object({
+                                        name: z
+                                            .string()
+                                            .describe('Event name.'),
+                                        timestamp: z
+                                            .number()
+                                            .describe(
+                                                'Unix epoch timestamp (in milliseconds) of the event.'
+                                            ),
+                                        attributes: z
+                                            .record(z.string(), z.any())
+                                            .describe('Event attributes.')
+                                            .optional(),
+                                    })
+                                )
+                                .describe('Span events (if any).')
+                                .optional(),
+                            status: z
+                                .object({
+                                    code: z
+                                        .enum(
+                                            getEnumKeyTuples(OTELSpanStatusCode)
+                                        )
+                                        .describe('Status code.'),
+                                    message: z
+                                        .string()
+                                        .describe('Status message (if any).')
+                                        .optional(),
+                                })
+                                .describe('Span status.'),
+                            serviceName: z
+                                .string()
+                                .describe('Name of the service (if any).')
+                                .optional(),
+                            scopeName: z
+                                .string()
+                                .describe(
+                                    'Name of the instrumentation scope (if any).'
+                                )
+                                .optional(),
+                            sequenceNumber: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'A monotonically increasing sequence number assigned to each span when it is received.'
+                                ),
+                            children: z
+                                .array(z.any())
+                                .describe(
+                                    'Child spans (ordered by start time), in the same shape.'
+                                ),
+                        })
+                        .describe('Root span with its child spans.')
+                )
+                .describe('Retrieved span trees.'),
+            spanCount: z
+                .number()
+                .int()
+                .describe('Count of all the spans in the retrieved trees.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: GetSpansInput
+    ): Promise<GetSpansOutput> {
+        const allSpans: OTELSpan[] = context.getOTELSpans();
+        const traceId: string | undefined = args.traceId
+            ? normalizeTraceId(args.traceId)
+            : undefined;
+        const name: string | undefined = args.name?.toLowerCase();
+
+        const matchedSpans: OTELSpan[] = allSpans.filter(
+            (span: OTELSpan): boolean => {
+                let filter: boolean = true;
+                if (filter && traceId) {
+                    filter = span.traceId === traceId;
+                }
+                if (filter && name) {
+                    filter = span.name.toLowerCase().includes(name);
+                }
+                if (filter && args.minDuration !== undefined) {
+                    filter = span.duration >= args.minDuration;
+                }
+                if (filter && args.maxDuration !== undefined) {
+                    filter = span.duration <= args.maxDuration;
+                }
+                if (filter && args.attributes) {
+                    filter = Object.entries(args.attributes).every(
+                        ([key, value]: [string, string]): boolean =>
+                            key in span.attributes &&
+                            String(span.attributes[key]) === value
+                    );
+                }
+                if (filter && args.status) {
+                    filter = span.status.code === args.status;
+                }
+                if (filter && args.sequenceNumber) {
+                    filter = span.sequenceNumber > args.sequenceNumber;
+                }
+                return filter;
+            }
+        );
+
+        const roots: SpanNode[] = _buildSpanTrees(allSpans, matchedSpans);
+        const trimmedRoots: SpanNode[] = args.limit?.count
+            ? args.limit.from === 'start'
+                ? roots.slice(0, args.limit.count)
+                : roots.slice(-args.limit.count)
+            : roots;
+
+        return {
+            spans: trimmedRoots,
+            spanCount: trimmedRoots.reduce(
+                (count: number, root: SpanNode): number =>
+                    count + _countSpans(root),
+                0
+            ),
+        };
+    }
+}
+
+function _spanKey(traceId: string, spanId: string): string {
+    return `${traceId}:${spanId}`;
+}
+
+function _compareSpanNodes(n1: SpanNode, n2: SpanNode): number {
+    return n1.startTime - n2.startTime;
+}
+
+/**
+ * Builds the trees of the given matched spans with all their descendants (from all the spans).
+ */
+function _buildSpanTrees(
+    allSpans: OTELSpan[],
+    matchedSpans: OTELSpan[]
+): SpanNode[] {
+    const childrenByParent: Map<string, OTELSpan[]> = new Map();
+    for (const span of allSpans) {
+        if (span.parentSpanId) {
+            const parentKey: string = _spanKey(span.traceId, span.parentSpanId);
+            const children: OTELSpan[] = childrenByParent.get(parentKey) ?? [];
+            children.push(span);
+            childrenByParent.set(parentKey, children);
+        }
+    }
+
+    const nodes: Map<string, SpanNode> = new Map();
+    const pending: OTELSpan[] = [...matchedSpans];
+    while (pending.length > 0) {
+        const span: OTELSpan = pending.pop()!;
+        const key: string = _spanKey(span.traceId, span.spanId);
+        if (nodes.has(key)) {
+            continue;
+        }
+        nodes.set(key, { ...span, children: [] });
+        pending.push(...(childrenByParent.get(key) ?? []));
+    }
+
+    const roots: SpanNode[] = [];
+    for (const node of nodes.values()) {
+        const parent: SpanNode | undefined = node.parentSpanId
+            ? nodes.get(_spanKey(node.traceId, node.parentSpanId))
+            : undefined;
+        if (parent) {
+            parent.children.push(node);
+        } else {
+            roots.push(node);
+        }
+    }
+    for (const node of nodes.values()) {
+        node.children.sort(_compareSpanNodes);
+    }
+    return roots.sort(_compareSpanNodes);
+}
+
+function _countSpans(node: SpanNode): number {
+    return node.children.reduce(
+        (count: number, child: SpanNode): number => count + _countSpans(child),
+        1
+    );
+}
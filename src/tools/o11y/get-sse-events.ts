@@ -0,0 +1,243 @@
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+import { SseEvent } from '../../types';
+
+import picomatch from 'picomatch';
+import { z } from 'zod';
+
+export interface GetSseEventsInput extends ToolInput {
+    urlPattern?: string;
+    streamId?: string;
+    event?: string;
+    search?: string;
+    pageId?: string;
+    timestamp?: number;
+    sequenceNumber?: number;
+    limit?: {
+        count: number;
+        from: 'start' | 'end';
+    };
+}
+
+export interface GetSseEventsOutput extends ToolOutput {
+    events: Array<{
+        streamId: string;
+        url: string;
+        resourceType: string;
+        event: string;
+        data: string;
+        id?: string;
+        retry?: number;
+        pageId?: string;
+        timestamp: number;
+        sequenceNumber: number;
+    }>;
+}
+
+export class GetSseEvents implements Tool {
+    name(): string {
+        return 'o11y_get-sse-events';
+    }
+
+    description(): string {
+        return `
+Retrieves the Server-Sent Events received by the pages one by one (with timestamps),
+from EventSource connections and streamed "text/event-stream" responses (e.g. fetch based LLM token streams).
+
+Notes:
+- Events are captured while the streams are in progress, so the events of the streams which never finish are available too.
+- Only supported on Chromium-based browsers.
+- The last "SSE_EVENTS_BUFFER_SIZE" events are kept.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            urlPattern: z
+                .string()
+                .describe(
+                    'Glob pattern (picomatch) to filter the events by stream URL (e.g. "**/api/chat/**").'
+                )
+                .optional(),
+            streamId: z
+                .string()
+                .describe('Id of the stream to retrieve the events of.')
+                .optional(),
+            event: z
+                .string()
+                .describe(
+                    'Type of the events to retrieve ("message" for the events without type).'
+                )
+                .optional(),
+            search: z
+                .string()
+                .describe('Text to search for in the event data.')
+                .optional(),
+            pageId: z
+                .string()
+                .describe(
+                    'Id of the page (as listed by "page_list") to retrieve events from. Omit to retrieve from all pages of the session.'
+                )
+                .optional(),
+            timestamp: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe(
+                    `
+Start time filter as a Unix epoch timestamp in milliseconds.
+If provided, only events received at or after this timestamp will be returned.`
+                )
+                .optional(),
+            sequenceNumber: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe(
+                    `
+Sequence number for incremental retrieval.
+If provided, only events with a sequence number greater than this value will be returned.
+This allows clients to fetch events incrementally by passing the last received sequence number on subsequent requests.`
+                )
+                .optional(),
+            limit: z
+                .object({
+                    count: z.number().int().nonnegative().default(0).describe(`
+Count of the maximum number of events to return.
+If the result exceeds this limit, it will be truncated.
+"0" means no count limit.`),
+                    from: z.enum(['start', 'end']).default('end').describe(`
+Controls which side is kept when truncation is applied.
+"start" keeps the first N items (trims from the end).
+"end" keeps the last N items (trims from the start).`),
+                })
+                .describe('Maximum number of events to return.')
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            events: z
+                .array(
+                    z
+                        .object({
+                            streamId: z
+                                .string()
+                                .describe(
+                                    'Id of the stream the event has been received from.'
+                                ),
+                            url: z.string().describe('URL of the stream.'),
+                            resourceType: z
+                                .string()
+                                .describe(
+                                    'Resource type of the stream request (e.g. "eventsource", "fetch", "xhr").'
+                                ),
+                            event: z
+                                .string()
+                                .describe(
+                                    'Event type ("message" if the event has no type).'
+                                ),
+                            data: z.string().describe('Event data.'),
+                            id: z
+                                .string()
+                                .describe('Last event id (if any).')
+                                .optional(),
+                            retry: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Reconnection time in milliseconds (if set by the event).'
+                                )
+                                .optional(),
+                            pageId: z
+                                .string()
+                                .describe(
+                                    'Id of the page which received the event.'
+                                )
+                                .optional(),
+                            timestamp: z
+                                .number()
+                                .int()
+                                .nonnegative()
+                                .describe(
+                                    'Unix epoch timestamp (in milliseconds) of the event receipt.'
+                                ),
+                            sequenceNumber: z.number().int().nonnegative()
+                                .describe(`
+A monotonically increasing sequence number assigned to each event.
+It can be used by clients to retrieve events incrementally.`),
+                        })
+                        .describe('SSE event item.')
+                )
+                .describe('Retrieved SSE events.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: GetSseEventsInput
+    ): Promise<GetSseEventsOutput> {
+        const urlMatcher: ((url: string) => boolean) | undefined =
+            args.urlPattern
+                ? picomatch(args.urlPattern.trim(), { dot: true })
+                : undefined;
+
+        const filteredEvents: SseEvent[] = context
+            .getSseEvents()
+            .filter((e: SseEvent): boolean => {
+                let filter: boolean = true;
+                if (urlMatcher) {
+                    filter = urlMatcher(e.url);
+                }
+                if (filter && args.streamId) {
+                    filter = e.streamId === args.streamId;
+                }
+                if (filter && args.event) {
+                    filter = e.event === args.event;
+                }
+                if (filter && args.pageId) {
+                    filter = e.pageId === args.pageId;
+                }
+                if (filter && args.timestamp) {
+                    filter = e.timestamp >= args.timestamp;
+                }
+                if (filter && args.sequenceNumber) {
+                    filter = e.sequenceNumber > args.sequenceNumber;
+                }
+                if (filter && args.search) {
+                    filter = e.data.includes(args.search);
+                }
+                return filter;
+            });
+
+        const trimmedEvents: SseEvent[] = args.limit?.count
+            ? args.limit.from === 'start'
+                ? filteredEvents.slice(0, args.limit.count)
+                : filteredEvents.slice(-args.limit.count)
+            : filteredEvents;
+
+        return {
+            events: trimmedEvents.map(
+                (e: SseEvent): GetSseEventsOutput['events'][number] => ({
+                    streamId: e.streamId,
+                    url: e.url,
+                    resourceType: e.resourceType,
+                    event: e.event,
+                    data: e.data,
+                    id: e.id,
+                    retry: e.retry,
+                    pageId: e.pageId,
+                    timestamp: e.timestamp,
+                    sequenceNumber: e.sequenceNumber,
+                })
+            ),
+        };
+    }
+}
@@ -1,4 +1,5 @@
 import { ToolSessionContext } from '../../context';
+import { NetworkConditions } from '../../types';
 import {
     Tool,
     ToolInput,
@@ -81,6 +82,14 @@ export interface GetWebVitalsOutput extends ToolOutput {
 
     recommendations: WebVitalsRecommendations;
 
+    /**
+     * Network and CPU conditions emulated while the metrics were measured.
+     */
+    emulatedConditions: {
+        network?: NetworkConditions;
+        cpuThrottlingRate?: number;
+    };
+
     notes: Array<string>;
 
     debug?: {
@@ -378,6 +387,7 @@ Guidance:
 - Call after navigation and after user actions.
 - If you need more stable LCP/CLS/INP, pass waitMs (e.g. 1000-3000).
 - Some metrics may be unavailable depending on browser support and whether interactions occurred.
+- Active network conditions and CPU throttling (see "network_emulate-conditions" and "cpu_throttle" tools) are reported, as they affect the measured values.
         `.trim();
     }
 
@@ -503,6 +513,41 @@ Guidance:
                 .describe(
                     'Recommendations based on the measured values and their ratings.'
                 ),
+            emulatedConditions: z
+                .object({
+                    network: z
+                        .object({
+                            preset: z
+                                .string()
+                                .describe('Preset the conditions are based on.')
+                                .optional(),
+                            offline: z.boolean().describe('Whether offline.'),
+                            latencyMs: z.number().describe('Latency (ms).'),
+                            downloadKbps: z
+                                .number()
+                                .describe(
+                                    'Download throughput (kbps, -1 means no limit).'
+                                ),
+                            uploadKbps: z
+                                .number()
+                                .describe(
+                                    'Upload throughput (kbps, -1 means no limit).'
+                                ),
+                        })
+                        .describe(
+                            'Active network conditions. Omitted if network emulation is disabled.'
+                        )
+                        .optional(),
+                    cpuThrottlingRate: z
+                        .number()
+                        .describe(
+                            'Active CPU slowdown factor. Omitted if CPU throttling is disabled.'
+                        )
+                        .optional(),
+                })
+                .describe(
+                    'Network and CPU conditions emulated while the metrics were measured.'
+                ),
             notes: z
                 .array(z.string())
                 .describe(
@@ -861,6 +906,16 @@ Guidance:
             )}, CLS=${formatRating(ratings.cls.rating)}.`
         );
 
+        const networkConditions: NetworkConditions | undefined =
+            context.getNetworkConditions();
+        const cpuThrottlingRate: number | undefined =
+            context.getCpuThrottlingRate();
+        if (networkConditions || cpuThrottlingRate) {
+            notes.push(
+                'Metrics were measured under emulated network/CPU conditions (see emulatedConditions), so they may not reflect the real user experience.'
+            );
+        }
+
         const output: GetWebVitalsOutput = {
             url: pageUrl,
             title: pageTitle,
@@ -876,6 +931,10 @@ Guidance:
 
             ratings,
             recommendations,
+            emulatedConditions: {
+                network: networkConditions,
+                cpuThrottlingRate,
+            },
             notes,
         };
 
@@ -0,0 +1,278 @@
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+import {
+    WebSocketConnection,
+    WebSocketFrame,
+    WebSocketFrameDirection,
+} from '../../types';
+import { createEnumTransformer, getEnumKeyTuples } from '../../utils';
+
+import picomatch from 'picomatch';
+import { z } from 'zod';
+
+export interface GetWebSocketFramesInput extends ToolInput {
+    connectionId?: string;
+    urlPattern?: string;
+    pageId?: string;
+    direction?: WebSocketFrameDirection;
+    search?: string;
+    timestamp?: number;
+    limit?: {
+        count: number;
+        from: 'start' | 'end';
+    };
+}
+
+export interface GetWebSocketFramesOutput extends ToolOutput {
+    connections: Array<{
+        connectionId: string;
+        url: string;
+        pageId?: string;
+        openedAt: number;
+        closedAt?: number;
+        error?: string;
+        frameCount: number;
+        droppedFrameCount: number;
+        frames: Array<WebSocketFrame>;
+    }>;
+}
+
+export class GetWebSocketFrames implements Tool {
+    name(): string {
+        return 'o11y_get-websocket-frames';
+    }
+
+    description(): string {
+        return `
+Retrieves the WebSocket connections of the session with their sent and received frames (with timestamps).
+
+Notes:
+- The last "WEBSOCKET_CONNECTIONS_BUFFER_SIZE" connections and the last "WEBSOCKET_FRAMES_BUFFER_SIZE" frames
+  per connection are kept (droppedFrameCount reports the older frames which have been dropped).
+- Binary frame payloads are base64 encoded (with payloadEncoding: "base64").
+- Connections are returned even if none of their frames match the frame filters (direction, search, timestamp).
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            connectionId: z
+                .string()
+                .describe('Id of the WebSocket connection to retrieve.')
+                .optional(),
+            urlPattern: z
+                .string()
+                .describe(
+                    'Glob pattern (picomatch) to filter the connections by URL (e.g. "**/realtime/**").'
+                )
+                .optional(),
+            pageId: z
+                .string()
+                .describe(
+                    'Id of the page (as listed by "page_list") to retrieve WebSocket connections from. Omit to retrieve from all pages of the session.'
+                )
+                .optional(),
+            direction: z
+                .enum(getEnumKeyTuples(WebSocketFrameDirection))
+                .transform(createEnumTransformer(WebSocketFrameDirection))
+                .describe(
+                    `Direction of the frames to retrieve. Valid values are: ${getEnumKeyTuples(WebSocketFrameDirection)}.`
+                )
+                .optional(),
+            search: z
+                .string()
+                .describe('Text to search for in the frame payloads.')
+                .optional(),
+            timestamp: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe(
+                    `
+Start time filter as a Unix epoch timestamp in milliseconds.
+If provided, only frames sent or received at or after this timestamp will be returned.`
+                )
+                .optional(),
+            limit: z
+                .object({
+                    count: z.number().int().nonnegative().default(0).describe(`
+Count of the maximum number of frames to return per connection.
+If the result exceeds this limit, it will be truncated.
+"0" means no count limit.`),
+                    from: z.enum(['start', 'end']).default('end').describe(`
+Controls which side is kept when truncation is applied.
+"start" keeps the first N items (trims from the end).
+"end" keeps the last N items (trims from the start).`),
+                })
+                .describe('Maximum number of frames to return per connection.')
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            connections: z
+                .array(
+                    z
+                        .object({
+                            connectionId: z
+                                .string()
+                                .describe('Id of the WebSocket connection.'),
+                            url: z
+                                .string()
+                                .describe('URL of the WebSocket connection.'),
+                            pageId: z
+                                .string()
+                                .describe(
+                                    'Id of the page which opened the connection.'
+                                )
+                                .optional(),
+                            openedAt: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Unix epoch timestamp (in milliseconds) of the connection open.'
+                                ),
+                            closedAt: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Unix epoch timestamp (in milliseconds) of the connection close (if closed).'
+                                )
+                                .optional(),
+                            error: z
+                                .string()
+                                .describe('Socket error (if any).')
+                                .optional(),
+                            frameCount: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Count of the buffered frames of the connection (before filtering).'
+                                ),
+                            droppedFrameCount: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Count of the older frames dropped from the buffer.'
+                                ),
+                            frames: z
+                                .array(
+                                    z.object({
+                                        direction: z
+                                            .enum(['sent', 'received'])
+                                            .describe(
+                                                '"sent" (by the page) or "received" (from the server).'
+                                            ),
+                                        payload: z
+                                            .string()
+                                            .describe('Frame payload.'),
+                                        payloadEncoding: z
+                                            .literal('base64')
+                                            .describe(
+                                                'Set to "base64" if the payload is binary.'
+                                            )
+                                            .optional(),
+                                        size: z
+                                            .number()
+                                            .int()
+                                            .describe(
+                                                'Size of the payload in bytes.'
+                                            ),
+                                        timestamp: z
+                                            .number()
+                                            .int()
+                                            .describe(
+                                                'Unix epoch timestamp (in milliseconds) of the frame.'
+                                            ),
+                                    })
+                                )
+                                .describe('Matching frames.'),
+                        })
+                        .describe('WebSocket connection item.')
+                )
+                .describe('Retrieved WebSocket connections.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: GetWebSocketFramesInput
+    ): Promise<GetWebSocketFramesOutput> {
+        const urlMatcher: ((url: string) => boolean) | undefined =
+            args.urlPattern
+                ? picomatch(args.urlPattern.trim(), { dot: true })
+                : undefined;
+
+        const connections: WebSocketConnection[] = context
+            .getWebSocketConnections()
+            .filter((connection: WebSocketConnection): boolean => {
+                if (args.connectionId && connection.id !== args.connectionId) {
+                    return false;
+                }
+                if (urlMatcher && !urlMatcher(connection.url)) {
+                    return false;
+                }
+                if (args.pageId && connection.pageId !== args.pageId) {
+                    return false;
+                }
+                return true;
+            });
+
+        return {
+            connections: connections.map(
+                (
+                    connection: WebSocketConnection
+                ): GetWebSocketFramesOutput['connections'][number] => {
+                    const filteredFrames: WebSocketFrame[] =
+                        connection.frames.filter(
+                            (frame: WebSocketFrame): boolean => {
+                                if (
+                                    args.direction &&
+                                    frame.direction !== args.direction
+                                ) {
+                                    return false;
+                                }
+                                if (
+                                    args.timestamp &&
+                                    frame.timestamp < args.timestamp
+                                ) {
+                                    return false;
+                                }
+                                if (
+                                    args.search &&
+                                    (frame.payloadEncoding === 'base64' ||
+                                        !frame.payload.includes(args.search))
+                                ) {
+                                    return false;
+                                }
+                                return true;
+                            }
+                        );
+                    const trimmedFrames: WebSocketFrame[] = args.limit?.count
+                        ? args.limit.from === 'start'
+                            ? filteredFrames.slice(0, args.limit.count)
+                            : filteredFrames.slice(-args.limit.count)
+                        : filteredFrames;
+                    return {
+                        connectionId: connection.id,
+                        url: connection.url,
+                        pageId: connection.pageId,
+                        openedAt: connection.openedAt,
+                        closedAt: connection.closedAt,
+                        error: connection.error,
+                        frameCount: connection.frames.length,
+                        droppedFrameCount: connection.droppedFrameCount,
+                        frames: trimmedFrames,
+                    };
+                }
+            ),
+        };
+    }
+}
@@ -0,0 +1,266 @@
+import { SERVER_NAME, SERVER_VERSION } from '../../server-info';
+import { HttpRequest, HttpRequestTiming } from '../../types';
+
+/**
+ * Types of the HAR 1.2 format.
+ * See http://www.softwareishard.com/blog/har-12-spec/
+ */
+
+export type HarNameValue = {
+    name: string;
+    value: string;
+};
+
+export type HarTimings = {
+    blocked: number;
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+};
+
+export type HarEntry = {
+    pageref?: string;
+    startedDateTime: string;
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        cookies: HarNameValue[];
+        headers: HarNameValue[];
+        queryString: HarNameValue[];
+        postData?: {
+            mimeType: string;
+            text: string;
+        };
+        headersSize: number;
+        bodySize: number;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        cookies: HarNameValue[];
+        headers: HarNameValue[];
+        content: {
+            size: number;
+            mimeType: string;
+            text?: string;
+            encoding?: string;
+        };
+        redirectURL: string;
+        headersSize: number;
+        bodySize: number;
+        _failureText?: string;
+    };
+    cache: {};
+    timings: HarTimings;
+    _resourceType: string;
+};
+
+export type HarPage = {
+    id: string;
+    startedDateTime: string;
+    title: string;
+    pageTimings: {};
+};
+
+export type Har = {
+    log: {
+        version: string;
+        creator: {
+            name: string;
+            version: string;
+        };
+        pages: HarPage[];
+        entries: HarEntry[];
+    };
+};
+
+function _toNameValues(headers: Record<string, string>): HarNameValue[] {
+    return Object.entries(headers).map(
+        ([name, value]: [string, string]): HarNameValue => ({ name, value })
+    );
+}
+
+function _toQueryString(url: string): HarNameValue[] {
+    try {
+        return Array.from(new URL(url).searchParams.entries()).map(
+            ([name, value]: [string, string]): HarNameValue => ({
+                name,
+                value,
+            })
+        );
+    } catch {
+        return [];
+    }
+}
+
+function _getHeader(
+    headers: Record<string, string>,
+    name: string
+): string | undefined {
+    const lowerCaseName: string = name.toLowerCase();
+    for (const [key, value] of Object.entries(headers)) {
+        if (key.toLowerCase() === lowerCaseName) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+function _duration(start: number, end: number): number {
+    return start >= 0 && end >= 0 ? Math.max(0, end - start) : -1;
+}
+
+function _toTimings(timing: HttpRequestTiming | undefined): HarTimings {
+    if (!timing) {
+        return {
+            blocked: -1,
+            dns: -1,
+            connect: -1,
+            ssl: -1,
+            send: 0,
+            wait: 0,
+            receive: 0,
+        };
+    }
+    // Request is blocked (queued) until DNS lookup, connection or sending starts (whichever comes first)
+    const firstStart: number | undefined = [
+        timing.domainLookupStart,
+        timing.connectStart,
+        timing.requestStart,
+    ].find((t: number): boolean => t >= 0);
+    return {
+        blocked: firstStart !== undefined ? firstStart : -1,
+        dns: _duration(timing.domainLookupStart, timing.domainLookupEnd),
+        connect: _duration(timing.connectStart, timing.connectEnd),
+        ssl: _duration(timing.secureConnectionStart, timing.connectEnd),
+        send: 0,
+        wait: Math.max(0, _duration(timing.requestStart, timing.responseStart)),
+        receive: Math.max(
+            0,
+            _duration(timing.responseStart, timing.responseEnd)
+        ),
+    };
+}
+
+function _toEntry(req: HttpRequest): HarEntry {
+    const timings: HarTimings = _toTimings(req.timing);
+    const time: number =
+        // "ssl" is already included in "connect"
+        [
+            timings.blocked,
+            timings.dns,
+            timings.connect,
+            timings.send,
+            timings.wait,
+            timings.receive,
+        ]
+            .filter((t: number): boolean => t > 0)
+            .reduce((total: number, t: number): number => total + t, 0);
+    const startTime: number = req.timing?.startTime ?? req.timestamp;
+    const requestContentType: string | undefined = _getHeader(
+        req.headers,
+        'content-type'
+    );
+    const responseHeaders: Record<string, string> = req.response?.headers ?? {};
+    const responseBody: string | undefined = req.response?.body;
+    const responseBodySize: number =
+        responseBody === undefined
+            ? 0
+            : req.response?.bodyEncoding === 'base64'
+              ? Buffer.from(responseBody, 'base64').length
+              : Buffer.byteLength(responseBody, 'utf-8');
+
+    return {
+        pageref: req.pageId,
+        startedDateTime: new Date(startTime).toISOString(),
+        time,
+        request: {
+            method: req.method,
+            url: req.url,
+            httpVersion: '',
+            cookies: [],
+            headers: _toNameValues(req.headers),
+            queryString: _toQueryString(req.url),
+            postData:
+                req.body !== undefined
+                    ? {
+                          mimeType: requestContentType ?? '',
+                          text: req.body,
+                      }
+                    : undefined,
+            headersSize: -1,
+            bodySize:
+                req.body !== undefined
+                    ? Buffer.byteLength(req.body, 'utf-8')
+                    : 0,
+        },
+        response: {
+            // Status "0" is used for the requests without response (failed, aborted, ...)
+            status: req.response?.status ?? 0,
+            statusText: req.response?.statusText ?? '',
+            httpVersion: '',
+            cookies: [],
+            headers: _toNameValues(responseHeaders),
+            content: {
+                size: responseBodySize,
+                mimeType:
+                    _getHeader(responseHeaders, 'content-type') ?? 'x-unknown',
+                text: responseBody,
+                encoding: req.response?.bodyEncoding,
+            },
+            redirectURL: _getHeader(responseHeaders, 'location') ?? '',
+            headersSize: -1,
+            bodySize: req.response ? responseBodySize : -1,
+            _failureText: req.failure,
+        },
+        cache: {},
+        timings,
+        _resourceType: req.resourceType,
+    };
+}
+
+/**
+ * Builds a HAR 1.2 log from the given HTTP requests.
+ * Each page of the session (by page id) is represented as a HAR page.
+ */
+export function buildHar(
+    requests: HttpRequest[],
+    pageTitles: Record<string, string> = {}
+): Har {
+    const entries: HarEntry[] = requests
+        .map(_toEntry)
+        .sort(
+            (a: HarEntry, b: HarEntry): number =>
+                Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime)
+        );
+
+    const pagesById: Map<string, HarPage> = new Map();
+    for (const entry of entries) {
+        if (entry.pageref && !pagesById.has(entry.pageref)) {
+            pagesById.set(entry.pageref, {
+                id: entry.pageref,
+                startedDateTime: entry.startedDateTime,
+                title: pageTitles[entry.pageref] ?? entry.pageref,
+                pageTimings: {},
+            });
+        }
+    }
+
+    return {
+        log: {
+            version: '1.2',
+            creator: {
+                name: SERVER_NAME,
+                version: SERVER_VERSION,
+            },
+            pages: Array.from(pagesById.values()),
+            entries,
+        },
+    };
+}
@@ -1,15 +1,27 @@
 import { Tool } from '../types';
+import { ConfigureOTEL } from './configure-otel';
+import { ExportHar } from './export-har';
 import { GetConsoleMessages } from './get-console-messages';
+import { GetHttpRequestBody } from './get-http-request-body';
 import { GetHttpRequests } from './get-http-requests';
+import { GetSpans } from './get-spans';
+import { GetSseEvents } from './get-sse-events';
 import { GetTraceId } from './get-trace-id';
+import { GetWebSocketFrames } from './get-websocket-frames';
 import { GetWebVitals } from './get-web-vitals';
 import { NewTraceId } from './new-trace-id';
 import { SetTraceId } from './set-trace-id';
 
 export const tools: Tool[] = [
+    new ConfigureOTEL(),
+    new ExportHar(),
     new GetConsoleMessages(),
+    new GetHttpRequestBody(),
     new GetHttpRequests(),
+    new GetSpans(),
+    new GetSseEvents(),
     new GetTraceId(),
+    new GetWebSocketFrames(),
     new GetWebVitals(),
     new NewTraceId(),
     new SetTraceId(),
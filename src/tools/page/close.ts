@@ -0,0 +1,73 @@
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface CloseInput extends ToolInput {
+    pageId?: string;
+}
+
+export interface CloseOutput extends ToolOutput {
+    closedPageId: string;
+    activePageId?: string;
+}
+
+export class Close implements Tool {
+    name(): string {
+        return 'page_close';
+    }
+
+    description(): string {
+        return `
+Closes a page of the current session.
+
+- If pageId is provided, closes that page.
+- If pageId is omitted, closes the active page.
+- If the active page is closed, the most recently opened remaining page becomes active.
+- The last open page of the session cannot be closed.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            pageId: z
+                .string()
+                .describe(
+                    'Id of the page (as listed by "page_list") to close. Omit to close the active page.'
+                )
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            closedPageId: z.string().describe('Id of the closed page.'),
+            activePageId: z
+                .string()
+                .describe('Id of the active page after closing.')
+                .optional(),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: CloseInput
+    ): Promise<CloseOutput> {
+        const pageId: string | undefined =
+            args.pageId ?? context.getActivePageId();
+        if (!pageId) {
+            throw new Error('There is no active page to close');
+        }
+        await context.closePage(pageId);
+        return {
+            closedPageId: pageId,
+            activePageId: context.getActivePageId(),
+        };
+    }
+}
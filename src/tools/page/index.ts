@@ -0,0 +1,14 @@
+import { Tool } from '../types';
+import { Close } from './close';
+import { List } from './list';
+import { ListFrames } from './list-frames';
+import { New } from './new';
+import { Switch } from './switch';
+
+export const tools: Tool[] = [
+    new Close(),
+    new List(),
+    new ListFrames(),
+    new New(),
+    new Switch(),
+];
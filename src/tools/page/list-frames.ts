@@ -0,0 +1,89 @@
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import type { Frame } from 'playwright';
+import { z } from 'zod';
+
+export interface ListFramesInput extends ToolInput {}
+
+type FrameNode = {
+    name: string;
+    url: string;
+    detached: boolean;
+    children: FrameNode[];
+};
+
+export interface ListFramesOutput extends ToolOutput {
+    frame: FrameNode;
+}
+
+function _toFrameNode(frame: Frame): FrameNode {
+    return {
+        name: frame.name(),
+        url: frame.url(),
+        detached: frame.isDetached(),
+        children: frame.childFrames().map(_toFrameNode),
+    };
+}
+
+export class ListFrames implements Tool {
+    name(): string {
+        return 'page_list-frames';
+    }
+
+    description(): string {
+        return `
+Lists the frame tree (main frame and nested iframes) of the active page with URLs and names.
+
+Use it to build the "frame" parameter of selector-based tools:
+- "name" matches the frame name (or id)
+- "url" is a glob pattern matched against the frame URL
+- "selectors" is a chain of iframe element selectors from the main frame
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {};
+    }
+
+    outputSchema(): ToolOutputSchema {
+        const frameNodeSchema: z.ZodType<FrameNode> = z.lazy(() =>
+            z
+                .object({
+                    name: z
+                        .string()
+                        .describe(
+                            'Name (or id) of the frame. Empty for the main frame and unnamed frames.'
+                        ),
+                    url: z.string().describe('URL of the frame.'),
+                    detached: z
+                        .boolean()
+                        .describe('Whether the frame has been detached.'),
+                    children: z
+                        .array(frameNodeSchema)
+                        .describe('Child frames of the frame.'),
+                })
+                .describe('Frame item.')
+        );
+        return {
+            frame: frameNodeSchema.describe(
+                'Main frame of the page with its descendant frames.'
+            ),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: ListFramesInput
+    ): Promise<ListFramesOutput> {
+        return {
+            frame: _toFrameNode(context.page.mainFrame()),
+        };
+    }
+}
@@ -0,0 +1,101 @@
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import type { Page } from 'playwright';
+import { z } from 'zod';
+
+export interface ListInput extends ToolInput {}
+
+export interface ListOutput extends ToolOutput {
+    pages: Array<{
+        pageId: string;
+        url: string;
+        title: string;
+        active: boolean;
+        openerPageId?: string;
+    }>;
+}
+
+export class List implements Tool {
+    name(): string {
+        return 'page_list';
+    }
+
+    description(): string {
+        return `
+Lists all open pages (tabs and popups) of the current session.
+
+Notes:
+- Pages opened by the page itself (OAuth popups, "target=_blank" links, "window.open") are tracked automatically.
+- All page-scoped tools (navigation, interaction, content, ...) act on the ACTIVE page.
+- Use "page_switch" to change the active page.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {};
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            pages: z
+                .array(
+                    z
+                        .object({
+                            pageId: z.string().describe('Id of the page.'),
+                            url: z
+                                .string()
+                                .describe('Current URL of the page.'),
+                            title: z
+                                .string()
+                                .describe('Current title of the page.'),
+                            active: z
+                                .boolean()
+                                .describe(
+                                    'Whether the page is the active page of the session.'
+                                ),
+                            openerPageId: z
+                                .string()
+                                .describe(
+                                    'Id of the page which opened this page (for popups), if any.'
+                                )
+                                .optional(),
+                        })
+                        .describe('Page item.')
+                )
+                .describe('Open pages of the session.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: ListInput
+    ): Promise<ListOutput> {
+        const activePageId: string | undefined = context.getActivePageId();
+        const pages: ListOutput['pages'] = [];
+
+        for (const sessionPage of context.getPages()) {
+            const page: Page = sessionPage.page;
+            const opener: Page | null = await page
+                .opener()
+                .catch((): null => null);
+            pages.push({
+                pageId: sessionPage.pageId,
+                url: page.url(),
+                title: await page.title().catch((): string => ''),
+                active: sessionPage.pageId === activePageId,
+                openerPageId: opener ? context.getPageId(opener) : undefined,
+            });
+        }
+
+        return {
+            pages,
+        };
+    }
+}
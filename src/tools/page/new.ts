@@ -0,0 +1,77 @@
+import { SessionPage, ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface NewInput extends ToolInput {
+    url?: string;
+    activate: boolean;
+}
+
+export interface NewOutput extends ToolOutput {
+    pageId: string;
+    url: string;
+    active: boolean;
+}
+
+export class New implements Tool {
+    name(): string {
+        return 'page_new';
+    }
+
+    description(): string {
+        return `
+Opens a new page (tab) in the current session and optionally navigates it to the given URL.
+By default, the new page becomes the active page, so subsequent page-scoped tools act on it.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            url: z
+                .string()
+                .describe(
+                    'URL to navigate the new page to. The url should include scheme, e.g. `http://`, `https://`.'
+                )
+                .optional(),
+            activate: z
+                .boolean()
+                .describe(
+                    'Whether to make the new page the active page of the session.'
+                )
+                .optional()
+                .default(true),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            pageId: z.string().describe('Id of the new page.'),
+            url: z.string().describe('Current URL of the new page.'),
+            active: z
+                .boolean()
+                .describe('Whether the new page is the active page.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: NewInput
+    ): Promise<NewOutput> {
+        const sessionPage: SessionPage = await context.newPage(args.activate);
+        if (args.url) {
+            await sessionPage.page.goto(args.url);
+        }
+        return {
+            pageId: sessionPage.pageId,
+            url: sessionPage.page.url(),
+            active: context.getActivePageId() === sessionPage.pageId,
+        };
+    }
+}
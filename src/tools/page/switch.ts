@@ -0,0 +1,72 @@
+import { SessionPage, ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface SwitchInput extends ToolInput {
+    pageId: string;
+    bringToFront: boolean;
+}
+
+export interface SwitchOutput extends ToolOutput {
+    pageId: string;
+    url: string;
+    title: string;
+}
+
+export class Switch implements Tool {
+    name(): string {
+        return 'page_switch';
+    }
+
+    description(): string {
+        return `
+Switches the active page of the current session.
+Subsequent page-scoped tools (navigation, interaction, content, ...) act on the switched page.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            pageId: z
+                .string()
+                .describe('Id of the page (as listed by "page_list").'),
+            bringToFront: z
+                .boolean()
+                .describe(
+                    'Whether to bring the page to front (activate the browser tab).'
+                )
+                .optional()
+                .default(true),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            pageId: z.string().describe('Id of the active page.'),
+            url: z.string().describe('Current URL of the active page.'),
+            title: z.string().describe('Current title of the active page.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: SwitchInput
+    ): Promise<SwitchOutput> {
+        const sessionPage: SessionPage = context.switchPage(args.pageId);
+        if (args.bringToFront) {
+            await sessionPage.page.bringToFront();
+        }
+        return {
+            pageId: sessionPage.pageId,
+            url: sessionPage.page.url(),
+            title: await sessionPage.page.title(),
+        };
+    }
+}
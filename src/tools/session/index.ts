@@ -0,0 +1,5 @@
+import { Tool } from '../types';
+import { LoadStorageState } from './load-storage-state';
+import { SaveStorageState } from './save-storage-state';
+
+export const tools: Tool[] = [new LoadStorageState(), new SaveStorageState()];
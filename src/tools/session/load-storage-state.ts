@@ -0,0 +1,82 @@
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface LoadStorageStateInput extends ToolInput {
+    name: string;
+}
+
+export interface LoadStorageStateOutput extends ToolOutput {
+    name: string;
+    filePath: string;
+    cookieCount: number;
+    originCount: number;
+    skippedIndexedDBRecordCount: number;
+}
+
+export class LoadStorageState implements Tool {
+    name(): string {
+        return 'session_load-storage-state';
+    }
+
+    description(): string {
+        return `
+Loads a storage state previously saved by "session_save-storage-state" tool into the current session.
+
+- Cookies are added to the browser context.
+- localStorage of each saved origin is replaced with the saved items.
+- IndexedDB databases of each saved origin are recreated with the saved stores, indexes and records.
+  Records with values which are not plain JSON (Date, Map, typed arrays, ...) are skipped and reported.
+
+Already open pages are not reloaded; navigate or reload them to pick up the restored state.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            name: z.string().describe('Name of the storage state to load.'),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            name: z.string().describe('Name of the loaded storage state.'),
+            filePath: z
+                .string()
+                .describe('Path of the file the storage state is read from.'),
+            cookieCount: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe('Number of restored cookies.'),
+            originCount: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe(
+                    'Number of origins whose localStorage/IndexedDB is restored.'
+                ),
+            skippedIndexedDBRecordCount: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe(
+                    'Number of IndexedDB records skipped because their values could not be restored.'
+                ),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: LoadStorageStateInput
+    ): Promise<LoadStorageStateOutput> {
+        return await context.loadStorageState(args.name);
+    }
+}
@@ -0,0 +1,95 @@
+import { saveStorageState, StorageStateInfo } from '../../browser';
+import { ToolSessionContext } from '../../context';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface SaveStorageStateInput extends ToolInput {
+    name: string;
+    indexedDB?: boolean;
+}
+
+export interface SaveStorageStateOutput extends ToolOutput {
+    name: string;
+    filePath: string;
+    cookieCount: number;
+    originCount: number;
+}
+
+export class SaveStorageState implements Tool {
+    name(): string {
+        return 'session_save-storage-state';
+    }
+
+    description(): string {
+        return `
+Saves the storage state of the current session (cookies, localStorage and optionally IndexedDB of all origins)
+into a named storage state file.
+
+Use it to persist a logged-in state once and reuse it later
+by "session_load-storage-state" tool or by creating a new session with the saved storage state name.
+Saving with an existing name overwrites the previous storage state.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            name: z
+                .string()
+                .describe(
+                    'Name of the storage state. Only letters, digits, ".", "_" and "-" are allowed.'
+                ),
+            indexedDB: z
+                .boolean()
+                .optional()
+                .default(true)
+                .describe('Whether to include IndexedDB contents.'),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            name: z.string().describe('Name of the saved storage state.'),
+            filePath: z
+                .string()
+                .describe('Path of the file the storage state is written to.'),
+            cookieCount: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe('Number of saved cookies.'),
+            originCount: z
+                .number()
+                .int()
+                .nonnegative()
+                .describe(
+                    'Number of origins whose localStorage/IndexedDB is saved.'
+                ),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: SaveStorageStateInput
+    ): Promise<SaveStorageStateOutput> {
+        const info: StorageStateInfo = await saveStorageState(
+            context.browserContext,
+            args.name,
+            {
+                indexedDB: args.indexedDB,
+            }
+        );
+        return {
+            name: info.name,
+            filePath: info.filePath,
+            cookieCount: info.cookieCount,
+            originCount: info.originCount,
+        };
+    }
+}
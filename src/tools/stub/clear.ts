@@ -28,7 +28,8 @@ export class Clear implements Tool {
 Clears stubs installed.
 
 - If stubId is provided, clears only that stub.
-- If stubId is omitted, clears all stubs for the current session/context.
+- If stubId is omitted, clears all stubs for the current session/context
+  and resets the named scenario states.
         `.trim();
     }
 
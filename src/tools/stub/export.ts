@@ -0,0 +1,126 @@
+import { ToolSessionContext } from '../../context';
+import { AnyStub, listStubs } from './stub-controller';
+import { STUB_FILE_VERSION, StubFileFormat, writeStubFile } from './stub-file';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+import {
+    createEnumTransformer,
+    formattedTimeForFilename,
+    getEnumKeyTuples,
+} from '../../utils';
+
+import os from 'os';
+import path from 'path';
+
+import { z } from 'zod';
+
+const DEFAULT_NAME: string = 'stubs';
+const DEFAULT_FORMAT: StubFileFormat = StubFileFormat.JSON;
+
+export interface ExportInput extends ToolInput {
+    outputPath: string;
+    name?: string;
+    format?: StubFileFormat;
+    stubIds?: string[];
+}
+
+export interface ExportOutput extends ToolOutput {
+    filePath: string;
+    version: number;
+    stubCount: number;
+}
+
+export class Export implements Tool {
+    name(): string {
+        return 'stub_export';
+    }
+
+    description(): string {
+        return `
+Exports the installed stubs of the session into a versioned JSON or YAML stub file,
+so the same stubs can be installed later by "stub_import" (or preloaded when a session is created).
+
+Notes:
+- All stub kinds are exported with their configuration; matchers are stored as their source patterns.
+- Runtime state (usage counts, current scenario steps, scenario states) is not exported.
+- HAR replay stubs are exported with the path of their HAR file (entries are loaded again on import).
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            outputPath: z
+                .string()
+                .describe(
+                    'Directory path where the stub file will be saved. By default OS tmp directory is used.'
+                )
+                .optional()
+                .default(os.tmpdir()),
+            name: z
+                .string()
+                .describe(
+                    `Name of the export. Default value is "${DEFAULT_NAME}". ` +
+                        'Note that final saved/exported file name is in the "{name}-{time}.{format}" format ' +
+                        'in which "{time}" is in the "YYYYMMDD-HHmmss" format.'
+                )
+                .optional()
+                .default(DEFAULT_NAME),
+            format: z
+                .enum(getEnumKeyTuples(StubFileFormat))
+                .transform(createEnumTransformer(StubFileFormat))
+                .describe(
+                    `Format of the stub file. Valid values are: ${getEnumKeyTuples(StubFileFormat)}`
+                )
+                .optional()
+                .default(DEFAULT_FORMAT),
+            stubIds: z
+                .array(z.string())
+                .describe('Ids of the stubs to export. Omit to export all.')
+                .optional(),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            filePath: z.string().describe('Full path of the saved stub file.'),
+            version: z.number().int().describe('Version of the stub file.'),
+            stubCount: z.number().int().describe('Count of exported stubs.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: ExportInput
+    ): Promise<ExportOutput> {
+        let stubs: Array<AnyStub> = listStubs(context.browserContext);
+        if (args.stubIds?.length) {
+            const unknownStubIds: string[] = args.stubIds.filter(
+                (stubId: string): boolean =>
+                    !stubs.some((s: AnyStub): boolean => s.id === stubId)
+            );
+            if (unknownStubIds.length > 0) {
+                throw new Error(
+                    `No stub found with id(s): ${unknownStubIds.join(', ')}`
+                );
+            }
+            stubs = stubs.filter((s: AnyStub): boolean =>
+                args.stubIds!.includes(s.id)
+            );
+        }
+
+        const filename: string = `${args.name || DEFAULT_NAME}-${formattedTimeForFilename()}.${args.format || DEFAULT_FORMAT}`;
+        const filePath: string = path.resolve(args.outputPath, filename);
+        await writeStubFile(filePath, stubs);
+
+        return {
+            filePath,
+            version: STUB_FILE_VERSION,
+            stubCount: stubs.length,
+        };
+    }
+}
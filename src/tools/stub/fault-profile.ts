@@ -0,0 +1,208 @@
+import { ToolSessionContext } from '../../context';
+import {
+    addFaultProfileStub,
+    ensureRoutingInstalled,
+    faultsSchema,
+    getFaultProfile,
+    normalizeFaultLatency,
+    normalizeTimesPublic,
+    StubFaultLatency,
+    StubFaultProfile,
+    StubFaultType,
+    StubKind,
+} from './stub-controller';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface FaultProfileInput extends ToolInput {
+    name: string;
+    patterns?: Array<string>;
+
+    errors?: StubFaultProfile['errors'];
+    latency?: StubFaultLatency;
+    resets?: StubFaultProfile['resets'];
+    truncation?: StubFaultProfile['truncation'];
+    bodyTransferDelay?: StubFaultProfile['bodyTransferDelay'];
+
+    times?: number;
+}
+
+export interface FaultProfileOutput extends ToolOutput {
+    stubId: string;
+    kind: StubKind.FAULT_PROFILE;
+    name: string;
+    patterns: Array<string>;
+    enabled: boolean;
+
+    times: number;
+    requestCount: number;
+    faultCounts: Record<StubFaultType, number>;
+}
+
+export class FaultProfile implements Tool {
+    name(): string {
+        return 'stub_fault-profile';
+    }
+
+    description(): string {
+        return `
+Installs a named fault injection profile (for chaos testing) for the requests whose URL matches any of the patterns,
+or reports how many faults have been injected by the installed profile.
+
+Faults (each one is applied by its own rate, per request):
+- errors: responds with a random error status (500, 502, 503 or 504 by default)
+- latency: delays the request by a latency drawn from a distribution
+  ("fixed", "uniform", "normal" or "spike" for p99 spikes)
+- resets: aborts the request like a connection reset
+- truncation: cuts the response body
+- bodyTransferDelay: delays the response body by the time it would take to transfer it at the given rate,
+  then delivers it in one piece (it is not streamed)
+
+Use cases:
+- Check how the page behaves with a flaky/slow backend in one call
+- Verify retries, timeouts, error states and loading states
+
+Notes:
+- patterns are globs matched against the full request URL (picomatch).
+- Installing a profile replaces the installed profile with the same name (and resets its counters).
+- Call with only the name to get the fault counts of the installed profile without changing it.
+  Counts are also listed by "stub_list".
+- Latency, resets and errors are also applied to the requests served by the other stubs,
+  but truncation and bodyTransferDelay only to the responses from the network.
+- times limits how many requests the profile applies to (-1 means infinite).
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            name: z
+                .string()
+                .min(1)
+                .describe(
+                    'Name of the profile. Installing replaces the installed profile with the same name.'
+                ),
+            patterns: z
+                .array(z.string().min(1))
+                .min(1)
+                .optional()
+                .describe(
+                    'Glob patterns matched against the full request URL (picomatch). ' +
+                        'Omit to only report the fault counts of the installed profile.'
+                ),
+            ...faultsSchema(),
+            times: z
+                .number()
+                .int()
+                .optional()
+                .describe(
+                    'Apply only to N requests, then let through. Omit for infinite.'
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            stubId: z
+                .string()
+                .describe(
+                    'Unique id of the installed profile (use it to clear later).'
+                ),
+            kind: z.literal(StubKind.FAULT_PROFILE).describe('Stub kind.'),
+            name: z.string().describe('Name of the profile.'),
+            patterns: z.array(z.string()).describe('Glob patterns.'),
+            enabled: z.boolean().describe('Whether the profile is enabled.'),
+            times: z
+                .number()
+                .int()
+                .describe('Max requests (-1 means infinite).'),
+            requestCount: z
+                .number()
+                .int()
+                .describe('Count of the requests the profile has applied to.'),
+            faultCounts: z
+                .object({
+                    error: z
+                        .number()
+                        .int()
+                        .describe('Count of the injected error responses.'),
+                    latency: z
+                        .number()
+                        .int()
+                        .describe('Count of the delayed requests.'),
+                    reset: z
+                        .number()
+                        .int()
+                        .describe('Count of the injected connection resets.'),
+                    truncation: z
+                        .number()
+                        .int()
+                        .describe('Count of the truncated response bodies.'),
+                    bodyTransferDelay: z
+                        .number()
+                        .int()
+                        .describe('Count of the delayed response bodies.'),
+                })
+                .describe('Count of the injected faults by type.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: FaultProfileInput
+    ): Promise<FaultProfileOutput> {
+        let profile: StubFaultProfile | undefined;
+        if (!args.patterns) {
+            if (
+                args.errors ||
+                args.latency ||
+                args.resets ||
+                args.truncation ||
+                args.bodyTransferDelay
+            ) {
+                throw new Error('Faults require "patterns"');
+            }
+            profile = getFaultProfile(context.browserContext, args.name);
+            if (!profile) {
+                throw new Error(
+                    `No fault profile found with name ${args.name}`
+                );
+            }
+        } else {
+            const latency: StubFaultLatency | undefined = normalizeFaultLatency(
+                args.latency
+            );
+
+            await ensureRoutingInstalled(context.browserContext);
+
+            profile = addFaultProfileStub(context.browserContext, {
+                enabled: true,
+                name: args.name,
+                patterns: args.patterns,
+                errors: args.errors,
+                latency,
+                resets: args.resets,
+                truncation: args.truncation,
+                bodyTransferDelay: args.bodyTransferDelay,
+                times: normalizeTimesPublic(args.times),
+            });
+        }
+
+        return {
+            stubId: profile.id,
+            kind: StubKind.FAULT_PROFILE,
+            name: profile.name,
+            patterns: profile.patterns,
+            enabled: profile.enabled,
+            times: profile.times,
+            requestCount: profile.usedCount,
+            faultCounts: { ...profile.faultCounts },
+        };
+    }
+}
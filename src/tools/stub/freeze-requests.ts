@@ -0,0 +1,280 @@
+import { ToolSessionContext } from '../../context';
+import { HttpRequest, HttpResourceType } from '../../types';
+import {
+    addMockHttpResponseStub,
+    ensureRoutingInstalled,
+    normalizeRecordedResponseHeaders,
+    normalizeTimesPublic,
+    StubMockHttpResponse,
+} from './stub-controller';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+import {
+    createEnumTransformer,
+    getEnumKeyTuples,
+    isTextContentType,
+} from '../../utils';
+
+import picomatch from 'picomatch';
+import { z } from 'zod';
+
+export interface FreezeRequestsInput extends ToolInput {
+    urlPattern?: string;
+    resourceType?: HttpResourceType;
+    status?: {
+        min?: number;
+        max?: number;
+    };
+    ok?: boolean;
+    pageId?: string;
+    times?: number;
+}
+
+export interface FreezeRequestsOutput extends ToolOutput {
+    stubs: Array<{
+        stubId: string;
+        pattern: string;
+        url: string;
+        status: number;
+        sequenceNumber: number;
+    }>;
+    skipped: Array<{
+        url: string;
+        reason: string;
+    }>;
+}
+
+/**
+ * Converts the URL into a glob pattern which matches only the URL itself.
+ */
+function _toExactPattern(url: string): string {
+    return url.replace(/[\\*?[\]{}()!+@|]/g, '\\$&');
+}
+
+export class FreezeRequests implements Tool {
+    name(): string {
+        return 'stub_freeze-requests';
+    }
+
+    description(): string {
+        return `
+Freezes captured HTTP responses: installs response stubs (as "stub_mock-http-response" does)
+from the HTTP requests of the session, keeping their original status, headers and body.
+So an observed (e.g. flaky or intermittent) backend response is served again on the next reload.
+
+Notes:
+- Requests to freeze are selected by the filters (similar to "o11y_get-http-requests").
+- Each stub matches the exact URL and method of the captured request.
+- If the same request was captured multiple times, the latest response is frozen.
+- Requests without response (failed) or with binary response body are skipped.
+- Use "stub_list" and "stub_clear" to inspect and remove the installed stubs.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            urlPattern: z
+                .string()
+                .optional()
+                .describe(
+                    'Glob pattern (picomatch) matched against the full URL of the HTTP requests to freeze (e.g. "**/api/**").'
+                ),
+            resourceType: z
+                .enum(getEnumKeyTuples(HttpResourceType))
+                .transform(createEnumTransformer(HttpResourceType))
+                .optional()
+                .describe(
+                    `Resource type of the HTTP requests to freeze. Valid values are: ${getEnumKeyTuples(HttpResourceType)}.`
+                ),
+            status: z
+                .object({
+                    min: z
+                        .number()
+                        .int()
+                        .positive()
+                        .optional()
+                        .describe(
+                            'Minimum status code of the HTTP requests to freeze.'
+                        ),
+                    max: z
+                        .number()
+                        .int()
+                        .positive()
+                        .optional()
+                        .describe(
+                            'Maximum status code of the HTTP requests to freeze.'
+                        ),
+                })
+                .optional()
+                .describe('Status code of the HTTP requests to freeze.'),
+            ok: z
+                .boolean()
+                .optional()
+                .describe(
+                    'Whether to freeze only successful (2XX) or only non-successful HTTP responses.'
+                ),
+            pageId: z
+                .string()
+                .optional()
+                .describe(
+                    'Id of the page (as listed by "page_list") to freeze HTTP requests from. Omit to use all pages of the session.'
+                ),
+            times: z
+                .number()
+                .int()
+                .optional()
+                .describe(
+                    'Apply each stub only N times, then let through. Omit for infinite.'
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            stubs: z
+                .array(
+                    z.object({
+                        stubId: z
+                            .string()
+                            .describe('Id of the installed stub.'),
+                        pattern: z
+                            .string()
+                            .describe(
+                                'Glob pattern of the stub (matching the exact URL).'
+                            ),
+                        url: z.string().describe('Frozen request URL.'),
+                        status: z
+                            .number()
+                            .int()
+                            .describe('Frozen response status.'),
+                        sequenceNumber: z
+                            .number()
+                            .int()
+                            .describe(
+                                'Sequence number of the frozen HTTP request.'
+                            ),
+                    })
+                )
+                .describe('Installed stubs.'),
+            skipped: z
+                .array(
+                    z.object({
+                        url: z.string().describe('Request URL.'),
+                        reason: z.string().describe('Why it was skipped.'),
+                    })
+                )
+                .describe('Matching HTTP requests which could not be frozen.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: FreezeRequestsInput
+    ): Promise<FreezeRequestsOutput> {
+        const urlMatcher: ((url: string) => boolean) | undefined =
+            args.urlPattern
+                ? picomatch(args.urlPattern.trim(), { dot: true })
+                : undefined;
+
+        // Latest captured request wins for the same method and URL
+        const requestsByKey: Map<string, HttpRequest> = new Map();
+        for (const req of context.getHttpRequests()) {
+            if (urlMatcher && !urlMatcher(req.url)) {
+                continue;
+            }
+            if (args.resourceType && req.resourceType !== args.resourceType) {
+                continue;
+            }
+            if (args.status?.min || args.status?.max) {
+                if (!req.response) {
+                    continue;
+                }
+                if (args.status.min && req.response.status < args.status.min) {
+                    continue;
+                }
+                if (args.status.max && req.response.status > args.status.max) {
+                    continue;
+                }
+            }
+            if (args.ok !== undefined && req.ok !== args.ok) {
+                continue;
+            }
+            if (args.pageId && req.pageId !== args.pageId) {
+                continue;
+            }
+            const key: string = `${req.method} ${req.url}`;
+            requestsByKey.delete(key);
+            requestsByKey.set(key, req);
+        }
+
+        const stubs: FreezeRequestsOutput['stubs'] = [];
+        const skipped: FreezeRequestsOutput['skipped'] = [];
+
+        const times: number = normalizeTimesPublic(args.times);
+        for (const capturedReq of requestsByKey.values()) {
+            // Captured bodies might be truncated, so the full ones are frozen
+            const req: HttpRequest =
+                context.withFullHttpRequestBodies(capturedReq);
+            if (!req.response) {
+                skipped.push({
+                    url: req.url,
+                    reason: `No response${req.failure ? ` (${req.failure})` : ''}`,
+                });
+                continue;
+            }
+            if (
+                req.response.body &&
+                !isTextContentType(req.response.headers['content-type'])
+            ) {
+                skipped.push({
+                    url: req.url,
+                    reason: `Binary response body (${req.response.headers['content-type']})`,
+                });
+                continue;
+            }
+            if (req.response.truncated) {
+                skipped.push({
+                    url: req.url,
+                    reason: 'Full response body is not available anymore',
+                });
+                continue;
+            }
+
+            await ensureRoutingInstalled(context.browserContext);
+
+            const stub: StubMockHttpResponse = addMockHttpResponseStub(
+                context.browserContext,
+                {
+                    enabled: true,
+                    pattern: _toExactPattern(req.url),
+                    match: { method: req.method },
+                    action: 'fulfill',
+                    status: req.response.status,
+                    headers: normalizeRecordedResponseHeaders(
+                        req.response.headers
+                    ),
+                    body: req.response.body ?? '',
+                    delayMs: 0,
+                    times,
+                }
+            );
+            stubs.push({
+                stubId: stub.id,
+                pattern: stub.pattern,
+                url: req.url,
+                status: req.response.status,
+                sequenceNumber: req.sequenceNumber,
+            });
+        }
+
+        return {
+            stubs,
+            skipped,
+        };
+    }
+}
@@ -0,0 +1,114 @@
+import { ToolSessionContext } from '../../context';
+import { AnyStub, getStubPattern, listStubs } from './stub-controller';
+import { importStubFile } from './stub-file';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import path from 'path';
+
+import { z } from 'zod';
+
+export interface ImportInput extends ToolInput {
+    filePath: string;
+    replace?: boolean;
+}
+
+export interface ImportOutput extends ToolOutput {
+    filePath: string;
+    clearedCount: number;
+    stubs: Array<{
+        stubId: string;
+        kind: string;
+        pattern: string;
+    }>;
+}
+
+export class Import implements Tool {
+    name(): string {
+        return 'stub_import';
+    }
+
+    description(): string {
+        return `
+Installs the stubs from a stub file exported by "stub_export".
+Stub files with a ".yaml" or ".yml" extension are read as YAML, others as JSON.
+
+Notes:
+- The whole file is validated first, so no stub is installed if any of them is invalid.
+- Relative HAR and body file paths in the stub file are resolved relative to the stub file.
+- Imported stubs are added after the installed ones (stubs are evaluated in insertion order),
+  unless replace=true which removes the installed stubs (once the file is validated).
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            filePath: z
+                .string()
+                .describe(
+                    'Path of the stub file (JSON, or YAML with a ".yaml" or ".yml" extension) to import.'
+                ),
+            replace: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe(
+                    'Whether to remove the installed stubs (and reset scenario states) before importing.'
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            filePath: z
+                .string()
+                .describe('Full path of the imported stub file.'),
+            clearedCount: z
+                .number()
+                .int()
+                .describe('Number of stubs removed before importing.'),
+            stubs: z
+                .array(
+                    z.object({
+                        stubId: z
+                            .string()
+                            .describe('Id of the installed stub.'),
+                        kind: z.string().describe('Stub kind.'),
+                        pattern: z.string().describe('Glob pattern.'),
+                    })
+                )
+                .describe('Installed stubs.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: ImportInput
+    ): Promise<ImportOutput> {
+        const filePath: string = path.resolve(args.filePath);
+
+        const clearedCount: number = args.replace
+            ? listStubs(context.browserContext).length
+            : 0;
+        const stubs: Array<AnyStub> = await importStubFile(
+            context.browserContext,
+            filePath,
+            args.replace === true
+        );
+
+        return {
+            filePath,
+            clearedCount,
+            stubs: stubs.map((s: AnyStub) => ({
+                stubId: s.id,
+                kind: s.kind,
+                pattern: getStubPattern(s),
+            })),
+        };
+    }
+}
@@ -1,12 +1,30 @@
 import { Tool } from '../types';
 import { Clear } from './clear';
+import { Export } from './export';
+import { FaultProfile } from './fault-profile';
+import { FreezeRequests } from './freeze-requests';
+import { Import } from './import';
 import { InterceptHttpRequest } from './intercept-http-request';
 import { List } from './list';
 import { MockHttpResponse } from './mock-http-response';
+import { MockHttpScenario } from './mock-http-scenario';
+import { MockSse } from './mock-sse';
+import { MockWebSocket } from './mock-websocket';
+import { ReplayHar } from './replay-har';
+import { SetScenarioState } from './set-scenario-state';
 
 export const tools: Tool[] = [
     new Clear(),
+    new Export(),
+    new FaultProfile(),
+    new FreezeRequests(),
+    new Import(),
     new InterceptHttpRequest(),
     new List(),
     new MockHttpResponse(),
+    new MockHttpScenario(),
+    new MockSse(),
+    new MockWebSocket(),
+    new ReplayHar(),
+    new SetScenarioState(),
 ];
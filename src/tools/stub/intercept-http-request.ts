@@ -16,13 +16,24 @@ import {
     normalizeDelayMs,
     normalizeHeaders,
     normalizeMethod,
+    normalizeScenario,
     normalizeTimesPublic,
+    scenarioOutputSchema,
+    scenarioSchema,
     StubInterceptHttpRequest,
     StubKind,
+    StubScenario,
 } from './stub-controller';
+import {
+    normalizeRequestMatch,
+    requestMatchSchema,
+    StubRequestMatch,
+} from './request-matcher';
 
 export interface InterceptHttpRequestInput extends ToolInput {
     pattern: string;
+    match?: StubRequestMatch;
+    scenario?: StubScenario;
 
     modifications?: {
         headers?: Record<string, string>;
@@ -38,6 +49,8 @@ export interface InterceptHttpRequestOutput extends ToolOutput {
     stubId: string;
     kind: StubKind.INTERCEPT_HTTP_REQUEST;
     pattern: string;
+    match?: StubRequestMatch;
+    scenario?: StubScenario;
     enabled: boolean;
 
     delayMs: number;
@@ -61,7 +74,12 @@ Use cases:
 
 Notes:
 - pattern is a glob matched against the full request URL (picomatch).
+- match optionally narrows matching requests by method, resource type, headers, query parameters,
+  JSON body paths and GraphQL operation name/variables.
 - This modifies requests; it does not change responses.
+- scenario optionally binds the stub to a named scenario state (like WireMock scenarios):
+  it applies only in "requiredState" and moves the scenario to "newState" when applied
+  (scenarios start in "Started" state, see "stub_set-scenario-state").
 - times limits how many times the interceptor applies (-1 means infinite).
         `.trim();
     }
@@ -73,6 +91,8 @@ Notes:
                 .describe(
                     'Glob pattern matched against the full request URL (picomatch).'
                 ),
+            match: requestMatchSchema(),
+            scenario: scenarioSchema(),
             modifications: z
                 .object({
                     headers: z
@@ -123,6 +143,11 @@ Notes:
                 .literal(StubKind.INTERCEPT_HTTP_REQUEST)
                 .describe('Stub kind.'),
             pattern: z.string().describe('Glob pattern.'),
+            match: z
+                .record(z.string(), z.any())
+                .optional()
+                .describe('Additional request matching criteria (if any).'),
+            scenario: scenarioOutputSchema(),
             enabled: z.boolean().describe('Whether the stub is enabled.'),
             delayMs: z
                 .number()
@@ -159,6 +184,8 @@ Notes:
             {
                 enabled: true,
                 pattern: args.pattern,
+                match: normalizeRequestMatch(args.match),
+                scenario: normalizeScenario(args.scenario),
                 modifications: {
                     headers,
                     body,
@@ -173,6 +200,8 @@ Notes:
             stubId: stub.id,
             kind: StubKind.INTERCEPT_HTTP_REQUEST,
             pattern: stub.pattern,
+            match: stub.match,
+            scenario: stub.scenario,
             enabled: stub.enabled,
             delayMs: stub.delayMs,
             times: stub.times,
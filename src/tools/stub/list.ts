@@ -6,7 +6,21 @@ import {
     ToolOutput,
     ToolOutputSchema,
 } from '../types';
-import { listStubs, type AnyStub } from './stub-controller';
+import {
+    getScenarioStates,
+    getStubPattern,
+    listStubs,
+    scenarioOutputSchema,
+    type AnyStub,
+    type HarReplayEntry,
+    type StubBodyPath,
+    type StubFaultLatency,
+    type StubFaultType,
+    type StubScenario,
+    type StubWebSocketClose,
+} from './stub-controller';
+import { getRequestMatchFields, StubRequestMatch } from './request-matcher';
+import { StubResponseTemplate } from './response-template';
 
 import { z } from 'zod';
 
@@ -19,6 +33,9 @@ export interface ListOutput extends ToolOutput {
         enabled: boolean;
 
         pattern: string;
+        match?: StubRequestMatch;
+        matcherFields: string[];
+        scenario?: StubScenario;
 
         delayMs: number;
         times: number;
@@ -26,7 +43,36 @@ export interface ListOutput extends ToolOutput {
 
         action?: string;
         status?: number;
+        bodyPath?: StubBodyPath;
+        template?: StubResponseTemplate;
+
+        harPath?: string;
+        entryCount?: number;
+        usedEntryCount?: number;
+
+        currentStep?: number;
+        stepCount?: number;
+        loop?: boolean;
+
+        connectToServer?: boolean;
+        messageCount?: number;
+        replyCount?: number;
+        replacementCount?: number;
+        close?: StubWebSocketClose;
+
+        eventCount?: number;
+        keepOpen?: boolean;
+
+        name?: string;
+        patterns?: string[];
+        errors?: { rate: number; statuses?: number[] };
+        latency?: StubFaultLatency;
+        resets?: { rate: number; errorCode?: string };
+        truncation?: { rate: number; ratio?: number };
+        bodyTransferDelay?: { rate: number; bytesPerSecond: number };
+        faultCounts?: Record<StubFaultType, number>;
     }>;
+    scenarioStates: Record<string, string>;
 }
 
 export class List implements Tool {
@@ -38,6 +84,7 @@ export class List implements Tool {
         return `
 Lists currently installed stubs for the active browser context/session.
 Useful to debug why certain calls are being mocked/intercepted.
+Also returns the current states of the named scenarios (which have left their initial "Started" state).
         `.trim();
     }
 
@@ -53,6 +100,17 @@ Useful to debug why certain calls are being mocked/intercepted.
                     kind: z.string().describe('Stub kind.'),
                     enabled: z.boolean().describe('Whether stub is enabled.'),
                     pattern: z.string().describe('Glob pattern (picomatch).'),
+                    match: z
+                        .record(z.string(), z.any())
+                        .optional()
+                        .describe(
+                            'Additional request matching criteria (method, resourceType, headers, query, jsonBody, graphql).'
+                        ),
+                    matcherFields: z
+                        .array(z.string())
+                        .describe(
+                            'Request fields the stub matches on (e.g. "url", "method", "headers.x-tenant", "graphql.operationName").'
+                        ),
                     delayMs: z
                         .number()
                         .int()
@@ -73,9 +131,193 @@ Useful to debug why certain calls are being mocked/intercepted.
                         .number()
                         .int()
                         .optional()
-                        .describe('For mock_response: HTTP status (if set).'),
+                        .describe(
+                            'For mock_response and mock_sse: HTTP status (if set).'
+                        ),
+                    bodyPath: z
+                        .object({
+                            path: z
+                                .string()
+                                .describe(
+                                    'Absolute path of the file or directory.'
+                                ),
+                            directory: z
+                                .boolean()
+                                .describe('Whether the path is a directory.'),
+                            urlPrefix: z
+                                .string()
+                                .optional()
+                                .describe(
+                                    'URL path prefix mapped to the directory.'
+                                ),
+                        })
+                        .optional()
+                        .describe(
+                            'For mock_response: local file or directory the body is served from (if any).'
+                        ),
+                    template: z
+                        .object({
+                            pathPattern: z
+                                .string()
+                                .optional()
+                                .describe(
+                                    'Path pattern of the path parameters.'
+                                ),
+                        })
+                        .optional()
+                        .describe(
+                            'For mock_response: templating options (if the response is templated).'
+                        ),
+                    harPath: z
+                        .string()
+                        .optional()
+                        .describe('For replay_har: path of the HAR file.'),
+                    entryCount: z
+                        .number()
+                        .int()
+                        .optional()
+                        .describe('For replay_har: count of the HAR entries.'),
+                    usedEntryCount: z
+                        .number()
+                        .int()
+                        .optional()
+                        .describe(
+                            'For replay_har: count of the HAR entries served at least once.'
+                        ),
+                    scenario: scenarioOutputSchema(),
+                    currentStep: z
+                        .number()
+                        .int()
+                        .optional()
+                        .describe(
+                            'For mock_http_scenario: index (0-based) of the step to serve next.'
+                        ),
+                    stepCount: z
+                        .number()
+                        .int()
+                        .optional()
+                        .describe(
+                            'For mock_http_scenario: count of the steps.'
+                        ),
+                    loop: z
+                        .boolean()
+                        .optional()
+                        .describe(
+                            'For mock_http_scenario: whether the steps start over after the last one.'
+                        ),
+                    connectToServer: z
+                        .boolean()
+                        .optional()
+                        .describe(
+                            'For mock_websocket: whether the connections are also made to the real server.'
+                        ),
+                    messageCount: z
+                        .number()
+                        .int()
+                        .optional()
+                        .describe(
+                            'For mock_websocket: count of the scripted server messages.'
+                        ),
+                    replyCount: z
+                        .number()
+                        .int()
+                        .optional()
+                        .describe('For mock_websocket: count of the replies.'),
+                    replacementCount: z
+                        .number()
+                        .int()
+                        .optional()
+                        .describe(
+                            'For mock_websocket: count of the frame replacements.'
+                        ),
+                    close: z
+                        .object({
+                            afterMs: z
+                                .number()
+                                .int()
+                                .describe(
+                                    'Delay in milliseconds after the connection is opened.'
+                                ),
+                            code: z
+                                .number()
+                                .int()
+                                .optional()
+                                .describe('Close code.'),
+                            reason: z
+                                .string()
+                                .optional()
+                                .describe('Close reason.'),
+                        })
+                        .optional()
+                        .describe(
+                            'For mock_websocket: when and how the connections are closed (if configured).'
+                        ),
+                    eventCount: z
+                        .number()
+                        .int()
+                        .optional()
+                        .describe(
+                            'For mock_sse: count of the scripted events.'
+                        ),
+                    keepOpen: z
+                        .boolean()
+                        .optional()
+                        .describe(
+                            'For mock_sse: whether the streams are kept open after the last event.'
+                        ),
+                    name: z
+                        .string()
+                        .optional()
+                        .describe('For fault_profile: name of the profile.'),
+                    patterns: z
+                        .array(z.string())
+                        .optional()
+                        .describe(
+                            'For fault_profile: glob patterns of the URLs the faults are injected into.'
+                        ),
+                    errors: z
+                        .record(z.string(), z.any())
+                        .optional()
+                        .describe(
+                            'For fault_profile: error responses (rate, statuses), if configured.'
+                        ),
+                    latency: z
+                        .record(z.string(), z.any())
+                        .optional()
+                        .describe(
+                            'For fault_profile: latency distribution and its parameters, if configured.'
+                        ),
+                    resets: z
+                        .record(z.string(), z.any())
+                        .optional()
+                        .describe(
+                            'For fault_profile: connection resets (rate, errorCode), if configured.'
+                        ),
+                    truncation: z
+                        .record(z.string(), z.any())
+                        .optional()
+                        .describe(
+                            'For fault_profile: truncated bodies (rate, ratio), if configured.'
+                        ),
+                    bodyTransferDelay: z
+                        .record(z.string(), z.any())
+                        .optional()
+                        .describe(
+                            'For fault_profile: delayed bodies (rate, bytesPerSecond), if configured.'
+                        ),
+                    faultCounts: z
+                        .record(z.string(), z.number().int())
+                        .optional()
+                        .describe(
+                            'For fault_profile: count of the injected faults by type (error, latency, reset, truncation, bodyTransferDelay).'
+                        ),
                 })
             ),
+            scenarioStates: z
+                .record(z.string(), z.string())
+                .describe(
+                    'Current states of the named scenarios by scenario name (scenarios not listed are in "Started" state).'
+                ),
         };
     }
 
@@ -91,21 +333,88 @@ Useful to debug why certain calls are being mocked/intercepted.
                     id: s.id,
                     kind: s.kind,
                     enabled: s.enabled,
-                    pattern: s.pattern,
-                    delayMs: s.delayMs,
+                    pattern: getStubPattern(s),
+                    matcherFields: ['url'],
+                    // Latency of the fault profiles is given by their latency distribution
+                    delayMs: s.kind === 'fault_profile' ? 0 : s.delayMs,
                     times: s.times,
                     usedCount: s.usedCount,
                 };
 
+                if (s.kind === 'replay_har') {
+                    base.matcherFields.push('method');
+                    if (s.matchBody) {
+                        base.matcherFields.push('body');
+                    }
+                } else if (
+                    s.kind !== 'mock_websocket' &&
+                    s.kind !== 'mock_sse' &&
+                    s.kind !== 'fault_profile'
+                ) {
+                    if (s.match) {
+                        base.match = s.match;
+                        base.matcherFields.push(
+                            ...getRequestMatchFields(s.match)
+                        );
+                    }
+                    if (s.scenario) {
+                        base.scenario = s.scenario;
+                    }
+                }
+
                 if (s.kind === 'mock_http_response') {
                     base.action = s.action;
                     if (typeof s.status === 'number') {
                         base.status = s.status;
                     }
+                    if (s.bodyPath) {
+                        base.bodyPath = s.bodyPath;
+                    }
+                    if (s.template) {
+                        base.template = s.template;
+                    }
+                } else if (s.kind === 'replay_har') {
+                    base.harPath = s.harPath;
+                    base.entryCount = s.entries.length;
+                    base.usedEntryCount = s.entries.filter(
+                        (e: HarReplayEntry): boolean => e.usedCount > 0
+                    ).length;
+                } else if (s.kind === 'mock_http_scenario') {
+                    base.currentStep = s.currentStep;
+                    base.stepCount = s.steps.length;
+                    base.loop = s.loop;
+                } else if (s.kind === 'mock_websocket') {
+                    base.connectToServer = s.connectToServer;
+                    base.messageCount = s.messages.length;
+                    base.replyCount = s.replies.length;
+                    base.replacementCount = s.replacements.length;
+                    if (s.close) {
+                        base.close = s.close;
+                    }
+                } else if (s.kind === 'mock_sse') {
+                    base.status = s.status;
+                    base.eventCount = s.events.length;
+                    base.keepOpen = s.keepOpen;
+                } else if (s.kind === 'fault_profile') {
+                    base.name = s.name;
+                    base.patterns = s.patterns;
+                    for (const fault of [
+                        'errors',
+                        'latency',
+                        'resets',
+                        'truncation',
+                        'bodyTransferDelay',
+                    ] as const) {
+                        if (s[fault]) {
+                            base[fault] = s[fault];
+                        }
+                    }
+                    base.faultCounts = s.faultCounts;
                 }
 
                 return base;
             }),
+            scenarioStates: getScenarioStates(context.browserContext),
         };
     }
 }
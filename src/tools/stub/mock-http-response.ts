@@ -4,13 +4,25 @@ import {
     ensureRoutingInstalled,
     normalizeAbortCode,
     normalizeBody,
+    normalizeBodyPath,
     normalizeChance,
     normalizeDelayMs,
     normalizeHeaders,
+    normalizeScenario,
     normalizeTimesPublic,
+    scenarioOutputSchema,
+    scenarioSchema,
     StubKind,
+    StubBodyPath,
     StubMockHttpResponse,
+    StubScenario,
 } from './stub-controller';
+import {
+    normalizeRequestMatch,
+    requestMatchSchema,
+    StubRequestMatch,
+} from './request-matcher';
+import { StubResponseTemplate, validateTemplate } from './response-template';
 import {
     Tool,
     ToolInput,
@@ -23,13 +35,19 @@ import { z } from 'zod';
 
 export interface MockHttpResponseInput extends ToolInput {
     pattern: string;
+    match?: StubRequestMatch;
+    scenario?: StubScenario;
 
     response: {
         action?: 'fulfill' | 'abort';
         status?: number;
         headers?: Record<string, string>;
         body?: string | object;
+        bodyPath?: string;
+        urlPrefix?: string;
         abortErrorCode?: string;
+        template?: boolean;
+        pathPattern?: string;
     };
 
     delayMs?: number;
@@ -41,6 +59,8 @@ export interface MockHttpResponseOutput extends ToolOutput {
     stubId: string;
     kind: StubKind.MOCK_HTTP_RESPONSE;
     pattern: string;
+    match?: StubRequestMatch;
+    scenario?: StubScenario;
     enabled: boolean;
 
     delayMs: number;
@@ -49,6 +69,8 @@ export interface MockHttpResponseOutput extends ToolOutput {
 
     action: 'fulfill' | 'abort';
     status?: number;
+    bodyPath?: StubBodyPath;
+    template?: StubResponseTemplate;
 }
 
 export class MockHttpResponse implements Tool {
@@ -69,8 +91,23 @@ Use cases:
 
 Notes:
 - pattern is a glob matched against the full request URL.
+- match optionally narrows matching requests by method, resource type, headers, query parameters,
+  JSON body paths and GraphQL operation name/variables (e.g. to mock "POST /graphql" per operation).
 - stubs are evaluated in insertion order; first match wins.
+- scenario optionally binds the stub to a named scenario state (like WireMock scenarios):
+  it applies only in "requiredState" and moves the scenario to "newState" when applied
+  (scenarios start in "Started" state, see "stub_set-scenario-state").
 - times limits how many times the stub applies (-1 means infinite).
+- response.bodyPath serves the body from a local file (e.g. a large JSON fixture or an image),
+  or from a directory mapped to response.urlPrefix (like a static file server, 404 for missing files).
+  Content type is inferred from the file extension, and files are read on each request.
+- If response.template=true, body and header values are rendered for each request with placeholders:
+  - "{{request.method}}", "{{request.url}}", "{{request.host}}", "{{request.path}}", "{{request.body}}"
+  - "{{request.pathParams.<name>}}" (named by response.pathPattern, e.g. "/api/users/:id")
+  - "{{request.query.<name>}}", "{{request.headers.<name>}}", "{{request.jsonBody.<path>}}" (e.g. "user.id")
+  - "{{uuid}}", "{{now}}" (ISO date), "{{now epoch}}" (epoch millis), "{{randomInt <min> <max>}}"
+  Objects are rendered as JSON, missing values as empty string. Bodies served from files are not templated.
+  If rendering fails for a request, the request is fulfilled with a 500 response explaining the failure.
         `.trim();
     }
 
@@ -81,6 +118,8 @@ Notes:
                 .describe(
                     'Glob pattern matched against the full request URL (picomatch).'
                 ),
+            match: requestMatchSchema(),
+            scenario: scenarioSchema(),
             response: z
                 .object({
                     action: z
@@ -113,12 +152,39 @@ Notes:
                         .describe(
                             'Response body. If object/array, it will be JSON-stringified.'
                         ),
+                    bodyPath: z
+                        .string()
+                        .optional()
+                        .describe(
+                            'Path of a local file to serve as the response body, or of a directory to serve files from ' +
+                                '(mapped to urlPrefix). Content type is inferred from the file extension. Cannot be used with body.'
+                        ),
+                    urlPrefix: z
+                        .string()
+                        .optional()
+                        .describe(
+                            'URL path prefix (e.g. "/static/") mapped to the bodyPath directory. Default "/".'
+                        ),
                     abortErrorCode: z
                         .string()
                         .optional()
                         .describe(
                             'Playwright abort error code (used when action=abort), e.g. "timedout".'
                         ),
+                    template: z
+                        .boolean()
+                        .optional()
+                        .default(false)
+                        .describe(
+                            'Render body and header values as templates with the request data ' +
+                                '(e.g. "{{request.pathParams.id}}", "{{request.headers.x-request-id}}", "{{uuid}}").'
+                        ),
+                    pathPattern: z
+                        .string()
+                        .optional()
+                        .describe(
+                            'Path pattern with named parameters (e.g. "/api/users/:id") to extract "request.pathParams" for templates. Matched against the whole request URL path.'
+                        ),
                 })
                 .describe('Mock response configuration.'),
             delayMs: z
@@ -156,6 +222,11 @@ Notes:
                 ),
             kind: z.literal(StubKind.MOCK_HTTP_RESPONSE).describe('Stub kind.'),
             pattern: z.string().describe('Glob pattern.'),
+            match: z
+                .record(z.string(), z.any())
+                .optional()
+                .describe('Additional request matching criteria (if any).'),
+            scenario: scenarioOutputSchema(),
             enabled: z.boolean().describe('Whether the stub is enabled.'),
             delayMs: z
                 .number()
@@ -175,6 +246,34 @@ Notes:
                 .int()
                 .optional()
                 .describe('HTTP status (present when action=fulfill).'),
+            bodyPath: z
+                .object({
+                    path: z
+                        .string()
+                        .describe('Absolute path of the file or directory.'),
+                    directory: z
+                        .boolean()
+                        .describe('Whether the path is a directory.'),
+                    urlPrefix: z
+                        .string()
+                        .optional()
+                        .describe('URL path prefix mapped to the directory.'),
+                })
+                .optional()
+                .describe(
+                    'Local file or directory the body is served from (if any).'
+                ),
+            template: z
+                .object({
+                    pathPattern: z
+                        .string()
+                        .optional()
+                        .describe('Path pattern of the path parameters.'),
+                })
+                .optional()
+                .describe(
+                    'Templating options (present when the response is templated).'
+                ),
         };
     }
 
@@ -199,16 +298,44 @@ Notes:
             args.response.abortErrorCode
         );
 
+        if (body !== undefined && args.response.bodyPath) {
+            throw new Error(
+                'Only one of "body" and "bodyPath" can be specified'
+            );
+        }
+        const bodyPath: StubBodyPath | undefined = await normalizeBodyPath(
+            args.response.bodyPath,
+            args.response.urlPrefix
+        );
+
+        let template: StubResponseTemplate | undefined;
+        if (args.response.template) {
+            for (const text of [body, ...Object.values(headers ?? {})]) {
+                if (text !== undefined) {
+                    validateTemplate(text);
+                }
+            }
+            template = args.response.pathPattern
+                ? { pathPattern: args.response.pathPattern }
+                : {};
+        } else if (args.response.pathPattern) {
+            throw new Error('"pathPattern" requires "template" to be enabled');
+        }
+
         const stub: StubMockHttpResponse = addMockHttpResponseStub(
             context.browserContext,
             {
                 enabled: true,
                 pattern: args.pattern,
+                match: normalizeRequestMatch(args.match),
+                scenario: normalizeScenario(args.scenario),
                 action,
                 status,
                 headers,
                 body,
+                bodyPath,
                 abortErrorCode,
+                template,
                 delayMs,
                 times,
                 chance,
@@ -219,6 +346,8 @@ Notes:
             stubId: stub.id,
             kind: StubKind.MOCK_HTTP_RESPONSE,
             pattern: stub.pattern,
+            match: stub.match,
+            scenario: stub.scenario,
             enabled: stub.enabled,
             delayMs: stub.delayMs,
             times: stub.times,
@@ -233,6 +362,14 @@ Notes:
             out.status = typeof stub.status === 'number' ? stub.status : 200;
         }
 
+        if (stub.bodyPath) {
+            out.bodyPath = stub.bodyPath;
+        }
+
+        if (stub.template) {
+            out.template = stub.template;
+        }
+
         return out;
     }
 }
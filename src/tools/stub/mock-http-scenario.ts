@@ -0,0 +1,280 @@
+import { ToolSessionContext } from '../../context';
+import {
+    addMockHttpScenarioStub,
+    ensureRoutingInstalled,
+    normalizeAbortCode,
+    normalizeBody,
+    normalizeDelayMs,
+    normalizeHeaders,
+    normalizeScenario,
+    normalizeTimesPublic,
+    scenarioOutputSchema,
+    scenarioSchema,
+    StubKind,
+    StubMockHttpScenario,
+    StubScenario,
+    StubScenarioStep,
+} from './stub-controller';
+import {
+    normalizeRequestMatch,
+    requestMatchSchema,
+    StubRequestMatch,
+} from './request-matcher';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface MockHttpScenarioInput extends ToolInput {
+    pattern: string;
+    match?: StubRequestMatch;
+    scenario?: StubScenario;
+
+    steps: Array<{
+        action?: 'fulfill' | 'abort';
+        status?: number;
+        headers?: Record<string, string>;
+        body?: string | object;
+        abortErrorCode?: string;
+        delayMs?: number;
+        newState?: string;
+    }>;
+    loop?: boolean;
+
+    delayMs?: number;
+    times?: number;
+}
+
+export interface MockHttpScenarioOutput extends ToolOutput {
+    stubId: string;
+    kind: StubKind.MOCK_HTTP_SCENARIO;
+    pattern: string;
+    match?: StubRequestMatch;
+    scenario?: StubScenario;
+    enabled: boolean;
+
+    stepCount: number;
+    loop: boolean;
+
+    delayMs: number;
+    times: number;
+}
+
+export class MockHttpScenario implements Tool {
+    name(): string {
+        return 'stub_mock-http-scenario';
+    }
+
+    description(): string {
+        return `
+Installs a response stub which serves an ordered list of responses (steps) for matching requests:
+the first matching request gets the first step, the second one gets the second step, and so on.
+
+Use cases:
+- Polling flows (e.g. "pending", "pending", then "done")
+- Retry logic (e.g. 503, 503, then 200)
+- Token expiry / refresh (e.g. 200, then 401)
+
+Notes:
+- pattern is a glob matched against the full request URL (picomatch).
+- match optionally narrows matching requests (same as in "stub_mock-http-response").
+- After the last step, the last step is served again, or the steps start over if loop=true.
+- delayMs of a step overrides the delay of the stub.
+- scenario optionally binds the stub to a named scenario state (like WireMock scenarios):
+  it applies only in "requiredState" and moves the scenario to "newState" when applied.
+  newState of a step overrides the one of the scenario, so steps can enable other stubs
+  bound to the same scenario.
+- "stub_list" shows the current step of the stub and the current scenario states.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            pattern: z
+                .string()
+                .describe(
+                    'Glob pattern matched against the full request URL (picomatch).'
+                ),
+            match: requestMatchSchema(),
+            scenario: scenarioSchema(),
+            steps: z
+                .array(
+                    z.object({
+                        action: z
+                            .enum(['fulfill', 'abort'])
+                            .optional()
+                            .default('fulfill')
+                            .describe(
+                                'Fulfill with a mocked response or abort the request.'
+                            ),
+                        status: z
+                            .number()
+                            .int()
+                            .min(100)
+                            .max(599)
+                            .optional()
+                            .describe(
+                                'HTTP status code (used when action=fulfill).'
+                            ),
+                        headers: z
+                            .record(z.string(), z.string())
+                            .optional()
+                            .describe('HTTP headers for the mocked response.'),
+                        body: z
+                            .union([
+                                z.string(),
+                                z.record(z.string(), z.any()),
+                                z.array(z.any()),
+                            ])
+                            .optional()
+                            .describe(
+                                'Response body. If object/array, it will be JSON-stringified.'
+                            ),
+                        abortErrorCode: z
+                            .string()
+                            .optional()
+                            .describe(
+                                'Playwright abort error code (used when action=abort), e.g. "timedout".'
+                            ),
+                        delayMs: z
+                            .number()
+                            .int()
+                            .nonnegative()
+                            .optional()
+                            .describe(
+                                'Artificial delay in milliseconds for this step (overrides delayMs of the stub).'
+                            ),
+                        newState: z
+                            .string()
+                            .optional()
+                            .describe(
+                                'Move the scenario of the stub to this state when this step is served (requires scenario).'
+                            ),
+                    })
+                )
+                .min(1)
+                .describe('Ordered responses to serve.'),
+            loop: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe(
+                    'Whether to start over after the last step. Otherwise, the last step is repeated.'
+                ),
+            delayMs: z
+                .number()
+                .int()
+                .nonnegative()
+                .optional()
+                .describe(
+                    'Artificial delay in milliseconds before serving each step.'
+                ),
+            times: z
+                .number()
+                .int()
+                .optional()
+                .describe(
+                    'Apply only N times, then let through. Omit for infinite.'
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            stubId: z
+                .string()
+                .describe(
+                    'Unique id of the installed stub (use it to clear later).'
+                ),
+            kind: z.literal(StubKind.MOCK_HTTP_SCENARIO).describe('Stub kind.'),
+            pattern: z.string().describe('Glob pattern.'),
+            match: z
+                .record(z.string(), z.any())
+                .optional()
+                .describe('Additional request matching criteria (if any).'),
+            scenario: scenarioOutputSchema(),
+            enabled: z.boolean().describe('Whether the stub is enabled.'),
+            stepCount: z.number().int().describe('Count of the steps.'),
+            loop: z
+                .boolean()
+                .describe('Whether the steps start over after the last one.'),
+            delayMs: z
+                .number()
+                .int()
+                .describe('Applied artificial delay in milliseconds.'),
+            times: z
+                .number()
+                .int()
+                .describe('Max applications (-1 means infinite).'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: MockHttpScenarioInput
+    ): Promise<MockHttpScenarioOutput> {
+        const scenario: StubScenario | undefined = normalizeScenario(
+            args.scenario
+        );
+        if (
+            !scenario &&
+            args.steps.some(
+                (step: MockHttpScenarioInput['steps'][number]): boolean =>
+                    step.newState !== undefined
+            )
+        ) {
+            throw new Error('"newState" of the steps requires "scenario"');
+        }
+
+        const steps: Array<StubScenarioStep> = args.steps.map(
+            (
+                step: MockHttpScenarioInput['steps'][number]
+            ): StubScenarioStep => ({
+                action: step.action ?? 'fulfill',
+                status: step.status,
+                headers: normalizeHeaders(step.headers),
+                body: normalizeBody(step.body),
+                abortErrorCode: normalizeAbortCode(step.abortErrorCode),
+                delayMs:
+                    step.delayMs !== undefined
+                        ? normalizeDelayMs(step.delayMs)
+                        : undefined,
+                newState: step.newState,
+            })
+        );
+
+        await ensureRoutingInstalled(context.browserContext);
+
+        const stub: StubMockHttpScenario = addMockHttpScenarioStub(
+            context.browserContext,
+            {
+                enabled: true,
+                pattern: args.pattern,
+                match: normalizeRequestMatch(args.match),
+                scenario,
+                steps,
+                loop: args.loop === true,
+                delayMs: normalizeDelayMs(args.delayMs),
+                times: normalizeTimesPublic(args.times),
+            }
+        );
+
+        return {
+            stubId: stub.id,
+            kind: StubKind.MOCK_HTTP_SCENARIO,
+            pattern: stub.pattern,
+            match: stub.match,
+            scenario: stub.scenario,
+            enabled: stub.enabled,
+            stepCount: stub.steps.length,
+            loop: stub.loop,
+            delayMs: stub.delayMs,
+            times: stub.times,
+        };
+    }
+}
@@ -0,0 +1,238 @@
+import { ToolSessionContext } from '../../context';
+import {
+    addMockSseStub,
+    ensureSseStubsInstalled,
+    normalizeBody,
+    normalizeDelayMs,
+    normalizeHeaders,
+    normalizeTimesPublic,
+    StubKind,
+    StubMockSse,
+    StubSseEvent,
+} from './stub-controller';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface MockSseInput extends ToolInput {
+    pattern: string;
+    events: Array<{
+        event?: string;
+        data: string | object;
+        id?: string;
+        retry?: number;
+        delayMs?: number;
+    }>;
+    status?: number;
+    headers?: Record<string, string>;
+    keepOpen?: boolean;
+
+    delayMs?: number;
+    times?: number;
+}
+
+export interface MockSseOutput extends ToolOutput {
+    stubId: string;
+    kind: StubKind.MOCK_SSE;
+    pattern: string;
+    enabled: boolean;
+
+    status: number;
+    eventCount: number;
+    keepOpen: boolean;
+
+    delayMs: number;
+    times: number;
+}
+
+export class MockSse implements Tool {
+    name(): string {
+        return 'stub_mock-sse';
+    }
+
+    description(): string {
+        return `
+Installs a Server-Sent Events stub which emits a scripted sequence of events (with delays)
+for the EventSource connections and fetch requests whose URL matches the pattern.
+
+Use cases:
+- Mock streamed LLM responses token by token
+- Mock live updates (notifications, progress, prices) pushed by the server
+- Test slow streams, stream errors and EventSource reconnections
+
+Notes:
+- pattern is a glob matched against the full request URL (picomatch).
+- delayMs of an event is the delay after the previous event (the first event waits delayMs of the stub too).
+- After the last event the stream ends (EventSource connections reconnect after the "retry" time like they normally do,
+  which is served by the stub again if times allows), unless keepOpen=true.
+- EventSource connections fail without reconnecting if status is not 200.
+- Streams are emitted in the page by wrapping EventSource and fetch (Playwright routes can't stream responses),
+  so stubbed streams don't appear in the network (e.g. they are not captured by "o11y_get-sse-events").
+- times counts the streams served by the stub.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            pattern: z
+                .string()
+                .describe(
+                    'Glob pattern matched against the full request URL (picomatch).'
+                ),
+            events: z
+                .array(
+                    z.object({
+                        event: z
+                            .string()
+                            .optional()
+                            .describe(
+                                'Event type. Omit for the default "message" type.'
+                            ),
+                        data: z
+                            .union([
+                                z.string(),
+                                z.record(z.string(), z.any()),
+                                z.array(z.any()),
+                            ])
+                            .describe(
+                                'Event data. If object/array, it will be JSON-stringified.'
+                            ),
+                        id: z.string().optional().describe('Event id.'),
+                        retry: z
+                            .number()
+                            .int()
+                            .nonnegative()
+                            .optional()
+                            .describe(
+                                'Reconnection time in milliseconds for EventSource connections.'
+                            ),
+                        delayMs: z
+                            .number()
+                            .int()
+                            .nonnegative()
+                            .optional()
+                            .describe(
+                                'Delay in milliseconds after the previous event.'
+                            ),
+                    })
+                )
+                .describe('Scripted events to emit in order.'),
+            status: z
+                .number()
+                .int()
+                .min(100)
+                .max(599)
+                .optional()
+                .default(200)
+                .describe('HTTP status code of the stream response.'),
+            headers: z
+                .record(z.string(), z.string())
+                .optional()
+                .describe(
+                    'HTTP headers of the stream response ("content-type: text/event-stream" is set by default).'
+                ),
+            keepOpen: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe(
+                    'Whether to keep the stream open after the last event.'
+                ),
+            delayMs: z
+                .number()
+                .int()
+                .nonnegative()
+                .optional()
+                .describe('Delay in milliseconds before the first event.'),
+            times: z
+                .number()
+                .int()
+                .optional()
+                .describe(
+                    'Apply only to N streams, then let through. Omit for infinite.'
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            stubId: z
+                .string()
+                .describe(
+                    'Unique id of the installed stub (use it to clear later).'
+                ),
+            kind: z.literal(StubKind.MOCK_SSE).describe('Stub kind.'),
+            pattern: z.string().describe('Glob pattern.'),
+            enabled: z.boolean().describe('Whether the stub is enabled.'),
+            status: z
+                .number()
+                .int()
+                .describe('HTTP status code of the stream response.'),
+            eventCount: z.number().int().describe('Count of the events.'),
+            keepOpen: z
+                .boolean()
+                .describe(
+                    'Whether the stream is kept open after the last event.'
+                ),
+            delayMs: z
+                .number()
+                .int()
+                .describe(
+                    'Applied delay in milliseconds before the first event.'
+                ),
+            times: z
+                .number()
+                .int()
+                .describe('Max streams (-1 means infinite).'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: MockSseInput
+    ): Promise<MockSseOutput> {
+        const events: Array<StubSseEvent> = args.events.map(
+            (e: MockSseInput['events'][number]): StubSseEvent => ({
+                event: e.event,
+                data: normalizeBody(e.data) ?? '',
+                id: e.id,
+                retry: e.retry,
+                delayMs:
+                    e.delayMs !== undefined
+                        ? normalizeDelayMs(e.delayMs)
+                        : undefined,
+            })
+        );
+
+        const stub: StubMockSse = addMockSseStub(context.browserContext, {
+            enabled: true,
+            pattern: args.pattern,
+            status: args.status ?? 200,
+            headers: normalizeHeaders(args.headers),
+            events,
+            keepOpen: args.keepOpen === true,
+            delayMs: normalizeDelayMs(args.delayMs),
+            times: normalizeTimesPublic(args.times),
+        });
+        // Pages intercept the URLs by the patterns of the SSE stubs, so sync them after the stub is added
+        await ensureSseStubsInstalled(context.browserContext);
+
+        return {
+            stubId: stub.id,
+            kind: StubKind.MOCK_SSE,
+            pattern: stub.pattern,
+            enabled: stub.enabled,
+            status: stub.status,
+            eventCount: stub.events.length,
+            keepOpen: stub.keepOpen,
+            delayMs: stub.delayMs,
+            times: stub.times,
+        };
+    }
+}
@@ -0,0 +1,344 @@
+import { ToolSessionContext } from '../../context';
+import {
+    addMockWebSocketStub,
+    ensureWebSocketRoutingInstalled,
+    normalizeDelayMs,
+    normalizeRegExpSource,
+    normalizeTimesPublic,
+    StubKind,
+    StubMockWebSocket,
+    StubWebSocketClose,
+    StubWebSocketMessage,
+    StubWebSocketReplacement,
+    StubWebSocketReply,
+} from './stub-controller';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface MockWebSocketInput extends ToolInput {
+    pattern: string;
+    connectToServer?: boolean;
+
+    messages?: Array<{
+        data: string | object;
+        delayMs?: number;
+    }>;
+    replies?: Array<{
+        match: string;
+        messages: Array<string | object>;
+    }>;
+    replacements?: Array<StubWebSocketReplacement>;
+    close?: StubWebSocketClose;
+
+    delayMs?: number;
+    times?: number;
+}
+
+export interface MockWebSocketOutput extends ToolOutput {
+    stubId: string;
+    kind: StubKind.MOCK_WEBSOCKET;
+    pattern: string;
+    enabled: boolean;
+
+    connectToServer: boolean;
+    messageCount: number;
+    replyCount: number;
+    replacementCount: number;
+    close?: StubWebSocketClose;
+
+    delayMs: number;
+    times: number;
+}
+
+function _normalizeMessage(data: string | object): string {
+    return typeof data === 'string' ? data : JSON.stringify(data);
+}
+
+export class MockWebSocket implements Tool {
+    name(): string {
+        return 'stub_mock-websocket';
+    }
+
+    description(): string {
+        return `
+Installs a WebSocket stub for the connections whose URL matches the pattern.
+The page-side connection is served by the stub: it can send scripted server messages,
+reply to the messages sent by the page, replace/drop frames and close the connection.
+
+Use cases:
+- Mock a realtime backend (notifications, chat, live prices) without a server
+- Reply to subscriptions/pings sent by the page
+- Tamper with or drop specific frames of the real connection
+- Test reconnection logic by closing the connection with a given code
+
+Notes:
+- pattern is a glob matched against the full WebSocket URL (picomatch), e.g. "wss://api.example.com/**".
+- messages are sent to the page in order once the connection is opened (after delayMs of the stub);
+  delayMs of a message is the delay after the previous message.
+- replies are sent to the page when a message sent by the page matches the regular expression.
+- If connectToServer=true, the connection is also made to the real server and the frames are
+  forwarded both ways; replacements are applied to the forwarded frames (only text frames).
+  Otherwise, the server is fully mocked and the messages sent by the page are not delivered anywhere.
+- close closes the connection after the given delay (in milliseconds) since it was opened.
+- times counts the connections served by the stub.
+- Fully mocked connections do not open a real socket, so they are not captured by "o11y_get-websocket-frames"
+  (with connectToServer=true, the frames exchanged with the real server are captured).
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            pattern: z
+                .string()
+                .describe(
+                    'Glob pattern matched against the full WebSocket URL (picomatch).'
+                ),
+            connectToServer: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe(
+                    'Whether to also connect to the real server and forward the frames both ways.'
+                ),
+            messages: z
+                .array(
+                    z.object({
+                        data: z
+                            .union([
+                                z.string(),
+                                z.record(z.string(), z.any()),
+                                z.array(z.any()),
+                            ])
+                            .describe(
+                                'Message to send to the page. If object/array, it will be JSON-stringified.'
+                            ),
+                        delayMs: z
+                            .number()
+                            .int()
+                            .nonnegative()
+                            .optional()
+                            .describe(
+                                'Delay in milliseconds after the previous message.'
+                            ),
+                    })
+                )
+                .optional()
+                .describe(
+                    'Scripted server messages to send once the connection is opened.'
+                ),
+            replies: z
+                .array(
+                    z.object({
+                        match: z
+                            .string()
+                            .describe(
+                                'Regular expression matched against the messages sent by the page.'
+                            ),
+                        messages: z
+                            .array(
+                                z.union([
+                                    z.string(),
+                                    z.record(z.string(), z.any()),
+                                    z.array(z.any()),
+                                ])
+                            )
+                            .describe(
+                                'Messages to send to the page in reply. If object/array, it will be JSON-stringified.'
+                            ),
+                    })
+                )
+                .optional()
+                .describe('Replies to the messages sent by the page.'),
+            replacements: z
+                .array(
+                    z.object({
+                        direction: z
+                            .enum(['sent', 'received'])
+                            .describe(
+                                '"sent" for the frames sent by the page, "received" for the frames from the server.'
+                            ),
+                        match: z
+                            .string()
+                            .describe(
+                                'Regular expression matched against the forwarded frames.'
+                            ),
+                        replacement: z
+                            .string()
+                            .optional()
+                            .describe(
+                                'Replacement of the matched parts (may refer to capture groups like "$1").'
+                            ),
+                        drop: z
+                            .boolean()
+                            .optional()
+                            .describe(
+                                'Drop the matching frames instead of replacing.'
+                            ),
+                    })
+                )
+                .optional()
+                .describe(
+                    'Replacements of the forwarded frames (requires connectToServer=true).'
+                ),
+            close: z
+                .object({
+                    afterMs: z
+                        .number()
+                        .int()
+                        .nonnegative()
+                        .describe(
+                            'Delay in milliseconds after the connection is opened.'
+                        ),
+                    code: z
+                        .number()
+                        .int()
+                        .min(1000)
+                        .max(4999)
+                        .optional()
+                        .describe('Close code, e.g. 1000, 1011 or 4001.'),
+                    reason: z.string().optional().describe('Close reason.'),
+                })
+                .optional()
+                .describe('Close the connection after a delay.'),
+            delayMs: z
+                .number()
+                .int()
+                .nonnegative()
+                .optional()
+                .describe(
+                    'Delay in milliseconds before sending the scripted messages.'
+                ),
+            times: z
+                .number()
+                .int()
+                .optional()
+                .describe(
+                    'Apply only to N connections, then let through. Omit for infinite.'
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            stubId: z
+                .string()
+                .describe(
+                    'Unique id of the installed stub (use it to clear later).'
+                ),
+            kind: z.literal(StubKind.MOCK_WEBSOCKET).describe('Stub kind.'),
+            pattern: z.string().describe('Glob pattern.'),
+            enabled: z.boolean().describe('Whether the stub is enabled.'),
+            connectToServer: z
+                .boolean()
+                .describe(
+                    'Whether the connections are also made to the real server.'
+                ),
+            messageCount: z
+                .number()
+                .int()
+                .describe('Count of the scripted server messages.'),
+            replyCount: z.number().int().describe('Count of the replies.'),
+            replacementCount: z
+                .number()
+                .int()
+                .describe('Count of the frame replacements.'),
+            close: z
+                .object({
+                    afterMs: z
+                        .number()
+                        .int()
+                        .describe(
+                            'Delay in milliseconds after the connection is opened.'
+                        ),
+                    code: z.number().int().optional().describe('Close code.'),
+                    reason: z.string().optional().describe('Close reason.'),
+                })
+                .optional()
+                .describe('When and how the connections are closed (if any).'),
+            delayMs: z
+                .number()
+                .int()
+                .describe(
+                    'Applied delay in milliseconds before the scripted messages.'
+                ),
+            times: z
+                .number()
+                .int()
+                .describe('Max connections (-1 means infinite).'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: MockWebSocketInput
+    ): Promise<MockWebSocketOutput> {
+        const connectToServer: boolean = args.connectToServer === true;
+        const replacements: Array<StubWebSocketReplacement> =
+            args.replacements ?? [];
+        if (!connectToServer && replacements.length > 0) {
+            throw new Error('"replacements" requires "connectToServer"');
+        }
+
+        const messages: Array<StubWebSocketMessage> = (args.messages ?? []).map(
+            (
+                m: NonNullable<MockWebSocketInput['messages']>[number]
+            ): StubWebSocketMessage => ({
+                data: _normalizeMessage(m.data),
+                delayMs:
+                    m.delayMs !== undefined
+                        ? normalizeDelayMs(m.delayMs)
+                        : undefined,
+            })
+        );
+        const replies: Array<StubWebSocketReply> = (args.replies ?? []).map(
+            (
+                r: NonNullable<MockWebSocketInput['replies']>[number],
+                i: number
+            ): StubWebSocketReply => ({
+                match: normalizeRegExpSource(r.match, `replies.${i}.match`),
+                messages: r.messages.map(_normalizeMessage),
+            })
+        );
+        replacements.forEach((r: StubWebSocketReplacement, i: number): void => {
+            normalizeRegExpSource(r.match, `replacements.${i}.match`);
+        });
+
+        await ensureWebSocketRoutingInstalled(context.browserContext);
+
+        const stub: StubMockWebSocket = addMockWebSocketStub(
+            context.browserContext,
+            {
+                enabled: true,
+                pattern: args.pattern,
+                connectToServer,
+                messages,
+                replies,
+                replacements,
+                close: args.close,
+                delayMs: normalizeDelayMs(args.delayMs),
+                times: normalizeTimesPublic(args.times),
+            }
+        );
+
+        return {
+            stubId: stub.id,
+            kind: StubKind.MOCK_WEBSOCKET,
+            pattern: stub.pattern,
+            enabled: stub.enabled,
+            connectToServer: stub.connectToServer,
+            messageCount: stub.messages.length,
+            replyCount: stub.replies.length,
+            replacementCount: stub.replacements.length,
+            close: stub.close,
+            delayMs: stub.delayMs,
+            times: stub.times,
+        };
+    }
+}
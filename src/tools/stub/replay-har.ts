@@ -0,0 +1,257 @@
+import { ToolSessionContext } from '../../context';
+import {
+    addReplayHarStub,
+    AnyStub,
+    ensureRoutingInstalled,
+    getStub,
+    loadHarReplayEntries,
+    HarReplayEntry,
+    HarReplayUnmatchedMode,
+    normalizeDelayMs,
+    StubKind,
+    StubReplayHar,
+} from './stub-controller';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import path from 'path';
+
+import { z } from 'zod';
+
+const DEFAULT_PATTERN: string = '**';
+const DEFAULT_UNMATCHED_MODE: HarReplayUnmatchedMode = 'abort';
+
+type HarEntryReport = {
+    index: number;
+    method: string;
+    url: string;
+    status?: number;
+    usedCount: number;
+};
+
+export interface ReplayHarInput extends ToolInput {
+    harPath?: string;
+    stubId?: string;
+    pattern?: string;
+    matchBody?: boolean;
+    unmatched?: HarReplayUnmatchedMode;
+    delayMs?: number;
+}
+
+export interface ReplayHarOutput extends ToolOutput {
+    stubId: string;
+    kind: StubKind.REPLAY_HAR;
+    pattern: string;
+    harPath: string;
+    matchBody: boolean;
+    unmatched: HarReplayUnmatchedMode;
+    entryCount: number;
+    usedEntries: Array<HarEntryReport>;
+    unusedEntries: Array<HarEntryReport>;
+    unmatchedRequests: Array<{ method: string; url: string }>;
+}
+
+export class ReplayHar implements Tool {
+    name(): string {
+        return 'stub_replay-har';
+    }
+
+    description(): string {
+        return `
+Installs a stub which replays the responses recorded in a HAR file
+(e.g. exported by "o11y_export-har" or browser DevTools) for matching requests.
+
+Use cases:
+- Reproducing a customer bug by replaying their captured network session
+- Offline / deterministic testing against a recorded backend
+
+Notes:
+- Requests are matched to HAR entries by full URL and method (and request body if matchBody=true).
+- Entries recorded for the same request are served in order, then the last one is repeated.
+- pattern limits which requests the stub handles (glob matched against the full request URL).
+- unmatched controls the requests handled by the stub without a matching HAR entry:
+  "abort" (default), "passthrough" (to the next stubs or the network) or "404".
+- Recorded failed requests (without response) are aborted.
+- Call again with stubId (without harPath) to report which HAR entries were used and which went unused.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            harPath: z
+                .string()
+                .optional()
+                .describe(
+                    'Path of the HAR file to replay. Required unless stubId is given.'
+                ),
+            stubId: z
+                .string()
+                .optional()
+                .describe(
+                    'Id of an installed HAR replay stub to report its usage, instead of installing a new one.'
+                ),
+            pattern: z
+                .string()
+                .optional()
+                .default(DEFAULT_PATTERN)
+                .describe(
+                    'Glob pattern matched against the full request URL (picomatch) to limit the replayed requests. Default "**" (all requests).'
+                ),
+            matchBody: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe(
+                    'Whether the request body must also match the recorded one (e.g. for GraphQL or RPC style APIs).'
+                ),
+            unmatched: z
+                .enum(['abort', 'passthrough', '404'])
+                .optional()
+                .default(DEFAULT_UNMATCHED_MODE)
+                .describe(
+                    'How to handle the requests matched by pattern but without a matching HAR entry.'
+                ),
+            delayMs: z
+                .number()
+                .int()
+                .nonnegative()
+                .optional()
+                .describe(
+                    'Artificial delay in milliseconds before serving each request.'
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        const entrySchema = z.object({
+            index: z.number().int().describe('Index of the entry in the HAR.'),
+            method: z.string().describe('Recorded request method.'),
+            url: z.string().describe('Recorded request URL.'),
+            status: z
+                .number()
+                .int()
+                .optional()
+                .describe(
+                    'Recorded response status (omitted for failed requests).'
+                ),
+            usedCount: z
+                .number()
+                .int()
+                .describe('How many times the entry has been served.'),
+        });
+
+        return {
+            stubId: z
+                .string()
+                .describe(
+                    'Unique id of the HAR replay stub (use it to report or clear later).'
+                ),
+            kind: z.literal(StubKind.REPLAY_HAR).describe('Stub kind.'),
+            pattern: z.string().describe('Glob pattern.'),
+            harPath: z.string().describe('Full path of the replayed HAR file.'),
+            matchBody: z
+                .boolean()
+                .describe('Whether the request body is matched.'),
+            unmatched: z
+                .enum(['abort', 'passthrough', '404'])
+                .describe('Handling of the unmatched requests.'),
+            entryCount: z
+                .number()
+                .int()
+                .describe('Count of the HAR entries loaded.'),
+            usedEntries: z
+                .array(entrySchema)
+                .describe('HAR entries served at least once.'),
+            unusedEntries: z
+                .array(entrySchema)
+                .describe('HAR entries not served yet.'),
+            unmatchedRequests: z
+                .array(
+                    z.object({
+                        method: z.string().describe('Request method.'),
+                        url: z.string().describe('Request URL.'),
+                    })
+                )
+                .describe(
+                    'Last requests handled by the stub without a matching HAR entry.'
+                ),
+        };
+    }
+
+    private _report(stub: StubReplayHar): ReplayHarOutput {
+        const toReport: (entry: HarReplayEntry) => HarEntryReport = (
+            entry: HarReplayEntry
+        ): HarEntryReport => ({
+            index: entry.index,
+            method: entry.method,
+            url: entry.url,
+            status: entry.response?.status,
+            usedCount: entry.usedCount,
+        });
+
+        return {
+            stubId: stub.id,
+            kind: StubKind.REPLAY_HAR,
+            pattern: stub.pattern,
+            harPath: stub.harPath,
+            matchBody: stub.matchBody,
+            unmatched: stub.unmatched,
+            entryCount: stub.entries.length,
+            usedEntries: stub.entries
+                .filter((entry: HarReplayEntry): boolean => entry.usedCount > 0)
+                .map(toReport),
+            unusedEntries: stub.entries
+                .filter(
+                    (entry: HarReplayEntry): boolean => entry.usedCount === 0
+                )
+                .map(toReport),
+            unmatchedRequests: [...stub.unmatchedRequests],
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: ReplayHarInput
+    ): Promise<ReplayHarOutput> {
+        if (args.stubId) {
+            const stub: AnyStub | undefined = getStub(
+                context.browserContext,
+                args.stubId
+            );
+            if (!stub || stub.kind !== StubKind.REPLAY_HAR) {
+                throw new Error(
+                    `No HAR replay stub found with id ${args.stubId}`
+                );
+            }
+            return this._report(stub);
+        }
+
+        if (!args.harPath) {
+            throw new Error('Either "harPath" or "stubId" must be specified');
+        }
+
+        const harPath: string = path.resolve(args.harPath);
+        const entries: Array<HarReplayEntry> =
+            await loadHarReplayEntries(harPath);
+
+        await ensureRoutingInstalled(context.browserContext);
+
+        const stub: StubReplayHar = addReplayHarStub(context.browserContext, {
+            enabled: true,
+            pattern: args.pattern ?? DEFAULT_PATTERN,
+            harPath,
+            entries,
+            matchBody: args.matchBody === true,
+            unmatched: args.unmatched ?? DEFAULT_UNMATCHED_MODE,
+            delayMs: normalizeDelayMs(args.delayMs),
+            times: -1,
+        });
+
+        return this._report(stub);
+    }
+}
@@ -0,0 +1,320 @@
+import type { Request as PwRequest } from 'playwright';
+import { z, ZodTypeAny } from 'zod';
+
+/**
+ * Request matching criteria of a stub, in addition to its URL glob pattern.
+ * All the specified fields must match.
+ */
+export type StubRequestMatch = {
+    /**
+     * HTTP method (upper case).
+     */
+    method?: string;
+    resourceType?: string;
+    /**
+     * Request headers (with lower case names) and their exact values.
+     */
+    headers?: Record<string, string>;
+    /**
+     * Query parameters and their exact values.
+     */
+    query?: Record<string, string>;
+    /**
+     * JSON request body paths (e.g. "user.id", "items[0].sku") and their expected values.
+     */
+    jsonBody?: Record<string, any>;
+    graphql?: {
+        operationName?: string;
+        /**
+         * Expected GraphQL variables. Variables not specified here are ignored.
+         */
+        variables?: Record<string, any>;
+    };
+};
+
+export function requestMatchSchema(): ZodTypeAny {
+    return z
+        .object({
+            method: z
+                .string()
+                .optional()
+                .describe('HTTP method to match (e.g. "POST").'),
+            resourceType: z
+                .string()
+                .optional()
+                .describe(
+                    'Resource type to match (e.g. "fetch", "xhr", "document").'
+                ),
+            headers: z
+                .record(z.string(), z.string())
+                .optional()
+                .describe(
+                    'Request headers to match by exact value (header names are case-insensitive).'
+                ),
+            query: z
+                .record(z.string(), z.string())
+                .optional()
+                .describe('Query parameters to match by exact value.'),
+            jsonBody: z
+                .record(z.string(), z.any())
+                .optional()
+                .describe(
+                    'JSON request body paths (e.g. "user.id", "items[0].sku") and their expected values.'
+                ),
+            graphql: z
+                .object({
+                    operationName: z
+                        .string()
+                        .optional()
+                        .describe('GraphQL operation name to match.'),
+                    variables: z
+                        .record(z.string(), z.any())
+                        .optional()
+                        .describe(
+                            'GraphQL variables to match (other variables are ignored).'
+                        ),
+                })
+                .optional()
+                .describe(
+                    'GraphQL operation to match (from the JSON body or the query parameters of GET requests).'
+                ),
+        })
+        .optional()
+        .describe(
+            'Additional request matching criteria besides the URL pattern. All the specified fields must match.'
+        );
+}
+
+export function normalizeRequestMatch(
+    match?: StubRequestMatch
+): StubRequestMatch | undefined {
+    if (!match) {
+        return undefined;
+    }
+
+    const out: StubRequestMatch = {};
+    if (match.method?.trim()) {
+        out.method = match.method.trim().toUpperCase();
+    }
+    if (match.resourceType?.trim()) {
+        out.resourceType = match.resourceType.trim().toLowerCase();
+    }
+    if (match.headers && Object.keys(match.headers).length > 0) {
+        out.headers = {};
+        for (const [k, v] of Object.entries(match.headers)) {
+            out.headers[k.toLowerCase()] = String(v);
+        }
+    }
+    if (match.query && Object.keys(match.query).length > 0) {
+        out.query = { ...match.query };
+    }
+    if (match.jsonBody && Object.keys(match.jsonBody).length > 0) {
+        out.jsonBody = { ...match.jsonBody };
+    }
+    if (match.graphql) {
+        const graphql: StubRequestMatch['graphql'] = {};
+        if (match.graphql.operationName) {
+            graphql.operationName = match.graphql.operationName;
+        }
+        if (
+            match.graphql.variables &&
+            Object.keys(match.graphql.variables).length > 0
+        ) {
+            graphql.variables = { ...match.graphql.variables };
+        }
+        if (Object.keys(graphql).length > 0) {
+            out.graphql = graphql;
+        }
+    }
+
+    return Object.keys(out).length > 0 ? out : undefined;
+}
+
+/**
+ * Returns the fields (e.g. "method", "headers.x-tenant", "graphql.operationName")
+ * which the given match criteria use.
+ */
+export function getRequestMatchFields(match?: StubRequestMatch): string[] {
+    if (!match) {
+        return [];
+    }
+
+    const fields: string[] = [];
+    if (match.method) {
+        fields.push('method');
+    }
+    if (match.resourceType) {
+        fields.push('resourceType');
+    }
+    for (const name of Object.keys(match.headers ?? {})) {
+        fields.push(`headers.${name}`);
+    }
+    for (const name of Object.keys(match.query ?? {})) {
+        fields.push(`query.${name}`);
+    }
+    for (const path of Object.keys(match.jsonBody ?? {})) {
+        fields.push(`jsonBody.${path}`);
+    }
+    if (match.graphql?.operationName) {
+        fields.push('graphql.operationName');
+    }
+    for (const name of Object.keys(match.graphql?.variables ?? {})) {
+        fields.push(`graphql.variables.${name}`);
+    }
+    return fields;
+}
+
+function _deepEqual(a: any, b: any): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (
+        typeof a !== 'object' ||
+        typeof b !== 'object' ||
+        a === null ||
+        b === null
+    ) {
+        return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+    const aKeys: string[] = Object.keys(a);
+    const bKeys: string[] = Object.keys(b);
+    if (aKeys.length !== bKeys.length) {
+        return false;
+    }
+    return aKeys.every((key: string): boolean => _deepEqual(a[key], b[key]));
+}
+
+/**
+ * Returns the value at the given JSON path (e.g. "user.id", "$.items[0].sku") of the given object.
+ */
+export function getJsonPath(obj: any, path: string): any {
+    const tokens: string[] = path
+        .replace(/^\$\.?/, '')
+        .replace(/\[(\d+)\]/g, '.$1')
+        .split('.')
+        .filter((token: string): boolean => token.length > 0);
+    let current: any = obj;
+    for (const token of tokens) {
+        if (current === null || typeof current !== 'object') {
+            return undefined;
+        }
+        current = current[token];
+    }
+    return current;
+}
+
+export function parseJson(text: string | null | undefined): any {
+    if (!text) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+function _matchesGraphQL(
+    operation: any,
+    graphql: NonNullable<StubRequestMatch['graphql']>
+): boolean {
+    if (!operation || typeof operation !== 'object') {
+        return false;
+    }
+    if (
+        graphql.operationName !== undefined &&
+        operation.operationName !== graphql.operationName
+    ) {
+        return false;
+    }
+    if (graphql.variables) {
+        // Variables of GET requests are passed as JSON encoded query parameter
+        const variables: any =
+            typeof operation.variables === 'string'
+                ? parseJson(operation.variables)
+                : operation.variables;
+        for (const [name, value] of Object.entries(graphql.variables)) {
+            if (!_deepEqual(variables?.[name], value)) {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+/**
+ * Checks whether the given request matches the given criteria.
+ * Request without criteria matches always.
+ */
+export function matchesRequest(
+    match: StubRequestMatch | undefined,
+    req: PwRequest
+): boolean {
+    if (!match) {
+        return true;
+    }
+
+    if (match.method && req.method().toUpperCase() !== match.method) {
+        return false;
+    }
+    if (match.resourceType && req.resourceType() !== match.resourceType) {
+        return false;
+    }
+    if (match.headers) {
+        const headers: Record<string, string> = req.headers();
+        for (const [name, value] of Object.entries(match.headers)) {
+            if (headers[name] !== value) {
+                return false;
+            }
+        }
+    }
+
+    let url: URL | undefined;
+    if (match.query || match.graphql) {
+        try {
+            url = new URL(req.url());
+        } catch {
+            return false;
+        }
+    }
+    if (match.query) {
+        for (const [name, value] of Object.entries(match.query)) {
+            if (url!.searchParams.get(name) !== value) {
+                return false;
+            }
+        }
+    }
+
+    const body: any =
+        match.jsonBody || match.graphql ? parseJson(req.postData()) : undefined;
+    if (match.jsonBody) {
+        if (body === undefined) {
+            return false;
+        }
+        for (const [path, value] of Object.entries(match.jsonBody)) {
+            if (!_deepEqual(getJsonPath(body, path), value)) {
+                return false;
+            }
+        }
+    }
+    if (match.graphql) {
+        const operations: any[] =
+            body !== undefined
+                ? Array.isArray(body)
+                    ? body // Batched operations
+                    : [body]
+                : [Object.fromEntries(url!.searchParams.entries())];
+        if (
+            !operations.some((operation: any): boolean =>
+                _matchesGraphQL(operation, match.graphql!)
+            )
+        ) {
+            return false;
+        }
+    }
+
+    return true;
+}
@@ -0,0 +1,248 @@
+import { getJsonPath, parseJson } from './request-matcher';
+
+import crypto from 'node:crypto';
+
+import type { Request as PwRequest } from 'playwright';
+
+/**
+ * Templating options of a mocked response.
+ * If set, the body and the header values of the response are rendered as templates
+ * for each handled request.
+ */
+export type StubResponseTemplate = {
+    /**
+     * Path pattern with named parameters (e.g. "/api/users/:userId")
+     * to extract "request.pathParams" from the request URL path.
+     */
+    pathPattern?: string;
+};
+
+type TemplateRequestData = {
+    method: string;
+    url: string;
+    host: string;
+    path: string;
+    pathParams: Record<string, string>;
+    query: Record<string, string>;
+    headers: Record<string, string>;
+    body: string;
+    jsonBody: any;
+};
+
+type TemplateHelper = (args: string[]) => string;
+
+const PLACEHOLDER_REGEXP: RegExp = /\{\{\s*(.*?)\s*\}\}/g;
+
+const REQUEST_FIELDS: ReadonlySet<string> = new Set([
+    'method',
+    'url',
+    'host',
+    'path',
+    'pathParams',
+    'query',
+    'headers',
+    'body',
+    'jsonBody',
+]);
+
+function _randomIntRange(args: string[]): { min: number; max: number } {
+    return {
+        min: args[0] !== undefined ? Number(args[0]) : 0,
+        max: args[1] !== undefined ? Number(args[1]) : 100,
+    };
+}
+
+const HELPERS: Record<string, TemplateHelper> = {
+    uuid: (): string => crypto.randomUUID(),
+    now: (args: string[]): string =>
+        args[0] === 'epoch' ? String(Date.now()) : new Date().toISOString(),
+    randomInt: (args: string[]): string => {
+        const { min, max } = _randomIntRange(args);
+        return String(min + Math.floor(Math.random() * (max - min + 1)));
+    },
+};
+
+function _parseExpression(expression: string): {
+    name: string;
+    args: string[];
+} {
+    const [name, ...args] = expression.split(/\s+/);
+    return { name, args };
+}
+
+/**
+ * Checks the placeholders of the given template and throws for the unknown ones.
+ */
+export function validateTemplate(template: string): void {
+    for (const placeholder of template.matchAll(PLACEHOLDER_REGEXP)) {
+        const { name, args } = _parseExpression(placeholder[1]);
+        if (name === 'request' || name.startsWith('request.')) {
+            const field: string = name
+                .substring('request.'.length)
+                .replace(/[.[].*$/, '');
+            if (name !== 'request' && !REQUEST_FIELDS.has(field)) {
+                throw new Error(
+                    `Unknown request field in template placeholder "${placeholder[0]}". ` +
+                        `Valid fields are: ${Array.from(REQUEST_FIELDS).join(', ')}`
+                );
+            }
+        } else if (!HELPERS[name]) {
+            throw new Error(
+                `Unknown template placeholder "${placeholder[0]}". ` +
+                    `Use "request.<field>" or one of the helpers: ${Object.keys(HELPERS).join(', ')}`
+            );
+        } else if (
+            name === 'randomInt' &&
+            args.some((arg: string): boolean => !Number.isInteger(Number(arg)))
+        ) {
+            throw new Error(
+                `Invalid arguments in template placeholder "${placeholder[0]}": integers expected`
+            );
+        } else if (name === 'randomInt') {
+            const { min, max } = _randomIntRange(args);
+            if (min > max) {
+                throw new Error(
+                    `Invalid arguments in template placeholder "${placeholder[0]}": ` +
+                        `min (${min}) must not be greater than max (${max})`
+                );
+            }
+        }
+    }
+}
+
+function _decodePathSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        // Malformed percent-encoding (e.g. "%E0%A4%A"), keep the segment as is
+        return segment;
+    }
+}
+
+function _extractPathParams(
+    pathPattern: string | undefined,
+    path: string
+): Record<string, string> {
+    if (!pathPattern) {
+        return {};
+    }
+    const names: string[] = [];
+    const source: string = pathPattern
+        .split('/')
+        .map((segment: string): string => {
+            if (segment.startsWith(':') && segment.length > 1) {
+                names.push(segment.substring(1));
+                return '([^/]+)';
+            }
+            return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('/');
+    const match: RegExpExecArray | null = new RegExp(`^${source}/?$`).exec(
+        path
+    );
+    if (!match) {
+        return {};
+    }
+    return Object.fromEntries(
+        names.map((name: string, i: number): [string, string] => [
+            name,
+            _decodePathSegment(match[i + 1]),
+        ])
+    );
+}
+
+function _toRequestData(
+    req: PwRequest,
+    template: StubResponseTemplate
+): TemplateRequestData {
+    const url: URL = new URL(req.url());
+    const body: string = req.postData() ?? '';
+    return {
+        method: req.method(),
+        url: req.url(),
+        host: url.host,
+        path: url.pathname,
+        pathParams: _extractPathParams(template.pathPattern, url.pathname),
+        query: Object.fromEntries(url.searchParams.entries()),
+        headers: req.headers(),
+        body,
+        jsonBody: parseJson(body),
+    };
+}
+
+function _toText(value: any): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function _resolve(
+    expression: string,
+    requestData: TemplateRequestData
+): string {
+    const { name, args } = _parseExpression(expression);
+    if (name === 'request') {
+        return _toText(requestData);
+    }
+    if (name.startsWith('request.')) {
+        const path: string = name.substring('request.'.length);
+        const field: string = path.replace(/[.[].*$/, '');
+        const rest: string = path.substring(field.length).replace(/^\./, '');
+        const value: any = (requestData as any)[field];
+        if (!rest) {
+            return _toText(value);
+        }
+        if (field === 'headers') {
+            // Header names are case-insensitive and may contain dots
+            return _toText(value[rest.toLowerCase()]);
+        }
+        if (field === 'query' || field === 'pathParams') {
+            return _toText(value[rest]);
+        }
+        return _toText(getJsonPath(value, rest));
+    }
+    return HELPERS[name](args);
+}
+
+function _render(template: string, requestData: TemplateRequestData): string {
+    return template.replace(
+        PLACEHOLDER_REGEXP,
+        (_placeholder: string, expression: string): string =>
+            _resolve(expression, requestData)
+    );
+}
+
+/**
+ * Renders the placeholders (e.g. "{{request.pathParams.id}}", "{{uuid}}") in the body
+ * and the header values of the given response with the data of the given request.
+ */
+export function renderResponseTemplate(
+    template: StubResponseTemplate,
+    req: PwRequest,
+    response: {
+        headers?: Record<string, string>;
+        body?: string;
+    }
+): {
+    headers?: Record<string, string>;
+    body?: string;
+} {
+    const requestData: TemplateRequestData = _toRequestData(req, template);
+    return {
+        headers: response.headers
+            ? Object.fromEntries(
+                  Object.entries(response.headers).map(
+                      ([name, value]: [string, string]): [string, string] => [
+                          name,
+                          _render(value, requestData),
+                      ]
+                  )
+              )
+            : undefined,
+        body:
+            response.body !== undefined
+                ? _render(response.body, requestData)
+                : undefined,
+    };
+}
@@ -0,0 +1,75 @@
+import { ToolSessionContext } from '../../context';
+import { SCENARIO_STARTED_STATE, setScenarioState } from './stub-controller';
+import {
+    Tool,
+    ToolInput,
+    ToolInputSchema,
+    ToolOutput,
+    ToolOutputSchema,
+} from '../types';
+
+import { z } from 'zod';
+
+export interface SetScenarioStateInput extends ToolInput {
+    name: string;
+    state?: string;
+}
+
+export interface SetScenarioStateOutput extends ToolOutput {
+    name: string;
+    state: string;
+    previousState: string;
+}
+
+export class SetScenarioState implements Tool {
+    name(): string {
+        return 'stub_set-scenario-state';
+    }
+
+    description(): string {
+        return `
+Sets the state of a named scenario which stubs can be bound to (by their "scenario" option).
+Omit state to reset the scenario to its initial "${SCENARIO_STARTED_STATE}" state.
+        `.trim();
+    }
+
+    inputSchema(): ToolInputSchema {
+        return {
+            name: z.string().min(1).describe('Name of the scenario.'),
+            state: z
+                .string()
+                .optional()
+                .describe(
+                    `New state of the scenario. Omit to reset to "${SCENARIO_STARTED_STATE}".`
+                ),
+        };
+    }
+
+    outputSchema(): ToolOutputSchema {
+        return {
+            name: z.string().describe('Name of the scenario.'),
+            state: z.string().describe('Current state of the scenario.'),
+            previousState: z
+                .string()
+                .describe('State of the scenario before the change.'),
+        };
+    }
+
+    async handle(
+        context: ToolSessionContext,
+        args: SetScenarioStateInput
+    ): Promise<SetScenarioStateOutput> {
+        const name: string = args.name.trim();
+        const state: string = args.state ?? SCENARIO_STARTED_STATE;
+        const previousState: string = setScenarioState(
+            context.browserContext,
+            name,
+            state
+        );
+        return {
+            name,
+            state,
+            previousState,
+        };
+    }
+}
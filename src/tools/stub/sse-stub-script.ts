@@ -0,0 +1,322 @@
+/**
+ * Page-side part of the SSE stubs.
+ *
+ * Playwright routes can only fulfill a response with the whole body at once,
+ * so event streams with delays between the events can't be mocked by routes.
+ * Instead, "EventSource" and "fetch" are wrapped in the pages: requests to the URLs
+ * matching the patterns of the SSE stubs ask the stub controller (through a binding)
+ * for the scripted events, which are then emitted in the page with their delays.
+ * Requests not served by a stub (e.g. the stub has been used up or removed)
+ * go to the network as usual.
+ */
+
+export type SseStubScriptPattern = {
+    source: string;
+    flags: string;
+};
+
+export type SseStubScriptConfig = {
+    bindingName: string;
+    patterns: Array<SseStubScriptPattern>;
+};
+
+export type SseStubScriptEvent = {
+    event: string;
+    data: string;
+    id?: string;
+    retry?: number;
+    delayMs: number;
+    // Event in the SSE wire format (for the streamed fetch responses)
+    text: string;
+};
+
+export type SseStubScriptResponse = {
+    status: number;
+    headers: Record<string, string>;
+    events: Array<SseStubScriptEvent>;
+    keepOpen: boolean;
+};
+
+/**
+ * Installs the SSE stub wrappers into the page (only once) and updates the URL patterns to intercept.
+ * Runs in the browser, so it must be self-contained.
+ */
+export function installSseStubScript(cfg: SseStubScriptConfig): void {
+    const g: any = globalThis as any;
+
+    g.__mcpSseStubPatterns = cfg.patterns.map(
+        (p: SseStubScriptPattern): RegExp => new RegExp(p.source, p.flags)
+    );
+    if (g.__mcpSseStubInstalled) {
+        return;
+    }
+    g.__mcpSseStubInstalled = true;
+
+    const toAbsoluteUrl = (url: any): string => {
+        try {
+            return new URL(String(url), g.location?.href).href;
+        } catch {
+            return String(url);
+        }
+    };
+    const matches = (url: string): boolean =>
+        g.__mcpSseStubPatterns.some((re: RegExp): boolean => re.test(url));
+    const resolveStub = async (
+        url: string
+    ): Promise<SseStubScriptResponse | null> => {
+        const binding: any = g[cfg.bindingName];
+        if (typeof binding !== 'function') {
+            return null;
+        }
+        try {
+            return await binding(url);
+        } catch {
+            return null;
+        }
+    };
+
+    const originalFetch: any = g.fetch;
+    if (typeof originalFetch === 'function') {
+        g.fetch = async function (input: any, init?: any): Promise<any> {
+            const url: string = toAbsoluteUrl(
+                input instanceof g.Request ? input.url : input
+            );
+            if (!matches(url)) {
+                return originalFetch.call(this, input, init);
+            }
+            const stub: SseStubScriptResponse | null = await resolveStub(url);
+            if (!stub) {
+                return originalFetch.call(this, input, init);
+            }
+
+            const signal: any =
+                init?.signal ??
+                (input instanceof g.Request ? input.signal : undefined);
+            if (signal?.aborted) {
+                throw new DOMException(
+                    'The operation was aborted.',
+                    'AbortError'
+                );
+            }
+            const encoder: TextEncoder = new TextEncoder();
+            let timer: any;
+            const body: ReadableStream = new ReadableStream({
+                start(controller: ReadableStreamDefaultController): void {
+                    let index: number = 0;
+                    const next = (): void => {
+                        if (index >= stub.events.length) {
+                            if (!stub.keepOpen) {
+                                controller.close();
+                            }
+                            return;
+                        }
+                        const event: SseStubScriptEvent = stub.events[index++];
+                        timer = setTimeout((): void => {
+                            try {
+                                controller.enqueue(encoder.encode(event.text));
+                            } catch {
+                                // Stream has been cancelled
+                                return;
+                            }
+                            next();
+                        }, event.delayMs);
+                    };
+                    next();
+                    signal?.addEventListener('abort', (): void => {
+                        clearTimeout(timer);
+                        try {
+                            controller.error(
+                                new DOMException(
+                                    'The operation was aborted.',
+                                    'AbortError'
+                                )
+                            );
+                        } catch {}
+                    });
+                },
+                cancel(): void {
+                    clearTimeout(timer);
+                },
+            });
+            return new g.Response(body, {
+                status: stub.status,
+                headers: stub.headers,
+            });
+        };
+    }
+
+    const OriginalEventSource: any = g.EventSource;
+    if (typeof OriginalEventSource !== 'function') {
+        return;
+    }
+
+    const CONNECTING: number = 0;
+    const OPEN: number = 1;
+    const CLOSED: number = 2;
+    const DEFAULT_RETRY_MS: number = 3000;
+
+    class StubEventSource extends EventTarget {
+        static readonly CONNECTING: number = CONNECTING;
+        static readonly OPEN: number = OPEN;
+        static readonly CLOSED: number = CLOSED;
+        readonly CONNECTING: number = CONNECTING;
+        readonly OPEN: number = OPEN;
+        readonly CLOSED: number = CLOSED;
+
+        readonly url: string;
+        readonly withCredentials: boolean;
+        readyState: number = CONNECTING;
+        onopen: ((event: Event) => any) | null = null;
+        onmessage: ((event: MessageEvent) => any) | null = null;
+        onerror: ((event: Event) => any) | null = null;
+
+        private readonly _init: any;
+        private _timer: any;
+        private _retryMs: number = DEFAULT_RETRY_MS;
+        private _lastEventId: string = '';
+        private _real: any;
+        private readonly _forwardedTypes: Set<string> = new Set();
+
+        constructor(url: string, init?: any) {
+            super();
+            this.url = url;
+            this.withCredentials = !!init?.withCredentials;
+            this._init = init;
+            void this._connect();
+        }
+
+        addEventListener(type: string, listener: any, options?: any): void {
+            super.addEventListener(type, listener, options);
+            this._forward(type);
+        }
+
+        close(): void {
+            this.readyState = CLOSED;
+            clearTimeout(this._timer);
+            this._real?.close();
+        }
+
+        private _dispatch(event: Event): void {
+            this.dispatchEvent(event);
+            const handler: any = (this as any)[`on${event.type}`];
+            if (typeof handler === 'function') {
+                handler.call(this, event);
+            }
+        }
+
+        private async _connect(): Promise<void> {
+            const stub: SseStubScriptResponse | null = await resolveStub(
+                this.url
+            );
+            if (this.readyState === CLOSED) {
+                return;
+            }
+            if (!stub) {
+                this._connectReal();
+                return;
+            }
+            if (stub.status !== 200) {
+                // Connections with non-200 responses fail without reconnecting
+                this.readyState = CLOSED;
+                this._dispatch(new Event('error'));
+                return;
+            }
+
+            this.readyState = OPEN;
+            this._dispatch(new Event('open'));
+
+            let index: number = 0;
+            const next = (): void => {
+                if (index >= stub.events.length) {
+                    if (!stub.keepOpen) {
+                        // The stream has ended, so reconnect like the browser does
+                        this.readyState = CONNECTING;
+                        this._dispatch(new Event('error'));
+                        this._timer = setTimeout((): void => {
+                            if (this.readyState !== CLOSED) {
+                                void this._connect();
+                            }
+                        }, this._retryMs);
+                    }
+                    return;
+                }
+                const event: SseStubScriptEvent = stub.events[index++];
+                this._timer = setTimeout((): void => {
+                    if (this.readyState !== OPEN) {
+                        return;
+                    }
+                    if (event.retry !== undefined) {
+                        this._retryMs = event.retry;
+                    }
+                    if (event.id !== undefined) {
+                        this._lastEventId = event.id;
+                    }
+                    this._dispatch(
+                        new MessageEvent(event.event, {
+                            data: event.data,
+                            lastEventId: this._lastEventId,
+                            origin: new URL(this.url).origin,
+                        })
+                    );
+                    next();
+                }, event.delayMs);
+            };
+            next();
+        }
+
+        private _connectReal(): void {
+            const real: any = new OriginalEventSource(this.url, this._init);
+            this._real = real;
+            real.addEventListener('open', (): void => {
+                this.readyState = real.readyState;
+                this._dispatch(new Event('open'));
+            });
+            real.addEventListener('error', (): void => {
+                this.readyState = real.readyState;
+                this._dispatch(new Event('error'));
+            });
+            this._forwardedTypes.forEach((type: string): void =>
+                this._forwardReal(type)
+            );
+            this._forward('message');
+        }
+
+        private _forward(type: string): void {
+            if (
+                type === 'open' ||
+                type === 'error' ||
+                this._forwardedTypes.has(type)
+            ) {
+                return;
+            }
+            this._forwardedTypes.add(type);
+            if (this._real) {
+                this._forwardReal(type);
+            }
+        }
+
+        private _forwardReal(type: string): void {
+            this._real.addEventListener(type, (e: MessageEvent): void => {
+                this._dispatch(
+                    new MessageEvent(type, {
+                        data: e.data,
+                        lastEventId: e.lastEventId,
+                        origin: e.origin,
+                    })
+                );
+            });
+        }
+    }
+
+    g.EventSource = function EventSource(url: any, init?: any): any {
+        const absoluteUrl: string = toAbsoluteUrl(url);
+        if (!matches(absoluteUrl)) {
+            return new OriginalEventSource(url, init);
+        }
+        return new StubEventSource(absoluteUrl, init);
+    };
+    g.EventSource.prototype = OriginalEventSource.prototype;
+    g.EventSource.CONNECTING = CONNECTING;
+    g.EventSource.OPEN = OPEN;
+    g.EventSource.CLOSED = CLOSED;
+}
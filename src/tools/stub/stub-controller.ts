@@ -1,16 +1,96 @@
+import { matchesRequest, StubRequestMatch } from './request-matcher';
+import {
+    renderResponseTemplate,
+    StubResponseTemplate,
+} from './response-template';
+import {
+    installSseStubScript,
+    SseStubScriptConfig,
+    SseStubScriptEvent,
+    SseStubScriptPattern,
+    SseStubScriptResponse,
+} from './sse-stub-script';
+import { formatSseEvent } from '../../utils';
+
+import fs from 'fs/promises';
+import path from 'path';
+
 import picomatch from 'picomatch';
 
-import type { BrowserContext, Route, Request as PwRequest } from 'playwright';
+import type {
+    BrowserContext,
+    Route,
+    Request as PwRequest,
+    WebSocketRoute,
+} from 'playwright';
+import { z, ZodTypeAny } from 'zod';
 
 export type StubId = string;
 
 export enum StubKind {
     MOCK_HTTP_RESPONSE = 'mock_http_response',
     INTERCEPT_HTTP_REQUEST = 'intercept_http_request',
+    REPLAY_HAR = 'replay_har',
+    MOCK_HTTP_SCENARIO = 'mock_http_scenario',
+    MOCK_WEBSOCKET = 'mock_websocket',
+    MOCK_SSE = 'mock_sse',
+    FAULT_PROFILE = 'fault_profile',
 }
 
 export type Matcher = (input: string) => boolean;
 
+/**
+ * Initial state of the named scenarios.
+ */
+export const SCENARIO_STARTED_STATE: string = 'Started';
+
+/**
+ * Binds a stub to a named scenario (like WireMock scenarios):
+ * - the stub applies only while the scenario is in "requiredState" (if specified)
+ * - the scenario moves to "newState" (if specified) when the stub is applied
+ */
+export type StubScenario = {
+    name: string;
+    requiredState?: string;
+    newState?: string;
+};
+
+export type StubScenarioStep = {
+    action: 'fulfill' | 'abort';
+
+    status?: number;
+    headers?: Record<string, string>;
+    body?: string;
+    abortErrorCode?: string;
+
+    /**
+     * Overrides the delay of the stub for this step.
+     */
+    delayMs?: number;
+
+    /**
+     * State to move the scenario of the stub to when this step is served.
+     * Overrides the "newState" of the stub scenario.
+     */
+    newState?: string;
+};
+
+/**
+ * Local file or directory to serve the mocked response body from.
+ * The file is read on each request, so its changes take effect without re-installing the stub.
+ */
+export type StubBodyPath = {
+    /**
+     * Absolute path of the file or directory.
+     */
+    path: string;
+    directory: boolean;
+    /**
+     * URL path prefix mapped to the directory (like a static file server).
+     */
+    urlPrefix?: string;
+};
+
 export type StubMockHttpResponse = {
     kind: StubKind.MOCK_HTTP_RESPONSE;
     id: StubId;
@@ -18,12 +98,20 @@ export type StubMockHttpResponse = {
 
     pattern: string;
     matcher: Matcher;
+    match?: StubRequestMatch;
+    scenario?: StubScenario;
 
     action: 'fulfill' | 'abort';
 
     status?: number;
     headers?: Record<string, string>;
     body?: string;
+    bodyPath?: StubBodyPath;
+
+    /**
+     * If set, the body and the header values are rendered as templates with the request data.
+     */
+    template?: StubResponseTemplate;
 
     /**
      * If action='abort', Playwright errorCode.
@@ -48,6 +136,8 @@ export type StubInterceptHttpRequest = {
 
     pattern: string;
     matcher: Matcher;
+    match?: StubRequestMatch;
+    scenario?: StubScenario;
 
     modifications: {
         headers?: Record<string, string>;
@@ -60,11 +150,288 @@ export type StubInterceptHttpRequest = {
     usedCount: number;
 };
 
-export type AnyStub = StubMockHttpResponse | StubInterceptHttpRequest;
+/**
+ * HAR entry (in a normalized form) to be served by a HAR replay stub.
+ */
+export type HarReplayEntry = {
+    /**
+     * Index of the entry in the HAR file.
+     */
+    index: number;
+    method: string;
+    url: string;
+    postData?: string;
+
+    /**
+     * Recorded response. Undefined if the request had failed without a response,
+     * in which case the request is aborted on replay.
+     */
+    response?: {
+        status: number;
+        headers: Record<string, string>;
+        body: Buffer;
+    };
+
+    usedCount: number;
+};
+
+/**
+ * How the requests which are matched by the pattern of a HAR replay stub,
+ * but don't have a matching HAR entry, are handled:
+ * - "abort": request is aborted
+ * - "passthrough": request is let through (to the next stubs or the network)
+ * - "404": request is fulfilled with 404 Not Found response
+ */
+export type HarReplayUnmatchedMode = 'abort' | 'passthrough' | '404';
+
+export type StubReplayHar = {
+    kind: StubKind.REPLAY_HAR;
+    id: StubId;
+    enabled: boolean;
+
+    pattern: string;
+    matcher: Matcher;
+
+    harPath: string;
+    entries: Array<HarReplayEntry>;
+    matchBody: boolean;
+    unmatched: HarReplayUnmatchedMode;
+
+    /**
+     * Last requests (up to MAX_HAR_REPLAY_UNMATCHED_REQUESTS) which didn't match any HAR entry.
+     */
+    unmatchedRequests: Array<{ method: string; url: string }>;
+
+    delayMs: number;
+    times: number; // -1 => infinite
+    usedCount: number;
+};
+
+export type StubMockHttpScenario = {
+    kind: StubKind.MOCK_HTTP_SCENARIO;
+    id: StubId;
+    enabled: boolean;
+
+    pattern: string;
+    matcher: Matcher;
+    match?: StubRequestMatch;
+    scenario?: StubScenario;
+
+    /**
+     * Ordered responses. Each matching request is served by the current step,
+     * then the stub moves to the next step.
+     */
+    steps: Array<StubScenarioStep>;
+
+    /**
+     * If true, the steps start over after the last one.
+     * Otherwise, the last step is served for the subsequent requests.
+     */
+    loop: boolean;
+    currentStep: number;
+
+    delayMs: number;
+    times: number; // -1 => infinite
+    usedCount: number;
+};
+
+export type StubWebSocketMessage = {
+    data: string;
+    delayMs?: number; // delay after the previous message
+};
+
+export type StubWebSocketReply = {
+    /**
+     * Regular expression (source) matched against the messages sent by the page.
+     */
+    match: string;
+    messages: Array<string>;
+};
+
+export type StubWebSocketReplacement = {
+    direction: 'sent' | 'received';
+    /**
+     * Regular expression (source) matched against the forwarded messages.
+     */
+    match: string;
+    /**
+     * Replacement of the matched parts (may refer to the capture groups like "$1").
+     * Ignored if drop is true.
+     */
+    replacement?: string;
+    drop?: boolean;
+};
+
+export type StubWebSocketClose = {
+    afterMs: number;
+    code?: number;
+    reason?: string;
+};
+
+export type StubMockWebSocket = {
+    kind: StubKind.MOCK_WEBSOCKET;
+    id: StubId;
+    enabled: boolean;
+
+    pattern: string;
+    matcher: Matcher;
+
+    /**
+     * If true, the connection is also made to the real server
+     * and the messages are forwarded both ways (with replacements applied).
+     * Otherwise, the server is fully mocked.
+     */
+    connectToServer: boolean;
+    messages: Array<StubWebSocketMessage>;
+    replies: Array<StubWebSocketReply>;
+    replacements: Array<StubWebSocketReplacement>;
+    close?: StubWebSocketClose;
+
+    delayMs: number; // delay before the scripted messages
+    times: number; // -1 => infinite (counted per connection)
+    usedCount: number;
+};
+
+export type StubSseEvent = {
+    event?: string; // "message" if not specified
+    data: string;
+    id?: string;
+    retry?: number;
+    delayMs?: number; // delay after the previous event
+};
+
+export type StubMockSse = {
+    kind: StubKind.MOCK_SSE;
+    id: StubId;
+    enabled: boolean;
+
+    pattern: string;
+    matcher: Matcher;
+
+    status: number;
+    headers?: Record<string, string>;
+    events: Array<StubSseEvent>;
+    /**
+     * If true, the stream is kept open after the last event.
+     * Otherwise, the stream ends (and EventSource connections reconnect like they do normally).
+     */
+    keepOpen: boolean;
+
+    delayMs: number; // delay before the first event
+    times: number; // -1 => infinite (counted per stream)
+    usedCount: number;
+};
+
+export type StubFaultType =
+    | 'error'
+    | 'latency'
+    | 'reset'
+    | 'truncation'
+    | 'bodyTransferDelay';
+
+export type StubFaultLatency = {
+    /**
+     * - "fixed": always "delayMs"
+     * - "uniform": uniformly distributed between "minMs" and "maxMs"
+     * - "normal": normally distributed by "meanMs" and "stdDevMs" (negative values are clamped to 0)
+     * - "spike": "delayMs" (0 by default), but "spikeMs" with "spikeRate" chance (0.01 by default, p99 spikes)
+     */
+    distribution: 'fixed' | 'uniform' | 'normal' | 'spike';
+    delayMs?: number;
+    minMs?: number;
+    maxMs?: number;
+    meanMs?: number;
+    stdDevMs?: number;
+    spikeMs?: number;
+    spikeRate?: number;
+};
+
+export type StubFaultProfile = {
+    kind: StubKind.FAULT_PROFILE;
+    id: StubId;
+    enabled: boolean;
+
+    /**
+     * Name of the profile. Installing a profile replaces the installed one with the same name.
+     */
+    name: string;
+    patterns: Array<string>;
+    matcher: Matcher;
+
+    /**
+     * Fulfills the requests with a random one of the statuses (5xx by default).
+     */
+    errors?: {
+        rate: number;
+        statuses?: Array<number>;
+    };
+    latency?: StubFaultLatency;
+    /**
+     * Aborts the requests with the Playwright error code ("connectionreset" by default).
+     */
+    resets?: {
+        rate: number;
+        errorCode?: string;
+    };
+    /**
+     * Cuts the response bodies (from the network) at the ratio of their length (0.5 by default).
+     */
+    truncation?: {
+        rate: number;
+        ratio?: number;
+    };
+    /**
+     * Delays the response bodies (from the network) by the time it would take to transfer them at the given rate,
+     * then delivers them in one piece (routes can't stream response bodies).
+     */
+    bodyTransferDelay?: {
+        rate: number;
+        bytesPerSecond: number;
+    };
+
+    faultCounts: Record<StubFaultType, number>;
+
+    times: number; // -1 => infinite (counted per request)
+    usedCount: number;
+};
+
+export type AnyStub =
+    | StubMockHttpResponse
+    | StubInterceptHttpRequest
+    | StubReplayHar
+    | StubMockHttpScenario
+    | StubMockWebSocket
+    | StubMockSse
+    | StubFaultProfile;
+
+type HttpStub = Exclude<
+    AnyStub,
+    StubMockWebSocket | StubMockSse | StubFaultProfile
+>;
+
+const MAX_HAR_REPLAY_UNMATCHED_REQUESTS: number = 100;
+
+const DEFAULT_FAULT_ERROR_STATUSES: Array<number> = [500, 502, 503, 504];
+
+// Name of the page binding the SSE stub wrappers get the scripted events from
+const SSE_STUB_BINDING_NAME: string = '__mcpSseStub';
+
+// Headers describing the original encoding/framing of a recorded body,
+// which are not valid anymore for the decoded body served by a stub
+const RECORDED_RESPONSE_SKIPPED_HEADERS: Set<string> = new Set([
+    'content-encoding',
+    'content-length',
+    'transfer-encoding',
+]);
 
 type ContextStore = {
     stubs: Array<AnyStub>;
     installed: boolean;
+    webSocketInstalled: boolean;
+    sseInstalled: boolean;
+    // Patterns of the SSE stubs the pages have been configured with
+    ssePatternsKey?: string;
+    scenarioStates: Map<string, string>;
 };
 
 const STORE_BY_CONTEXT: WeakMap<BrowserContext, ContextStore> = new WeakMap<
@@ -78,7 +445,13 @@ function _ensureStore(ctx: BrowserContext): ContextStore {
         return existing;
     }
 
-    const created: ContextStore = { stubs: [], installed: false };
+    const created: ContextStore = {
+        stubs: [],
+        installed: false,
+        webSocketInstalled: false,
+        sseInstalled: false,
+        scenarioStates: new Map(),
+    };
     STORE_BY_CONTEXT.set(ctx, created);
     return created;
 }
@@ -154,8 +527,48 @@ function _compileMatcher(pattern: string): Matcher {
     });
 }
 
-function _pickStub(stubs: Array<AnyStub>, url: string): AnyStub | undefined {
-    for (const s of stubs) {
+function _findHarReplayEntry(
+    stub: StubReplayHar,
+    req: PwRequest
+): HarReplayEntry | undefined {
+    const method: string = req.method();
+    const url: string = req.url();
+    const postData: string | undefined = stub.matchBody
+        ? (req.postData() ?? undefined)
+        : undefined;
+
+    let lastMatched: HarReplayEntry | undefined;
+    for (const entry of stub.entries) {
+        if (entry.method !== method || entry.url !== url) {
+            continue;
+        }
+        if (stub.matchBody && (entry.postData ?? undefined) !== postData) {
+            continue;
+        }
+        // Entries recorded for the same request (e.g. polling) are served in order,
+        // then the last one is served for the subsequent requests
+        if (entry.usedCount === 0) {
+            return entry;
+        }
+        lastMatched = entry;
+    }
+    return lastMatched;
+}
+
+function _getScenarioState(store: ContextStore, name: string): string {
+    return store.scenarioStates.get(name) ?? SCENARIO_STARTED_STATE;
+}
+
+function _pickStub(store: ContextStore, req: PwRequest): HttpStub | undefined {
+    const url: string = req.url();
+    for (const s of store.stubs) {
+        if (
+            s.kind === StubKind.MOCK_WEBSOCKET ||
+            s.kind === StubKind.MOCK_SSE ||
+            s.kind === StubKind.FAULT_PROFILE
+        ) {
+            continue;
+        }
         if (!s.enabled) {
             continue;
         }
@@ -165,43 +578,173 @@ function _pickStub(stubs: Array<AnyStub>, url: string): AnyStub | undefined {
         if (!s.matcher(url)) {
             continue;
         }
+        if (s.kind !== StubKind.REPLAY_HAR) {
+            if (!matchesRequest(s.match, req)) {
+                continue;
+            }
+            if (
+                s.scenario?.requiredState !== undefined &&
+                _getScenarioState(store, s.scenario.name) !==
+                    s.scenario.requiredState
+            ) {
+                continue;
+            }
+        }
         if (s.kind === StubKind.MOCK_HTTP_RESPONSE) {
             if (!_shouldApplyChance(s.chance)) {
                 continue;
             }
         }
+        if (s.kind === StubKind.REPLAY_HAR && s.unmatched === 'passthrough') {
+            if (!_findHarReplayEntry(s, req)) {
+                continue;
+            }
+        }
         return s;
     }
     return undefined;
 }
 
-async function _applyStub(route: Route, stub: AnyStub): Promise<void> {
-    const req: PwRequest = route.request();
-
-    stub.usedCount++;
+/**
+ * Resolves the file to serve for the given request URL.
+ * Returns undefined if there is no such file (or it is outside of the directory).
+ */
+async function _resolveBodyFile(
+    bodyPath: StubBodyPath,
+    url: string
+): Promise<string | undefined> {
+    let filePath: string = bodyPath.path;
+    if (bodyPath.directory) {
+        let pathname: string;
+        try {
+            pathname = decodeURIComponent(new URL(url).pathname);
+        } catch {
+            return undefined;
+        }
+        const urlPrefix: string = bodyPath.urlPrefix ?? '/';
+        if (!pathname.startsWith(urlPrefix)) {
+            return undefined;
+        }
+        let relativePath: string = pathname.substring(urlPrefix.length);
+        if (!relativePath || relativePath.endsWith('/')) {
+            relativePath += 'index.html';
+        }
+        filePath = path.resolve(bodyPath.path, `.${path.sep}${relativePath}`);
+        if (!filePath.startsWith(bodyPath.path + path.sep)) {
+            return undefined;
+        }
+    }
+    try {
+        return (await fs.stat(filePath)).isFile() ? filePath : undefined;
+    } catch {
+        return undefined;
+    }
+}
 
-    if (stub.delayMs > 0) {
-        await _sleep(stub.delayMs);
+async function _fulfillMockResponse(
+    route: Route,
+    response: {
+        action: 'fulfill' | 'abort';
+        status?: number;
+        headers?: Record<string, string>;
+        body?: string;
+        bodyPath?: StubBodyPath;
+        abortErrorCode?: string;
+    }
+): Promise<void> {
+    if (response.action === 'abort') {
+        const code: string = response.abortErrorCode ?? 'failed';
+        await route.abort(code as any);
+        return;
     }
 
-    if (stub.kind === StubKind.MOCK_HTTP_RESPONSE) {
-        if (stub.action === 'abort') {
-            const code: string = stub.abortErrorCode ?? 'failed';
-            await route.abort(code as any);
+    const status: number =
+        typeof response.status === 'number' ? response.status : 200;
+    const headers: Record<string, string> = response.headers ?? {};
+
+    if (response.bodyPath) {
+        const filePath: string | undefined = await _resolveBodyFile(
+            response.bodyPath,
+            route.request().url()
+        );
+        if (!filePath) {
+            await route.fulfill({ status: 404, body: 'Not Found' });
             return;
         }
-
-        const status: number =
-            typeof stub.status === 'number' ? stub.status : 200;
-        const headers: Record<string, string> = stub.headers ?? {};
-        const body: string = typeof stub.body === 'string' ? stub.body : '';
-
+        // Content type is inferred from the file extension (unless specified by the headers)
         await route.fulfill({
             status,
             headers,
-            body,
+            path: filePath,
         });
         return;
+    }
+
+    const body: string = typeof response.body === 'string' ? response.body : '';
+
+    await route.fulfill({
+        status,
+        headers,
+        body,
+    });
+}
+
+async function _applyStub(
+    route: Route,
+    stub: HttpStub,
+    store: ContextStore
+): Promise<void> {
+    const req: PwRequest = route.request();
+
+    stub.usedCount++;
+
+    // Scenario step and state are moved forward before any wait,
+    // so concurrent requests are served by the consecutive steps
+    let step: StubScenarioStep | undefined;
+    if (stub.kind === StubKind.MOCK_HTTP_SCENARIO) {
+        step = stub.steps[stub.currentStep];
+        if (stub.currentStep < stub.steps.length - 1) {
+            stub.currentStep++;
+        } else if (stub.loop) {
+            stub.currentStep = 0;
+        }
+    }
+    if (stub.kind !== StubKind.REPLAY_HAR && stub.scenario) {
+        const newState: string | undefined =
+            step?.newState ?? stub.scenario.newState;
+        if (newState !== undefined) {
+            store.scenarioStates.set(stub.scenario.name, newState);
+        }
+    }
+
+    const delayMs: number = step?.delayMs ?? stub.delayMs;
+    if (delayMs > 0) {
+        await _sleep(delayMs);
+    }
+
+    if (stub.kind === StubKind.MOCK_HTTP_RESPONSE) {
+        let response: StubMockHttpResponse = stub;
+        if (stub.template) {
+            try {
+                response = {
+                    ...stub,
+                    ...renderResponseTemplate(stub.template, req, stub),
+                };
+            } catch (err: any) {
+                // Respond instead of failing the route, so the request doesn't hang
+                await route.fulfill({
+                    status: 500,
+                    headers: { 'content-type': 'text/plain' },
+                    body: `Unable to render the response template of stub ${stub.id}: ${err.message}`,
+                });
+                return;
+            }
+        }
+        await _fulfillMockResponse(route, response);
+        return;
+    } else if (stub.kind === StubKind.MOCK_HTTP_SCENARIO) {
+        await _fulfillMockResponse(route, step!);
+        return;
     } else if (stub.kind === StubKind.INTERCEPT_HTTP_REQUEST) {
         const headers: Record<string, string> = {
             ...req.headers(),
@@ -225,31 +768,387 @@ async function _applyStub(route: Route, stub: AnyStub): Promise<void> {
 
         await route.continue(overrides);
         return;
+    } else if (stub.kind === StubKind.REPLAY_HAR) {
+        const entry: HarReplayEntry | undefined = _findHarReplayEntry(
+            stub,
+            req
+        );
+        if (!entry) {
+            stub.unmatchedRequests.push({
+                method: req.method(),
+                url: req.url(),
+            });
+            if (
+                stub.unmatchedRequests.length >
+                MAX_HAR_REPLAY_UNMATCHED_REQUESTS
+            ) {
+                stub.unmatchedRequests.splice(
+                    0,
+                    stub.unmatchedRequests.length -
+                        MAX_HAR_REPLAY_UNMATCHED_REQUESTS
+                );
+            }
+            if (stub.unmatched === '404') {
+                await route.fulfill({ status: 404, body: '' });
+            } else if (stub.unmatched === 'abort') {
+                await route.abort('failed');
+            } else {
+                await route.continue();
+            }
+            return;
+        }
+
+        entry.usedCount++;
+        if (!entry.response) {
+            await route.abort('failed');
+            return;
+        }
+        await route.fulfill({
+            status: entry.response.status,
+            headers: entry.response.headers,
+            body: entry.response.body,
+        });
+        return;
     }
 
     await route.continue();
 }
 
-export async function ensureRoutingInstalled(
-    ctx: BrowserContext
-): Promise<void> {
-    const store: ContextStore = _ensureStore(ctx);
-    if (store.installed) {
-        return;
+function _pickWebSocketStub(
+    store: ContextStore,
+    url: string
+): StubMockWebSocket | undefined {
+    for (const s of store.stubs) {
+        if (s.kind !== StubKind.MOCK_WEBSOCKET) {
+            continue;
+        }
+        if (!s.enabled) {
+            continue;
+        }
+        if (!_isTimesRemaining(s.times, s.usedCount)) {
+            continue;
+        }
+        if (!s.matcher(url)) {
+            continue;
+        }
+        return s;
     }
+    return undefined;
+}
 
-    await ctx.route('**/*', async (route: Route): Promise<void> => {
-        const url: string = route.request().url();
-        const innerStore: ContextStore = _ensureStore(ctx);
+/**
+ * Applies the replacements of the given direction to the given forwarded message.
+ * Returns undefined if the message should be dropped.
+ * Binary messages are forwarded as they are.
+ */
+function _replaceWebSocketMessage(
+    stub: StubMockWebSocket,
+    direction: StubWebSocketReplacement['direction'],
+    message: string | Buffer
+): string | Buffer | undefined {
+    if (typeof message !== 'string') {
+        return message;
+    }
 
-        const stub: AnyStub | undefined = _pickStub(innerStore.stubs, url);
-        if (!stub) {
-            await route.continue();
-            return;
+    let result: string = message;
+    for (const r of stub.replacements) {
+        if (r.direction !== direction) {
+            continue;
         }
-
-        try {
-            await _applyStub(route, stub);
+        if (!new RegExp(r.match).test(result)) {
+            continue;
+        }
+        if (r.drop) {
+            return undefined;
+        }
+        result = result.replace(new RegExp(r.match, 'g'), r.replacement ?? '');
+    }
+    return result;
+}
+
+function _applyWebSocketStub(
+    ws: WebSocketRoute,
+    stub: StubMockWebSocket
+): void {
+    stub.usedCount++;
+
+    const timers: Array<NodeJS.Timeout> = [];
+    let closed: boolean = false;
+    const markClosed = (): void => {
+        closed = true;
+        timers.forEach((timer: NodeJS.Timeout): void => clearTimeout(timer));
+    };
+    const schedule = (ms: number, fn: () => void): void => {
+        timers.push(
+            setTimeout((): void => {
+                if (!closed) {
+                    fn();
+                }
+            }, ms)
+        );
+    };
+
+    const server: WebSocketRoute | undefined = stub.connectToServer
+        ? ws.connectToServer()
+        : undefined;
+
+    ws.onMessage((message: string | Buffer): void => {
+        if (closed) {
+            return;
+        }
+        if (typeof message === 'string') {
+            for (const reply of stub.replies) {
+                if (new RegExp(reply.match).test(message)) {
+                    reply.messages.forEach((m: string): void => ws.send(m));
+                }
+            }
+        }
+        if (server) {
+            const forwarded: string | Buffer | undefined =
+                _replaceWebSocketMessage(stub, 'sent', message);
+            if (forwarded !== undefined) {
+                server.send(forwarded);
+            }
+        }
+    });
+
+    if (server) {
+        server.onMessage((message: string | Buffer): void => {
+            if (closed) {
+                return;
+            }
+            const forwarded: string | Buffer | undefined =
+                _replaceWebSocketMessage(stub, 'received', message);
+            if (forwarded !== undefined) {
+                ws.send(forwarded);
+            }
+        });
+        // Closing is not forwarded automatically anymore once the close handlers are set
+        ws.onClose((code?: number, reason?: string): void => {
+            markClosed();
+            void server.close({ code, reason });
+        });
+        server.onClose((code?: number, reason?: string): void => {
+            markClosed();
+            void ws.close({ code, reason });
+        });
+    } else {
+        ws.onClose((): void => markClosed());
+    }
+
+    let at: number = stub.delayMs;
+    for (const m of stub.messages) {
+        at += m.delayMs ?? 0;
+        schedule(at, (): void => ws.send(m.data));
+    }
+
+    if (stub.close) {
+        const { afterMs, code, reason } = stub.close;
+        schedule(afterMs, (): void => {
+            markClosed();
+            void ws.close({ code, reason });
+            if (server) {
+                void server.close({ code, reason });
+            }
+        });
+    }
+}
+
+function _pickFaultProfile(
+    store: ContextStore,
+    url: string
+): StubFaultProfile | undefined {
+    for (const s of store.stubs) {
+        if (s.kind !== StubKind.FAULT_PROFILE) {
+            continue;
+        }
+        if (!s.enabled) {
+            continue;
+        }
+        if (!_isTimesRemaining(s.times, s.usedCount)) {
+            continue;
+        }
+        if (!s.matcher(url)) {
+            continue;
+        }
+        return s;
+    }
+    return undefined;
+}
+
+function _sampleFaultLatency(latency: StubFaultLatency): number {
+    let delayMs: number;
+    switch (latency.distribution) {
+        case 'fixed':
+            delayMs = latency.delayMs ?? 0;
+            break;
+        case 'uniform': {
+            const minMs: number = latency.minMs ?? 0;
+            const maxMs: number = latency.maxMs ?? minMs;
+            delayMs = minMs + Math.random() * (maxMs - minMs);
+            break;
+        }
+        case 'normal': {
+            // Box-Muller transform
+            const u: number = 1 - Math.random();
+            const v: number = Math.random();
+            const z: number =
+                Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+            delayMs = (latency.meanMs ?? 0) + z * (latency.stdDevMs ?? 0);
+            break;
+        }
+        case 'spike':
+            delayMs =
+                Math.random() < (latency.spikeRate ?? 0.01)
+                    ? (latency.spikeMs ?? 0)
+                    : (latency.delayMs ?? 0);
+            break;
+    }
+    return Math.max(0, Math.round(delayMs));
+}
+
+/**
+ * Applies the faults of the given profile (each one by its own rate) to the request.
+ * Returns true if the request has been handled (failed or fulfilled) by a fault,
+ * otherwise it is left to the stubs or the network.
+ * Body faults are applied only to the requests going to the network (passthrough=true).
+ */
+async function _applyFaultProfile(
+    route: Route,
+    profile: StubFaultProfile,
+    passthrough: boolean
+): Promise<boolean> {
+    profile.usedCount++;
+
+    if (profile.latency) {
+        const delayMs: number = _sampleFaultLatency(profile.latency);
+        if (delayMs > 0) {
+            profile.faultCounts.latency++;
+            await _sleep(delayMs);
+        }
+    }
+
+    if (profile.resets && _shouldApplyChance(profile.resets.rate)) {
+        profile.faultCounts.reset++;
+        await route.abort(
+            (profile.resets.errorCode ?? 'connectionreset') as any
+        );
+        return true;
+    }
+
+    if (profile.errors && _shouldApplyChance(profile.errors.rate)) {
+        const statuses: Array<number> = profile.errors.statuses?.length
+            ? profile.errors.statuses
+            : DEFAULT_FAULT_ERROR_STATUSES;
+        const status: number =
+            statuses[Math.floor(Math.random() * statuses.length)];
+        profile.faultCounts.error++;
+        await route.fulfill({
+            status,
+            contentType: 'text/plain',
+            body: `Injected fault by profile "${profile.name}"`,
+        });
+        return true;
+    }
+
+    if (!passthrough) {
+        return false;
+    }
+    const truncate: boolean =
+        profile.truncation !== undefined &&
+        _shouldApplyChance(profile.truncation.rate);
+    const delayBody: boolean =
+        profile.bodyTransferDelay !== undefined &&
+        _shouldApplyChance(profile.bodyTransferDelay.rate);
+    if (!truncate && !delayBody) {
+        return false;
+    }
+
+    let response: Awaited<ReturnType<Route['fetch']>>;
+    let body: Buffer;
+    try {
+        response = await route.fetch();
+        body = await response.body();
+    } catch {
+        // Upstream failed (e.g. connection refused or reset), so fail the request instead of leaving it pending
+        await route.abort('failed').catch((): void => {});
+        return true;
+    }
+    if (truncate) {
+        profile.faultCounts.truncation++;
+        body = body.subarray(
+            0,
+            Math.floor(body.length * (profile.truncation!.ratio ?? 0.5))
+        );
+    }
+    if (delayBody) {
+        profile.faultCounts.bodyTransferDelay++;
+        await _sleep(
+            Math.round(
+                (body.length * 1000) / profile.bodyTransferDelay!.bytesPerSecond
+            )
+        );
+    }
+    await route.fulfill({
+        status: response.status(),
+        headers: normalizeRecordedResponseHeaders(response.headers()),
+        body,
+    });
+    return true;
+}
+
+export async function ensureRoutingInstalled(
+    ctx: BrowserContext
+): Promise<void> {
+    const store: ContextStore = _ensureStore(ctx);
+    if (store.installed) {
+        return;
+    }
+
+    await ctx.route('**/*', async (route: Route): Promise<void> => {
+        const innerStore: ContextStore = _ensureStore(ctx);
+
+        const stub: HttpStub | undefined = _pickStub(
+            innerStore,
+            route.request()
+        );
+
+        const faultProfile: StubFaultProfile | undefined = _pickFaultProfile(
+            innerStore,
+            route.request().url()
+        );
+        if (faultProfile) {
+            let handled: boolean;
+            try {
+                handled = await _applyFaultProfile(
+                    route,
+                    faultProfile,
+                    stub === undefined
+                );
+            } finally {
+                if (
+                    !_isTimesRemaining(
+                        faultProfile.times,
+                        faultProfile.usedCount
+                    )
+                ) {
+                    innerStore.stubs = innerStore.stubs.filter(
+                        (x: AnyStub): boolean => x.id !== faultProfile.id
+                    );
+                }
+            }
+            if (handled) {
+                return;
+            }
+        }
+
+        if (!stub) {
+            await route.continue();
+            return;
+        }
+
+        try {
+            await _applyStub(route, stub, innerStore);
         } finally {
             if (!_isTimesRemaining(stub.times, stub.usedCount)) {
                 innerStore.stubs = innerStore.stubs.filter(
@@ -262,6 +1161,165 @@ export async function ensureRoutingInstalled(
     store.installed = true;
 }
 
+export async function ensureWebSocketRoutingInstalled(
+    ctx: BrowserContext
+): Promise<void> {
+    const store: ContextStore = _ensureStore(ctx);
+    if (store.webSocketInstalled) {
+        return;
+    }
+
+    // Connections not matched by any WebSocket stub are not routed at all
+    await ctx.routeWebSocket(
+        (url: URL): boolean =>
+            _pickWebSocketStub(_ensureStore(ctx), url.href) !== undefined,
+        (ws: WebSocketRoute): void => {
+            const innerStore: ContextStore = _ensureStore(ctx);
+
+            const stub: StubMockWebSocket | undefined = _pickWebSocketStub(
+                innerStore,
+                ws.url()
+            );
+            if (!stub) {
+                ws.connectToServer();
+                return;
+            }
+
+            try {
+                _applyWebSocketStub(ws, stub);
+            } finally {
+                if (!_isTimesRemaining(stub.times, stub.usedCount)) {
+                    innerStore.stubs = innerStore.stubs.filter(
+                        (x: AnyStub): boolean => x.id !== stub.id
+                    );
+                }
+            }
+        }
+    );
+
+    store.webSocketInstalled = true;
+}
+
+function _pickSseStub(
+    store: ContextStore,
+    url: string
+): StubMockSse | undefined {
+    for (const s of store.stubs) {
+        if (s.kind !== StubKind.MOCK_SSE) {
+            continue;
+        }
+        if (!s.enabled) {
+            continue;
+        }
+        if (!_isTimesRemaining(s.times, s.usedCount)) {
+            continue;
+        }
+        if (!s.matcher(url)) {
+            continue;
+        }
+        return s;
+    }
+    return undefined;
+}
+
+/**
+ * Serves the scripted events of the matching SSE stub (if any) for a stream opened by a page.
+ */
+function _serveSseStub(
+    store: ContextStore,
+    url: string
+): SseStubScriptResponse | null {
+    const stub: StubMockSse | undefined = _pickSseStub(store, url);
+    if (!stub) {
+        return null;
+    }
+
+    stub.usedCount++;
+    if (!_isTimesRemaining(stub.times, stub.usedCount)) {
+        store.stubs = store.stubs.filter(
+            (x: AnyStub): boolean => x.id !== stub.id
+        );
+    }
+
+    return {
+        status: stub.status,
+        headers: {
+            'content-type': 'text/event-stream',
+            'cache-control': 'no-cache',
+            ...(stub.headers ?? {}),
+        },
+        events: stub.events.map(
+            (e: StubSseEvent, i: number): SseStubScriptEvent => ({
+                event: e.event || 'message',
+                data: e.data,
+                id: e.id,
+                retry: e.retry,
+                delayMs: (i === 0 ? stub.delayMs : 0) + (e.delayMs ?? 0),
+                text: formatSseEvent(e),
+            })
+        ),
+        keepOpen: stub.keepOpen,
+    };
+}
+
+/**
+ * Configures the pages (the current documents and the new ones) with the URL patterns of the SSE stubs.
+ */
+async function _syncSseStubScript(
+    ctx: BrowserContext,
+    store: ContextStore
+): Promise<void> {
+    const patterns: Array<SseStubScriptPattern> = [];
+    for (const s of store.stubs) {
+        if (s.kind === StubKind.MOCK_SSE && s.enabled && s.pattern.trim()) {
+            const re: RegExp = picomatch.makeRe(s.pattern.trim(), {
+                dot: true,
+                nocase: false,
+            });
+            patterns.push({ source: re.source, flags: re.flags });
+        }
+    }
+    const patternsKey: string = JSON.stringify(patterns);
+    if (patternsKey === store.ssePatternsKey) {
+        return;
+    }
+    store.ssePatternsKey = patternsKey;
+
+    const cfg: SseStubScriptConfig = {
+        bindingName: SSE_STUB_BINDING_NAME,
+        patterns,
+    };
+    // Init scripts can't be removed, so the later one overrides the patterns set by the earlier ones
+    await ctx.addInitScript(installSseStubScript, cfg);
+    for (const page of ctx.pages()) {
+        for (const frame of page.frames()) {
+            await frame.evaluate(installSseStubScript, cfg).catch((): void => {
+                // Frame might be detached or navigating, its new document gets the init script anyway
+            });
+        }
+    }
+}
+
+/**
+ * Installs the page binding of the SSE stubs (once)
+ * and configures the pages with the URL patterns of the current SSE stubs.
+ * Must be called after the SSE stubs are added.
+ */
+export async function ensureSseStubsInstalled(
+    ctx: BrowserContext
+): Promise<void> {
+    const store: ContextStore = _ensureStore(ctx);
+    if (!store.sseInstalled) {
+        await ctx.exposeBinding(
+            SSE_STUB_BINDING_NAME,
+            (source: unknown, url: string): SseStubScriptResponse | null =>
+                _serveSseStub(_ensureStore(ctx), url)
+        );
+        store.sseInstalled = true;
+    }
+    await _syncSseStubScript(ctx, store);
+}
+
 export function addMockHttpResponseStub(
     ctx: BrowserContext,
     input: Omit<StubMockHttpResponse, 'kind' | 'id' | 'usedCount' | 'matcher'>
@@ -306,12 +1364,285 @@ export function addHttpInterceptRequestStub(
     return stub;
 }
 
+export function addReplayHarStub(
+    ctx: BrowserContext,
+    input: Omit<
+        StubReplayHar,
+        'kind' | 'id' | 'usedCount' | 'matcher' | 'unmatchedRequests'
+    >
+): StubReplayHar {
+    const store: ContextStore = _ensureStore(ctx);
+
+    const stub: StubReplayHar = {
+        ...input,
+        kind: StubKind.REPLAY_HAR,
+        id: _nowId(),
+        usedCount: 0,
+        matcher: _compileMatcher(input.pattern),
+        entries: input.entries.map(
+            (entry: HarReplayEntry): HarReplayEntry => ({
+                ...entry,
+                method: entry.method.toUpperCase(),
+                response: entry.response
+                    ? {
+                          ...entry.response,
+                          headers: normalizeRecordedResponseHeaders(
+                              entry.response.headers
+                          ),
+                      }
+                    : undefined,
+                usedCount: 0,
+            })
+        ),
+        unmatchedRequests: [],
+        times: _normalizeTimes(input.times),
+        delayMs: Math.max(0, Math.floor(input.delayMs)),
+    };
+
+    store.stubs.push(stub);
+    return stub;
+}
+
+export function addMockHttpScenarioStub(
+    ctx: BrowserContext,
+    input: Omit<
+        StubMockHttpScenario,
+        'kind' | 'id' | 'usedCount' | 'matcher' | 'currentStep'
+    >
+): StubMockHttpScenario {
+    const store: ContextStore = _ensureStore(ctx);
+
+    if (input.steps.length === 0) {
+        throw new Error('Scenario stub must have at least one step');
+    }
+
+    const stub: StubMockHttpScenario = {
+        ...input,
+        kind: StubKind.MOCK_HTTP_SCENARIO,
+        id: _nowId(),
+        usedCount: 0,
+        matcher: _compileMatcher(input.pattern),
+        currentStep: 0,
+        times: _normalizeTimes(input.times),
+        delayMs: Math.max(0, Math.floor(input.delayMs)),
+    };
+
+    store.stubs.push(stub);
+    return stub;
+}
+
+export function addMockWebSocketStub(
+    ctx: BrowserContext,
+    input: Omit<StubMockWebSocket, 'kind' | 'id' | 'usedCount' | 'matcher'>
+): StubMockWebSocket {
+    const store: ContextStore = _ensureStore(ctx);
+
+    const stub: StubMockWebSocket = {
+        ...input,
+        kind: StubKind.MOCK_WEBSOCKET,
+        id: _nowId(),
+        usedCount: 0,
+        matcher: _compileMatcher(input.pattern),
+        times: _normalizeTimes(input.times),
+        delayMs: Math.max(0, Math.floor(input.delayMs)),
+    };
+
+    store.stubs.push(stub);
+    return stub;
+}
+
+export function addMockSseStub(
+    ctx: BrowserContext,
+    input: Omit<StubMockSse, 'kind' | 'id' | 'usedCount' | 'matcher'>
+): StubMockSse {
+    const store: ContextStore = _ensureStore(ctx);
+
+    const stub: StubMockSse = {
+        ...input,
+        kind: StubKind.MOCK_SSE,
+        id: _nowId(),
+        usedCount: 0,
+        matcher: _compileMatcher(input.pattern),
+        times: _normalizeTimes(input.times),
+        delayMs: Math.max(0, Math.floor(input.delayMs)),
+    };
+
+    store.stubs.push(stub);
+    return stub;
+}
+
+/**
+ * Installs the given fault profile, replacing the installed profile with the same name (if any).
+ */
+export function addFaultProfileStub(
+    ctx: BrowserContext,
+    input: Omit<
+        StubFaultProfile,
+        'kind' | 'id' | 'usedCount' | 'matcher' | 'faultCounts'
+    >
+): StubFaultProfile {
+    const store: ContextStore = _ensureStore(ctx);
+
+    const patterns: Array<string> = input.patterns
+        .map((p: string): string => p.trim())
+        .filter((p: string): boolean => p.length > 0);
+    if (patterns.length === 0) {
+        throw new Error('Fault profile must have at least one pattern');
+    }
+    if (
+        !input.errors &&
+        !input.latency &&
+        !input.resets &&
+        !input.truncation &&
+        !input.bodyTransferDelay
+    ) {
+        throw new Error('Fault profile must have at least one fault');
+    }
+
+    const stub: StubFaultProfile = {
+        ...input,
+        kind: StubKind.FAULT_PROFILE,
+        id: _nowId(),
+        usedCount: 0,
+        patterns,
+        matcher: picomatch(patterns, {
+            dot: true,
+            nocase: false,
+        }),
+        faultCounts: {
+            error: 0,
+            latency: 0,
+            reset: 0,
+            truncation: 0,
+            bodyTransferDelay: 0,
+        },
+        times: _normalizeTimes(input.times),
+    };
+
+    store.stubs = store.stubs.filter(
+        (s: AnyStub): boolean =>
+            s.kind !== StubKind.FAULT_PROFILE || s.name !== stub.name
+    );
+    store.stubs.push(stub);
+    return stub;
+}
+
+/**
+ * Returns the installed fault profile with the given name (if any).
+ */
+export function getFaultProfile(
+    ctx: BrowserContext,
+    name: string
+): StubFaultProfile | undefined {
+    const store: ContextStore = _ensureStore(ctx);
+    return store.stubs.find(
+        (s: AnyStub): s is StubFaultProfile =>
+            s.kind === StubKind.FAULT_PROFILE && s.name === name
+    );
+}
+
+/**
+ * Returns the URL pattern(s) of the given stub for display.
+ */
+export function getStubPattern(stub: AnyStub): string {
+    return stub.kind === StubKind.FAULT_PROFILE
+        ? stub.patterns.join(', ')
+        : stub.pattern;
+}
+
+/**
+ * Returns the current states of the named scenarios which have been moved from their initial state.
+ */
+export function getScenarioStates(ctx: BrowserContext): Record<string, string> {
+    const store: ContextStore = _ensureStore(ctx);
+    return Object.fromEntries(store.scenarioStates.entries());
+}
+
+/**
+ * Sets the state of the named scenario and returns its previous state.
+ * If state is not specified, the scenario is reset to its initial state.
+ */
+export function setScenarioState(
+    ctx: BrowserContext,
+    name: string,
+    state?: string
+): string {
+    const store: ContextStore = _ensureStore(ctx);
+    const previousState: string = _getScenarioState(store, name);
+    if (state === undefined || state === SCENARIO_STARTED_STATE) {
+        store.scenarioStates.delete(name);
+    } else {
+        store.scenarioStates.set(name, state);
+    }
+    return previousState;
+}
+
+/**
+ * Loads the entries of the given HAR file to be served by a HAR replay stub.
+ */
+export async function loadHarReplayEntries(
+    harPath: string
+): Promise<Array<HarReplayEntry>> {
+    let har: any;
+    try {
+        har = JSON.parse(await fs.readFile(harPath, 'utf-8'));
+    } catch (err: any) {
+        throw new Error(`Unable to read HAR file ${harPath}: ${err.message}`);
+    }
+    if (!Array.isArray(har?.log?.entries)) {
+        throw new Error(
+            `Invalid HAR file ${harPath}: "log.entries" is missing`
+        );
+    }
+
+    return har.log.entries.map((entry: any, index: number): HarReplayEntry => {
+        const status: number = Number(entry?.response?.status) || 0;
+        const headers: Record<string, string> = {};
+        for (const header of entry?.response?.headers ?? []) {
+            const name: string = String(header.name);
+            // Multiple headers with the same name (e.g. "set-cookie") are joined by new line
+            headers[name] =
+                headers[name] !== undefined
+                    ? `${headers[name]}\n${header.value}`
+                    : String(header.value);
+        }
+        const text: string = entry?.response?.content?.text ?? '';
+        return {
+            index,
+            method: String(entry?.request?.method ?? 'GET'),
+            url: String(entry?.request?.url ?? ''),
+            postData: entry?.request?.postData?.text,
+            // Status "0" means the request had failed without a response
+            response:
+                status > 0
+                    ? {
+                          status,
+                          headers,
+                          body: Buffer.from(
+                              text,
+                              entry.response.content?.encoding === 'base64'
+                                  ? 'base64'
+                                  : 'utf-8'
+                          ),
+                      }
+                    : undefined,
+            usedCount: 0,
+        };
+    });
+}
+
+export function getStub(ctx: BrowserContext, id: string): AnyStub | undefined {
+    const store: ContextStore = _ensureStore(ctx);
+    return store.stubs.find((s: AnyStub): boolean => s.id === id);
+}
+
 export function clearStub(ctx: BrowserContext, id?: string): number {
     const store: ContextStore = _ensureStore(ctx);
 
     if (!id) {
         const n: number = store.stubs.length;
         store.stubs = [];
+        store.scenarioStates.clear();
         return n;
     }
 
@@ -320,11 +1651,295 @@ export function clearStub(ctx: BrowserContext, id?: string): number {
     return before - store.stubs.length;
 }
 
+/**
+ * Moves the stubs of the given browser context to the other one
+ * (e.g. when the browser context of the session is recreated).
+ */
+export async function transferStubs(
+    fromCtx: BrowserContext,
+    toCtx: BrowserContext
+): Promise<number> {
+    const fromStore: ContextStore | undefined = STORE_BY_CONTEXT.get(fromCtx);
+    if (!fromStore || fromStore.stubs.length === 0) {
+        return 0;
+    }
+
+    const toStore: ContextStore = _ensureStore(toCtx);
+    toStore.stubs.push(...fromStore.stubs);
+    fromStore.stubs = [];
+    for (const [name, state] of fromStore.scenarioStates) {
+        toStore.scenarioStates.set(name, state);
+    }
+    fromStore.scenarioStates.clear();
+
+    if (fromStore.installed) {
+        await ensureRoutingInstalled(toCtx);
+    }
+    if (fromStore.webSocketInstalled) {
+        await ensureWebSocketRoutingInstalled(toCtx);
+    }
+    if (fromStore.sseInstalled) {
+        await ensureSseStubsInstalled(toCtx);
+    }
+
+    return toStore.stubs.length;
+}
+
 export function listStubs(ctx: BrowserContext): Array<AnyStub> {
     const store: ContextStore = _ensureStore(ctx);
     return [...store.stubs];
 }
 
+export function scenarioSchema(): ZodTypeAny {
+    return z
+        .object({
+            name: z.string().min(1).describe('Name of the scenario.'),
+            requiredState: z
+                .string()
+                .optional()
+                .describe(
+                    `Apply the stub only while the scenario is in this state (initial state is "${SCENARIO_STARTED_STATE}").`
+                ),
+            newState: z
+                .string()
+                .optional()
+                .describe(
+                    'Move the scenario to this state when the stub is applied.'
+                ),
+        })
+        .optional()
+        .describe(
+            'Binds the stub to a named scenario state machine (like WireMock scenarios), ' +
+                'so stubs can be enabled by and advance the shared scenario state.'
+        );
+}
+
+/**
+ * Output schema of the scenario a stub is bound to (see "scenarioSchema" for the input).
+ */
+export function scenarioOutputSchema(): ZodTypeAny {
+    return z
+        .object({
+            name: z.string().describe('Name of the scenario.'),
+            requiredState: z
+                .string()
+                .optional()
+                .describe('Required scenario state (if any).'),
+            newState: z
+                .string()
+                .optional()
+                .describe('Scenario state to move to (if any).'),
+        })
+        .optional()
+        .describe('Scenario the stub is bound to (if any).');
+}
+
+export function faultsSchema(): Record<string, ZodTypeAny> {
+    const rate = (fault: string): ZodTypeAny =>
+        z
+            .number()
+            .min(0)
+            .max(1)
+            .describe(`Chance (0..1) of ${fault} for each request.`);
+    const ms = (description: string): ZodTypeAny =>
+        z.number().int().nonnegative().optional().describe(description);
+    return {
+        errors: z
+            .object({
+                rate: rate('an error response'),
+                statuses: z
+                    .array(z.number().int().min(100).max(599))
+                    .optional()
+                    .describe(
+                        'Statuses to pick randomly from (500, 502, 503 and 504 by default).'
+                    ),
+            })
+            .optional()
+            .describe('Random error responses (5xx by default).'),
+        latency: z
+            .object({
+                distribution: z
+                    .enum(['fixed', 'uniform', 'normal', 'spike'])
+                    .describe(
+                        'Latency distribution: "fixed" (delayMs), "uniform" (minMs..maxMs), ' +
+                            '"normal" (meanMs, stdDevMs) or "spike" (delayMs, but spikeMs with spikeRate chance).'
+                    ),
+                delayMs: ms(
+                    'For "fixed": latency. For "spike": latency without spike (0 by default).'
+                ),
+                minMs: ms('For "uniform": minimum latency.'),
+                maxMs: ms('For "uniform": maximum latency.'),
+                meanMs: ms('For "normal": mean latency.'),
+                stdDevMs: ms(
+                    'For "normal": standard deviation of the latency.'
+                ),
+                spikeMs: ms('For "spike": latency of the spikes.'),
+                spikeRate: z
+                    .number()
+                    .min(0)
+                    .max(1)
+                    .optional()
+                    .describe(
+                        'For "spike": chance (0..1) of a spike (0.01 by default, p99 spikes).'
+                    ),
+            })
+            .optional()
+            .describe(
+                'Latency added to each request, drawn from a distribution.'
+            ),
+        resets: z
+            .object({
+                rate: rate('a connection reset'),
+                errorCode: z
+                    .string()
+                    .optional()
+                    .describe(
+                        'Playwright abort error code ("connectionreset" by default).'
+                    ),
+            })
+            .optional()
+            .describe('Random connection resets.'),
+        truncation: z
+            .object({
+                rate: rate('a truncated body'),
+                ratio: z
+                    .number()
+                    .min(0)
+                    .max(1)
+                    .optional()
+                    .describe(
+                        'Ratio (0..1) of the body to keep (0.5 by default).'
+                    ),
+            })
+            .optional()
+            .describe('Random truncated response bodies.'),
+        bodyTransferDelay: z
+            .object({
+                rate: rate('a body transfer delay'),
+                bytesPerSecond: z
+                    .number()
+                    .positive()
+                    .describe(
+                        'Transfer rate of the body to compute the delay by.'
+                    ),
+            })
+            .optional()
+            .describe(
+                'Random response body delays, by the time it would take to transfer the body at the given rate. The body is then delivered in one piece, not streamed.'
+            ),
+    };
+}
+
+export function normalizeScenario(
+    scenario?: StubScenario
+): StubScenario | undefined {
+    if (!scenario) {
+        return undefined;
+    }
+    const name: string = scenario.name.trim();
+    if (!name) {
+        throw new Error('Scenario name must not be empty');
+    }
+    const out: StubScenario = { name };
+    if (scenario.requiredState !== undefined) {
+        out.requiredState = scenario.requiredState;
+    }
+    if (scenario.newState !== undefined) {
+        out.newState = scenario.newState;
+    }
+    return out;
+}
+
+/**
+ * Resolves the given local file or directory path (relative to the current working directory)
+ * to serve the mocked response body from.
+ */
+export async function normalizeBodyPath(
+    bodyPath?: string,
+    urlPrefix?: string
+): Promise<StubBodyPath | undefined> {
+    if (!bodyPath) {
+        if (urlPrefix) {
+            throw new Error('"urlPrefix" requires "bodyPath" of a directory');
+        }
+        return undefined;
+    }
+
+    const resolvedPath: string = path.resolve(bodyPath);
+    let directory: boolean;
+    try {
+        directory = (await fs.stat(resolvedPath)).isDirectory();
+    } catch (err: any) {
+        throw new Error(
+            `Unable to access body path ${resolvedPath}: ${err.message}`
+        );
+    }
+    if (!directory) {
+        if (urlPrefix) {
+            throw new Error('"urlPrefix" requires "bodyPath" of a directory');
+        }
+        return { path: resolvedPath, directory };
+    }
+
+    let normalizedUrlPrefix: string = (urlPrefix ?? '/').trim();
+    if (!normalizedUrlPrefix.startsWith('/')) {
+        normalizedUrlPrefix = `/${normalizedUrlPrefix}`;
+    }
+    if (!normalizedUrlPrefix.endsWith('/')) {
+        normalizedUrlPrefix = `${normalizedUrlPrefix}/`;
+    }
+    return {
+        path: resolvedPath,
+        directory,
+        urlPrefix: normalizedUrlPrefix,
+    };
+}
+
+/**
+ * Validates the given regular expression source of a WebSocket stub.
+ */
+export function normalizeRegExpSource(source: string, name: string): string {
+    try {
+        new RegExp(source);
+    } catch (err: any) {
+        throw new Error(
+            `Invalid regular expression for ${name}: ${err.message}`
+        );
+    }
+    return source;
+}
+
+/**
+ * Validates that the parameters of the given latency distribution are specified.
+ */
+export function normalizeFaultLatency(
+    latency?: StubFaultLatency
+): StubFaultLatency | undefined {
+    if (!latency) {
+        return undefined;
+    }
+    const required: Record<
+        StubFaultLatency['distribution'],
+        Array<keyof StubFaultLatency>
+    > = {
+        fixed: ['delayMs'],
+        uniform: ['minMs', 'maxMs'],
+        normal: ['meanMs', 'stdDevMs'],
+        spike: ['spikeMs'],
+    };
+    for (const name of required[latency.distribution]) {
+        if (latency[name] === undefined) {
+            throw new Error(
+                `"${latency.distribution}" latency distribution requires "${name}"`
+            );
+        }
+    }
+    if (latency.distribution === 'uniform' && latency.maxMs! < latency.minMs!) {
+        throw new Error('"maxMs" of the latency must not be less than "minMs"');
+    }
+    return latency;
+}
+
 export function normalizeDelayMs(delayMs?: number): number {
     if (typeof delayMs !== 'number') {
         return 0;
@@ -390,3 +2005,19 @@ export function normalizeMethod(method?: string): string | undefined {
 export function normalizeChance(chance?: number): number | undefined {
     return _normalizeChance(chance);
 }
+
+/**
+ * Removes the headers which describe the original encoding/framing of a recorded response body
+ * (e.g. "content-encoding"), as the body is served decoded by the stubs.
+ */
+export function normalizeRecordedResponseHeaders(
+    headers: Record<string, string>
+): Record<string, string> {
+    const out: Record<string, string> = {};
+    for (const [k, v] of Object.entries(headers)) {
+        if (!RECORDED_RESPONSE_SKIPPED_HEADERS.has(k.toLowerCase())) {
+            out[k] = v;
+        }
+    }
+    return out;
+}
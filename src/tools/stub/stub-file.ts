@@ -0,0 +1,545 @@
+import { normalizeRequestMatch, requestMatchSchema } from './request-matcher';
+import { validateTemplate } from './response-template';
+import {
+    addFaultProfileStub,
+    addHttpInterceptRequestStub,
+    addMockHttpResponseStub,
+    addMockHttpScenarioStub,
+    addMockSseStub,
+    addMockWebSocketStub,
+    addReplayHarStub,
+    AnyStub,
+    clearStub,
+    ensureRoutingInstalled,
+    ensureSseStubsInstalled,
+    ensureWebSocketRoutingInstalled,
+    faultsSchema,
+    loadHarReplayEntries,
+    normalizeBodyPath,
+    normalizeDelayMs,
+    normalizeFaultLatency,
+    normalizeRegExpSource,
+    normalizeScenario,
+    normalizeTimesPublic,
+    scenarioSchema,
+    StubFaultProfile,
+    StubInterceptHttpRequest,
+    StubKind,
+    StubMockHttpResponse,
+    StubMockHttpScenario,
+    StubMockSse,
+    StubMockWebSocket,
+    StubReplayHar,
+    StubScenario,
+    StubScenarioStep,
+    StubWebSocketReplacement,
+    StubWebSocketReply,
+} from './stub-controller';
+
+import fs from 'fs/promises';
+import path from 'path';
+
+import type { BrowserContext } from 'playwright';
+import YAML from 'yaml';
+import { SafeParseReturnType, z, ZodTypeAny } from 'zod';
+
+/**
+ * Version of the stub file format.
+ * Increased on incompatible changes, so older files can be detected and migrated.
+ */
+export const STUB_FILE_VERSION: number = 1;
+
+export enum StubFileFormat {
+    JSON = 'json',
+    YAML = 'yaml',
+}
+
+const STUB_FILE_YAML_EXTENSIONS: string[] = ['.yaml', '.yml'];
+
+/**
+ * Serializable definition of a stub: the stub without its id and runtime state
+ * (compiled matcher, usage and fault counters, current scenario step, loaded HAR entries).
+ */
+export type StubDefinition =
+    | Omit<StubMockHttpResponse, 'id' | 'matcher' | 'usedCount'>
+    | Omit<StubInterceptHttpRequest, 'id' | 'matcher' | 'usedCount'>
+    | Omit<
+          StubReplayHar,
+          'id' | 'matcher' | 'usedCount' | 'entries' | 'unmatchedRequests'
+      >
+    | Omit<StubMockHttpScenario, 'id' | 'matcher' | 'usedCount' | 'currentStep'>
+    | Omit<StubMockWebSocket, 'id' | 'matcher' | 'usedCount'>
+    | Omit<StubMockSse, 'id' | 'matcher' | 'usedCount'>
+    | Omit<StubFaultProfile, 'id' | 'matcher' | 'usedCount' | 'faultCounts'>;
+
+export type StubFile = {
+    version: number;
+    exportedAt?: string;
+    stubs: Array<StubDefinition>;
+};
+
+function _responseSchema(): Record<string, ZodTypeAny> {
+    return {
+        action: z.enum(['fulfill', 'abort']).default('fulfill'),
+        status: z.number().int().min(100).max(599).optional(),
+        headers: z.record(z.string(), z.string()).optional(),
+        body: z.string().optional(),
+        abortErrorCode: z.string().optional(),
+    };
+}
+
+function _stubFileSchema(): ZodTypeAny {
+    const common: Record<string, ZodTypeAny> = {
+        enabled: z.boolean().default(true),
+        pattern: z.string().min(1),
+        delayMs: z.number().int().nonnegative().default(0),
+        times: z.number().int().default(-1),
+    };
+    return z.object({
+        version: z.literal(STUB_FILE_VERSION, {
+            errorMap: () => ({
+                message: `Unsupported stub file version, expected ${STUB_FILE_VERSION}`,
+            }),
+        }),
+        exportedAt: z.string().optional(),
+        stubs: z.array(
+            z.discriminatedUnion('kind', [
+                z.object({
+                    ...common,
+                    kind: z.literal(StubKind.MOCK_HTTP_RESPONSE),
+                    match: requestMatchSchema(),
+                    scenario: scenarioSchema(),
+                    ..._responseSchema(),
+                    bodyPath: z
+                        .object({
+                            path: z.string().min(1),
+                            urlPrefix: z.string().optional(),
+                        })
+                        .optional(),
+                    template: z
+                        .object({
+                            pathPattern: z.string().optional(),
+                        })
+                        .optional(),
+                    chance: z.number().min(0).max(1).optional(),
+                }),
+                z.object({
+                    ...common,
+                    kind: z.literal(StubKind.INTERCEPT_HTTP_REQUEST),
+                    match: requestMatchSchema(),
+                    scenario: scenarioSchema(),
+                    modifications: z
+                        .object({
+                            headers: z
+                                .record(z.string(), z.string())
+                                .optional(),
+                            body: z.string().optional(),
+                            method: z.string().optional(),
+                        })
+                        .default({}),
+                }),
+                z.object({
+                    ...common,
+                    kind: z.literal(StubKind.REPLAY_HAR),
+                    harPath: z.string().min(1),
+                    matchBody: z.boolean().default(false),
+                    unmatched: z
+                        .enum(['abort', 'passthrough', '404'])
+                        .default('abort'),
+                }),
+                z.object({
+                    ...common,
+                    kind: z.literal(StubKind.MOCK_HTTP_SCENARIO),
+                    match: requestMatchSchema(),
+                    scenario: scenarioSchema(),
+                    steps: z
+                        .array(
+                            z.object({
+                                ..._responseSchema(),
+                                delayMs: z
+                                    .number()
+                                    .int()
+                                    .nonnegative()
+                                    .optional(),
+                                newState: z.string().optional(),
+                            })
+                        )
+                        .min(1),
+                    loop: z.boolean().default(false),
+                }),
+                z.object({
+                    ...common,
+                    kind: z.literal(StubKind.MOCK_WEBSOCKET),
+                    connectToServer: z.boolean().default(false),
+                    messages: z
+                        .array(
+                            z.object({
+                                data: z.string(),
+                                delayMs: z
+                                    .number()
+                                    .int()
+                                    .nonnegative()
+                                    .optional(),
+                            })
+                        )
+                        .default([]),
+                    replies: z
+                        .array(
+                            z.object({
+                                match: z.string(),
+                                messages: z.array(z.string()),
+                            })
+                        )
+                        .default([]),
+                    replacements: z
+                        .array(
+                            z.object({
+                                direction: z.enum(['sent', 'received']),
+                                match: z.string(),
+                                replacement: z.string().optional(),
+                                drop: z.boolean().optional(),
+                            })
+                        )
+                        .default([]),
+                    close: z
+                        .object({
+                            afterMs: z.number().int().nonnegative(),
+                            code: z
+                                .number()
+                                .int()
+                                .min(1000)
+                                .max(4999)
+                                .optional(),
+                            reason: z.string().optional(),
+                        })
+                        .optional(),
+                }),
+                z.object({
+                    ...common,
+                    kind: z.literal(StubKind.MOCK_SSE),
+                    status: z.number().int().min(100).max(599).default(200),
+                    headers: z.record(z.string(), z.string()).optional(),
+                    events: z.array(
+                        z.object({
+                            event: z.string().optional(),
+                            data: z.string(),
+                            id: z.string().optional(),
+                            retry: z.number().int().nonnegative().optional(),
+                            delayMs: z.number().int().nonnegative().optional(),
+                        })
+                    ),
+                    keepOpen: z.boolean().default(false),
+                }),
+                z.object({
+                    enabled: common.enabled,
+                    times: common.times,
+                    kind: z.literal(StubKind.FAULT_PROFILE),
+                    name: z.string().min(1),
+                    patterns: z.array(z.string().min(1)).min(1),
+                    ...faultsSchema(),
+                }),
+            ])
+        ),
+    });
+}
+
+/**
+ * Converts the given stub into its serializable definition.
+ * Matchers are kept by their source patterns.
+ */
+export function toStubDefinition(stub: AnyStub): StubDefinition {
+    // "kind" is put first to keep the stub file readable
+    switch (stub.kind) {
+        case StubKind.MOCK_HTTP_RESPONSE: {
+            const { id, matcher, usedCount, kind, ...definition } = stub;
+            return { kind, ...definition };
+        }
+        case StubKind.INTERCEPT_HTTP_REQUEST: {
+            const { id, matcher, usedCount, kind, ...definition } = stub;
+            return { kind, ...definition };
+        }
+        case StubKind.REPLAY_HAR: {
+            const {
+                id,
+                matcher,
+                usedCount,
+                entries,
+                unmatchedRequests,
+                kind,
+                ...definition
+            } = stub;
+            return { kind, ...definition };
+        }
+        case StubKind.MOCK_HTTP_SCENARIO: {
+            const { id, matcher, usedCount, currentStep, kind, ...definition } =
+                stub;
+            return { kind, ...definition };
+        }
+        case StubKind.MOCK_WEBSOCKET: {
+            const { id, matcher, usedCount, kind, ...definition } = stub;
+            return { kind, ...definition };
+        }
+        case StubKind.MOCK_SSE: {
+            const { id, matcher, usedCount, kind, ...definition } = stub;
+            return { kind, ...definition };
+        }
+        case StubKind.FAULT_PROFILE: {
+            const { id, matcher, usedCount, faultCounts, kind, ...definition } =
+                stub;
+            return { kind, ...definition };
+        }
+    }
+}
+
+function _isYamlStubFile(filePath: string): boolean {
+    return STUB_FILE_YAML_EXTENSIONS.includes(
+        path.extname(filePath).toLowerCase()
+    );
+}
+
+/**
+ * Writes the definitions of the given stubs into the given file,
+ * as YAML if the file has a ".yaml" or ".yml" extension, otherwise as JSON.
+ */
+export async function writeStubFile(
+    filePath: string,
+    stubs: Array<AnyStub>
+): Promise<void> {
+    const stubFile: StubFile = {
+        version: STUB_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        stubs: stubs.map(toStubDefinition),
+    };
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(
+        filePath,
+        _isYamlStubFile(filePath)
+            ? YAML.stringify(stubFile)
+            : JSON.stringify(stubFile, null, 2),
+        'utf-8'
+    );
+}
+
+/**
+ * Reads the given stub file and installs its stubs into the given browser context.
+ * The stub file is parsed as YAML if it has a ".yaml" or ".yml" extension, otherwise as JSON.
+ * Relative file paths (HAR files, body files) in the stub file are resolved
+ * relative to the directory of the stub file.
+ * If replace is true, the installed stubs are removed (and scenario states are reset)
+ * once the stub file is validated.
+ */
+export async function importStubFile(
+    ctx: BrowserContext,
+    filePath: string,
+    replace: boolean = false
+): Promise<Array<AnyStub>> {
+    let content: any;
+    try {
+        const text: string = await fs.readFile(filePath, 'utf-8');
+        content = _isYamlStubFile(filePath)
+            ? YAML.parse(text)
+            : JSON.parse(text);
+    } catch (err: any) {
+        throw new Error(`Unable to read stub file ${filePath}: ${err.message}`);
+    }
+    const result: SafeParseReturnType<any, StubFile> =
+        _stubFileSchema().safeParse(content);
+    if (!result.success) {
+        throw new Error(
+            `Invalid stub file ${filePath}: ${result.error.issues
+                .map(
+                    (issue: z.ZodIssue): string =>
+                        `${issue.path.join('.') || '<root>'}: ${issue.message}`
+                )
+                .join('; ')}`
+        );
+    }
+
+    const stubFile: StubFile = result.data;
+    const baseDir: string = path.dirname(filePath);
+
+    // Prepare all the stubs first, so nothing is installed if any of them is invalid
+    const installers: Array<() => AnyStub> = [];
+    let hasWebSocketStubs: boolean = false;
+    let hasSseStubs: boolean = false;
+    for (const definition of stubFile.stubs) {
+        // Fault profiles have multiple patterns and no delay of their own
+        if (definition.kind === StubKind.FAULT_PROFILE) {
+            if (
+                !definition.errors &&
+                !definition.latency &&
+                !definition.resets &&
+                !definition.truncation &&
+                !definition.bodyTransferDelay
+            ) {
+                throw new Error(
+                    `Invalid stub file ${filePath}: fault profile "${definition.name}" must have at least one fault`
+                );
+            }
+            const input: Parameters<typeof addFaultProfileStub>[1] = {
+                ...definition,
+                latency: normalizeFaultLatency(definition.latency),
+                times: normalizeTimesPublic(definition.times),
+            };
+            installers.push((): AnyStub => addFaultProfileStub(ctx, input));
+            continue;
+        }
+        const common: Pick<
+            StubMockHttpResponse,
+            'enabled' | 'pattern' | 'delayMs' | 'times'
+        > = {
+            enabled: definition.enabled,
+            pattern: definition.pattern,
+            delayMs: normalizeDelayMs(definition.delayMs),
+            times: normalizeTimesPublic(definition.times),
+        };
+        switch (definition.kind) {
+            case StubKind.MOCK_HTTP_RESPONSE: {
+                if (definition.template) {
+                    for (const text of [
+                        definition.body,
+                        ...Object.values(definition.headers ?? {}),
+                    ]) {
+                        if (text !== undefined) {
+                            validateTemplate(text);
+                        }
+                    }
+                }
+                const input: Parameters<typeof addMockHttpResponseStub>[1] = {
+                    ...definition,
+                    ...common,
+                    match: normalizeRequestMatch(definition.match),
+                    scenario: normalizeScenario(definition.scenario),
+                    bodyPath: definition.bodyPath
+                        ? await normalizeBodyPath(
+                              path.resolve(baseDir, definition.bodyPath.path),
+                              definition.bodyPath.urlPrefix
+                          )
+                        : undefined,
+                };
+                installers.push(
+                    (): AnyStub => addMockHttpResponseStub(ctx, input)
+                );
+                break;
+            }
+            case StubKind.INTERCEPT_HTTP_REQUEST: {
+                const input: Parameters<typeof addHttpInterceptRequestStub>[1] =
+                    {
+                        ...definition,
+                        ...common,
+                        match: normalizeRequestMatch(definition.match),
+                        scenario: normalizeScenario(definition.scenario),
+                    };
+                installers.push(
+                    (): AnyStub => addHttpInterceptRequestStub(ctx, input)
+                );
+                break;
+            }
+            case StubKind.REPLAY_HAR: {
+                const harPath: string = path.resolve(
+                    baseDir,
+                    definition.harPath
+                );
+                const input: Parameters<typeof addReplayHarStub>[1] = {
+                    ...definition,
+                    ...common,
+                    harPath,
+                    entries: await loadHarReplayEntries(harPath),
+                };
+                installers.push((): AnyStub => addReplayHarStub(ctx, input));
+                break;
+            }
+            case StubKind.MOCK_HTTP_SCENARIO: {
+                const scenario: StubScenario | undefined = normalizeScenario(
+                    definition.scenario
+                );
+                if (
+                    !scenario &&
+                    definition.steps.some(
+                        (step: StubScenarioStep): boolean =>
+                            step.newState !== undefined
+                    )
+                ) {
+                    throw new Error(
+                        `Invalid stub file ${filePath}: "newState" of the steps requires "scenario"`
+                    );
+                }
+                const input: Parameters<typeof addMockHttpScenarioStub>[1] = {
+                    ...definition,
+                    ...common,
+                    match: normalizeRequestMatch(definition.match),
+                    scenario,
+                };
+                installers.push(
+                    (): AnyStub => addMockHttpScenarioStub(ctx, input)
+                );
+                break;
+            }
+            case StubKind.MOCK_WEBSOCKET: {
+                if (
+                    !definition.connectToServer &&
+                    definition.replacements.length > 0
+                ) {
+                    throw new Error(
+                        `Invalid stub file ${filePath}: "replacements" requires "connectToServer"`
+                    );
+                }
+                definition.replies.forEach(
+                    (reply: StubWebSocketReply, i: number): void => {
+                        normalizeRegExpSource(
+                            reply.match,
+                            `replies.${i}.match`
+                        );
+                    }
+                );
+                definition.replacements.forEach(
+                    (
+                        replacement: StubWebSocketReplacement,
+                        i: number
+                    ): void => {
+                        normalizeRegExpSource(
+                            replacement.match,
+                            `replacements.${i}.match`
+                        );
+                    }
+                );
+                const input: Parameters<typeof addMockWebSocketStub>[1] = {
+                    ...definition,
+                    ...common,
+                };
+                hasWebSocketStubs = true;
+                installers.push(
+                    (): AnyStub => addMockWebSocketStub(ctx, input)
+                );
+                break;
+            }
+            case StubKind.MOCK_SSE: {
+                const input: Parameters<typeof addMockSseStub>[1] = {
+                    ...definition,
+                    ...common,
+                };
+                hasSseStubs = true;
+                installers.push((): AnyStub => addMockSseStub(ctx, input));
+                break;
+            }
+        }
+    }
+
+    await ensureRoutingInstalled(ctx);
+    if (hasWebSocketStubs) {
+        await ensureWebSocketRoutingInstalled(ctx);
+    }
+
+    if (replace) {
+        clearStub(ctx);
+    }
+
+    const stubs: Array<AnyStub> = installers.map(
+        (install: () => AnyStub): AnyStub => install()
+    );
+    if (hasSseStubs) {
+        // SSE stubs are installed into the pages by their patterns, so after they are added
+        await ensureSseStubsInstalled(ctx);
+    }
+    return stubs;
+}
@@ -1,37 +1,170 @@
-import { BrowserContextInfo, newBrowserContext, newPage } from '../browser';
-import { OTEL_ENABLE } from '../config';
+import {
+    BrowserContextInfo,
+    BrowserContextOptions,
+    BrowserType,
+    closeBrowserContext,
+    defaultBrowserContextOptions,
+    newBrowserContext,
+    newPage,
+} from '../browser';
+import { OTEL_ENABLE, STUB_PRELOAD_FILE } from '../config';
 import { ToolSessionContext } from '../context';
 import * as logger from '../logger';
+import { importStubFile } from './stub/stub-file';
 import { Tool, ToolInput, ToolOutput } from './types';
 
+import path from 'path';
+
 import type { Page } from 'playwright';
+import { z, ZodObject } from 'zod';
+
+/**
+ * Browser options which can be specified per session
+ * to override the global browser configuration.
+ */
+export type SessionBrowserOptions = {
+    browserType?: BrowserType;
+    headless?: boolean;
+    locale?: string;
+    timezone?: string;
+    userAgent?: string;
+};
+
+export type ToolExecutorOptions = SessionBrowserOptions & {
+    /**
+     * Name of the saved storage state to initialize the session's browser context with.
+     */
+    storageStateName?: string;
+    /**
+     * Path of the stub file (exported by "stub_export") to preload into the session's browser context.
+     * Overrides the "STUB_PRELOAD_FILE" configuration.
+     */
+    stubFile?: string;
+};
+
+export function sessionBrowserOptionsSchema(): ZodObject<any> {
+    return z
+        .object({
+            browserType: z
+                .nativeEnum(BrowserType)
+                .describe(
+                    'Browser engine of the session: "chromium", "firefox" or "webkit".'
+                )
+                .optional(),
+            headless: z
+                .boolean()
+                .describe('Whether to run the browser in headless mode.')
+                .optional(),
+            locale: z
+                .string()
+                .describe('Locale of the session (e.g. "en-US", "de-DE").')
+                .optional(),
+            timezone: z
+                .string()
+                .describe(
+                    'Timezone id of the session (e.g. "Europe/Istanbul", "America/New_York").'
+                )
+                .optional(),
+            userAgent: z
+                .string()
+                .describe('User agent string of the session.')
+                .optional(),
+        })
+        .strict();
+}
 
 export class ToolExecutor {
     private readonly sessionIdProvider: () => string;
+    private readonly optionsProvider: () => ToolExecutorOptions;
     private sessionContext?: ToolSessionContext;
 
-    constructor(sessionIdProvider: () => string) {
+    /**
+     * @param sessionIdProvider provides the id of the session
+     * @param optionsProvider provides the options of the session.
+     *                        It is called once, when the session context is created
+     *                        (on the first tool call or by "init").
+     */
+    constructor(
+        sessionIdProvider: () => string,
+        optionsProvider: () => ToolExecutorOptions = (): ToolExecutorOptions => ({})
+    ) {
         this.sessionIdProvider = sessionIdProvider;
+        this.optionsProvider = optionsProvider;
+    }
+
+    private _browserContextOptions(
+        options: ToolExecutorOptions
+    ): BrowserContextOptions {
+        const defaultOptions: BrowserContextOptions =
+            defaultBrowserContextOptions();
+        return {
+            ...defaultOptions,
+            browserOptions: {
+                ...defaultOptions.browserOptions,
+                browserType:
+                    options.browserType ??
+                    defaultOptions.browserOptions.browserType,
+                headless:
+                    options.headless ?? defaultOptions.browserOptions.headless,
+            },
+            emulation: {
+                locale: options.locale,
+                timezoneId: options.timezone,
+                userAgent: options.userAgent,
+            },
+            storageStateName: options.storageStateName,
+        };
     }
 
     private async _createSessionContext(): Promise<ToolSessionContext> {
-        const browserContextInfo: BrowserContextInfo =
-            await newBrowserContext();
-        const page: Page = await newPage(browserContextInfo.browserContext);
+        const options: ToolExecutorOptions = this.optionsProvider();
+        const browserContextOptions: BrowserContextOptions =
+            this._browserContextOptions(options);
+        const browserContextInfo: BrowserContextInfo = await newBrowserContext(
+            browserContextOptions
+        );
         const sessionId: string = this.sessionIdProvider();
 
-        const context: ToolSessionContext = new ToolSessionContext(
-            sessionId,
-            browserContextInfo.browserContext,
-            page,
-            {
-                otelEnable: OTEL_ENABLE,
-            }
-        );
+        let context: ToolSessionContext | undefined;
+        try {
+            const page: Page = await newPage(browserContextInfo.browserContext);
 
-        await context.init();
+            context = new ToolSessionContext(
+                sessionId,
+                browserContextInfo.browserContext,
+                page,
+                {
+                    otelEnable: OTEL_ENABLE,
+                    browserContextOptions,
+                }
+            );
+
+            await context.init();
 
-        return context;
+            const stubFile: string | undefined =
+                options.stubFile ?? STUB_PRELOAD_FILE;
+            if (stubFile) {
+                await importStubFile(
+                    context.browserContext,
+                    path.resolve(stubFile)
+                );
+                logger.debug(
+                    `Preloaded stubs from ${stubFile} into the session with id ${sessionId}`
+                );
+            }
+
+            return context;
+        } catch (err: any) {
+            // The session is dropped, so its browser context must not be left open
+            if (context) {
+                await context.close();
+            } else {
+                await closeBrowserContext(
+                    browserContextInfo.browserContext
+                ).catch((): void => {});
+            }
+            throw err;
+        }
     }
 
     private async _sessionContext(): Promise<ToolSessionContext> {
@@ -44,6 +177,14 @@ export class ToolExecutor {
         return this.sessionContext;
     }
 
+    /**
+     * Creates the session context eagerly (instead of on the first tool call),
+     * so errors in the browser context creation can be reported immediately.
+     */
+    async init(): Promise<void> {
+        await this._sessionContext();
+    }
+
     async executeTool(tool: Tool, args: ToolInput): Promise<ToolOutput> {
         logger.debug(
             `Executing tool ${tool.name()} with input: ${logger.toJson(args)}`
@@ -39,6 +39,7 @@ export type ConsoleMessage = {
         lineNumber: number;
         columnNumber: number;
     };
+    pageId?: string;
     timestamp: number;
     sequenceNumber: number;
 };
@@ -69,11 +70,82 @@ export enum HttpResourceType {
     OTHER = 'other',
 }
 
+/**
+ * Resource timing of an HTTP request.
+ * Except "startTime", all the values are in milliseconds relative to "startTime"
+ * and "-1" if not available.
+ */
+export type HttpRequestTiming = {
+    /**
+     * Unix epoch timestamp (in milliseconds) of the request start.
+     */
+    startTime: number;
+    domainLookupStart: number;
+    domainLookupEnd: number;
+    connectStart: number;
+    secureConnectionStart: number;
+    connectEnd: number;
+    requestStart: number;
+    responseStart: number;
+    responseEnd: number;
+};
+
+export type HttpRequestInitiatorFrame = {
+    functionName: string;
+    url: string;
+    /**
+     * 0-based line number in the script.
+     */
+    lineNumber: number;
+    /**
+     * 0-based column number in the script.
+     */
+    columnNumber: number;
+    /**
+     * Set on the first frame of an async stack
+     * to the description of the async operation (e.g. "Promise.then", "setTimeout").
+     */
+    asyncDescription?: string;
+    /**
+     * Location of the frame in the original source (0-based line and column numbers),
+     * resolved through the source map of the script (if available).
+     */
+    original?: {
+        source: string;
+        lineNumber: number;
+        columnNumber: number;
+    };
+};
+
+export type HttpRequestInitiator = {
+    /**
+     * Type of the initiator as reported by the browser
+     * (e.g. "parser", "script", "preload", "preflight", "other").
+     */
+    type: string;
+    url?: string;
+    lineNumber?: number;
+    columnNumber?: number;
+    /**
+     * Stack of the initiator script (including the async stacks).
+     */
+    stack?: HttpRequestInitiatorFrame[];
+};
+
 export type HttpRequest = {
     url: string;
     method: HttpMethod;
     headers: { [key: string]: string };
     body?: string;
+    /**
+     * Set to true if the request body has been truncated (or skipped if binary) on capture.
+     */
+    truncated?: boolean;
+    /**
+     * Original size of the request body in bytes (if any).
+     */
+    originalSize?: number;
+    contentType?: string;
     resourceType: HttpResourceType;
     failure?: string;
     duration?: number;
@@ -82,8 +154,114 @@ export type HttpRequest = {
         statusText: string;
         headers: { [key: string]: string };
         body?: string;
+        /**
+         * Set to "base64" if the body is binary and encoded in base64.
+         * Otherwise, the body is UTF-8 text.
+         */
+        bodyEncoding?: 'base64';
+        /**
+         * Set to true if the response body has been truncated (or skipped if binary) on capture.
+         */
+        truncated?: boolean;
+        /**
+         * Original size of the response body in bytes (if any).
+         */
+        originalSize?: number;
+        contentType?: string;
     };
+    timing?: HttpRequestTiming;
+    /**
+     * Initiator of the request (only available on Chromium-based browsers).
+     */
+    initiator?: HttpRequestInitiator;
+    /**
+     * Trace id of the request propagated by its "traceparent" header (if any).
+     */
+    traceId?: string;
+    /**
+     * Span id of the request (the parent span id of the server side spans)
+     * propagated by its "traceparent" header (if any).
+     */
+    spanId?: string;
     ok: boolean;
+    pageId?: string;
     timestamp: number;
     sequenceNumber: number;
 };
+
+export enum WebSocketFrameDirection {
+    SENT = 'sent',
+    RECEIVED = 'received',
+}
+
+export type WebSocketFrame = {
+    direction: WebSocketFrameDirection;
+    payload: string;
+    /**
+     * Set to "base64" if the payload is binary and encoded in base64.
+     * Otherwise, the payload is UTF-8 text.
+     */
+    payloadEncoding?: 'base64';
+    /**
+     * Size of the payload in bytes.
+     */
+    size: number;
+    timestamp: number;
+};
+
+export type WebSocketConnection = {
+    id: string;
+    url: string;
+    pageId?: string;
+    openedAt: number;
+    closedAt?: number;
+    error?: string;
+    /**
+     * Last frames (up to "WEBSOCKET_FRAMES_BUFFER_SIZE") of the connection.
+     */
+    frames: WebSocketFrame[];
+    /**
+     * Count of the older frames which have been dropped from the buffer.
+     */
+    droppedFrameCount: number;
+    sequenceNumber: number;
+};
+
+export type SseEvent = {
+    /**
+     * Id of the event stream (response) the event has been received from.
+     */
+    streamId: string;
+    url: string;
+    /**
+     * Resource type of the stream request (e.g. "eventsource", "fetch", "xhr").
+     */
+    resourceType: string;
+    /**
+     * Event type ("message" if the event has no type).
+     */
+    event: string;
+    data: string;
+    id?: string;
+    retry?: number;
+    pageId?: string;
+    timestamp: number;
+    sequenceNumber: number;
+};
+
+export type NetworkConditions = {
+    /**
+     * Name of the preset the conditions are based on (if any).
+     */
+    preset?: string;
+    offline: boolean;
+    latencyMs: number;
+    /**
+     * Download throughput in kilobits per second (-1 means no limit).
+     */
+    downloadKbps: number;
+    /**
+     * Upload throughput in kilobits per second (-1 means no limit).
+     */
+    uploadKbps: number;
+};
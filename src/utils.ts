@@ -66,6 +66,21 @@ export function formattedTimeForFilename(date = new Date()): string {
     );
 }
 
+/**
+ * Checks whether the body with the given content type is text (so can be decoded as UTF-8 safely).
+ * Bodies without content type are considered as text.
+ */
+export function isTextContentType(contentType: string | undefined): boolean {
+    const mimeType: string = (contentType || '').toLowerCase();
+    return (
+        !mimeType ||
+        mimeType.startsWith('text/') ||
+        /json|xml|javascript|ecmascript|x-www-form-urlencoded|graphql|csv|svg/.test(
+            mimeType
+        )
+    );
+}
+
 export function newTraceId(): string {
     return crypto.randomBytes(16).toString('hex');
 }
@@ -110,3 +125,134 @@ export function makeTraceparent(
 
     return `${v}-${tid}-${sid}-${f}`;
 }
+
+export type Traceparent = {
+    traceId: string;
+    spanId: string;
+    sampled: boolean;
+};
+
+/**
+ * Parses the given W3C "traceparent" header value,
+ * returns undefined if it is not valid.
+ */
+export function parseTraceparent(traceparent: string): Traceparent | undefined {
+    const match: RegExpExecArray | null =
+        /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(
+            traceparent.trim().toLowerCase()
+        );
+    if (
+        !match ||
+        match[1] === 'ff' ||
+        match[2] === '0'.repeat(32) ||
+        match[3] === '0'.repeat(16)
+    ) {
+        return undefined;
+    }
+    return {
+        traceId: match[2],
+        spanId: match[3],
+        sampled: (parseInt(match[4], 16) & 0x01) === 0x01,
+    };
+}
+
+export type ServerSentEvent = {
+    event: string;
+    data: string;
+    id?: string;
+    retry?: number;
+};
+
+/**
+ * Creates a parser for a Server-Sent Events stream (as specified by the HTML standard)
+ * which can be fed with the consecutive text chunks of the stream.
+ * The given callback is called for each complete event.
+ */
+export function createSseParser(
+    onEvent: (event: ServerSentEvent) => void
+): (chunk: string) => void {
+    let buffer: string = '';
+    let eventType: string = '';
+    let dataLines: string[] = [];
+    let id: string | undefined;
+    let retry: number | undefined;
+
+    const processLine = (line: string): void => {
+        if (line === '') {
+            if (dataLines.length > 0) {
+                onEvent({
+                    event: eventType || 'message',
+                    data: dataLines.join('\n'),
+                    id,
+                    retry,
+                });
+            }
+            eventType = '';
+            dataLines = [];
+            retry = undefined;
+            return;
+        }
+        if (line.startsWith(':')) {
+            // Comment (e.g. keep-alive)
+            return;
+        }
+        const colonIndex: number = line.indexOf(':');
+        const field: string =
+            colonIndex >= 0 ? line.substring(0, colonIndex) : line;
+        let value: string =
+            colonIndex >= 0 ? line.substring(colonIndex + 1) : '';
+        if (value.startsWith(' ')) {
+            value = value.substring(1);
+        }
+        if (field === 'event') {
+            eventType = value;
+        } else if (field === 'data') {
+            dataLines.push(value);
+        } else if (field === 'id') {
+            if (!value.includes('\0')) {
+                id = value;
+            }
+        } else if (field === 'retry') {
+            if (/^\d+$/.test(value)) {
+                retry = Number(value);
+            }
+        }
+    };
+
+    return (chunk: string): void => {
+        buffer += chunk;
+        for (;;) {
+            const match: RegExpMatchArray | null = buffer.match(/\r\n|\r|\n/);
+            if (!match || match.index === undefined) {
+                return;
+            }
+            // "\r" at the end might be followed by "\n" in the next chunk
+            if (match[0] === '\r' && match.index === buffer.length - 1) {
+                return;
+            }
+            const line: string = buffer.substring(0, match.index);
+            buffer = buffer.substring(match.index + match[0].length);
+            processLine(line);
+        }
+    };
+}
+
+/**
+ * Formats the given event in the Server-Sent Events wire format.
+ */
+export function formatSseEvent(event: Partial<ServerSentEvent>): string {
+    const lines: string[] = [];
+    if (event.event && event.event !== 'message') {
+        lines.push(`event: ${event.event}`);
+    }
+    if (event.id !== undefined) {
+        lines.push(`id: ${event.id}`);
+    }
+    if (event.retry !== undefined) {
+        lines.push(`retry: ${event.retry}`);
+    }
+    for (const dataLine of (event.data ?? '').split(/\r\n|\r|\n/)) {
+        lines.push(`data: ${dataLine}`);
+    }
+    return lines.join('\n') + '\n\n';
+}
@@ -285,14 +285,20 @@ export function registerToolCommands(
     for (const tool of tools) {
         const { domain, commandName } = _parseToolName(tool.name());
 
-        // Get or create domain command
+        // Get or create domain command.
+        // Reuse the already registered command (e.g. builtin "session" command) of the domain if there is
         let domainCommand: Command | undefined = domainCommands.get(domain);
         if (!domainCommand) {
-            domainCommand = new Command(domain).description(
-                `${domain.charAt(0).toUpperCase() + domain.slice(1)} commands`
+            domainCommand = program.commands.find(
+                (c: Command): boolean => c.name() === domain
             );
+            if (!domainCommand) {
+                domainCommand = new Command(domain).description(
+                    `${domain.charAt(0).toUpperCase() + domain.slice(1)} commands`
+                );
+                program.addCommand(domainCommand);
+            }
             domainCommands.set(domain, domainCommand);
-            program.addCommand(domainCommand);
         }
 
         // Create tool command with just the command name (without domain prefix)
@@ -0,0 +1,167 @@
+import * as logger from '../logger';
+
+import { SourceMap, SourceMapPayload } from 'module';
+
+const SOURCE_MAPPING_URL_REGEXP: RegExp =
+    /[#@]\s*sourceMappingURL=([^\s'"*]+)/g;
+const MAX_CACHED_SOURCE_MAPS: number = 100;
+
+export type SourceMapFetchResult = {
+    body: string;
+    headers: Record<string, string>;
+};
+
+/**
+ * Fetches the given URL, resolves to undefined if it is not available.
+ */
+export type SourceMapFetcher = (
+    url: string
+) => Promise<SourceMapFetchResult | undefined>;
+
+/**
+ * Location in the original source (0-based line and column numbers).
+ */
+export type OriginalLocation = {
+    source: string;
+    lineNumber: number;
+    columnNumber: number;
+};
+
+type LoadedSourceMap = {
+    url: string;
+    sourceMap: SourceMap;
+};
+
+/**
+ * Resolves the locations in the scripts to the locations in their original sources
+ * through the source maps of the scripts (referenced by the "sourceMappingURL" comment
+ * or the "SourceMap" response header of the scripts).
+ * Source maps are loaded once per script and cached.
+ */
+export class SourceMapResolver {
+    private readonly fetcher: SourceMapFetcher;
+    private readonly sourceMaps: Map<
+        string,
+        Promise<LoadedSourceMap | undefined>
+    > = new Map();
+
+    constructor(fetcher: SourceMapFetcher) {
+        this.fetcher = fetcher;
+    }
+
+    /**
+     * Resolves the given location (0-based line and column numbers) in the given script,
+     * resolves to undefined if the script has no source map or the location is not mapped.
+     */
+    async resolve(
+        scriptUrl: string,
+        lineNumber: number,
+        columnNumber: number
+    ): Promise<OriginalLocation | undefined> {
+        const loaded: LoadedSourceMap | undefined =
+            await this._getSourceMap(scriptUrl);
+        if (!loaded) {
+            return undefined;
+        }
+        const entry: any = loaded.sourceMap.findEntry(lineNumber, columnNumber);
+        if (!entry?.originalSource) {
+            return undefined;
+        }
+        return {
+            source: _resolveUrl(entry.originalSource, loaded.url),
+            lineNumber: entry.originalLine,
+            columnNumber: entry.originalColumn,
+        };
+    }
+
+    clear(): void {
+        this.sourceMaps.clear();
+    }
+
+    private _getSourceMap(
+        scriptUrl: string
+    ): Promise<LoadedSourceMap | undefined> {
+        let sourceMap: Promise<LoadedSourceMap | undefined> | undefined =
+            this.sourceMaps.get(scriptUrl);
+        if (!sourceMap) {
+            sourceMap = this._loadSourceMap(scriptUrl).catch(
+                (err: any): undefined => {
+                    logger.debug(
+                        `Unable to load the source map of the script ${scriptUrl}`,
+                        err
+                    );
+                    return undefined;
+                }
+            );
+            this.sourceMaps.set(scriptUrl, sourceMap);
+            if (this.sourceMaps.size > MAX_CACHED_SOURCE_MAPS) {
+                // Maps are iterated in insertion order, so the first key is the oldest one
+                this.sourceMaps.delete(this.sourceMaps.keys().next().value!);
+            }
+        }
+        return sourceMap;
+    }
+
+    private async _loadSourceMap(
+        scriptUrl: string
+    ): Promise<LoadedSourceMap | undefined> {
+        if (!/^https?:/i.test(scriptUrl)) {
+            return undefined;
+        }
+        const script: SourceMapFetchResult | undefined =
+            await this.fetcher(scriptUrl);
+        if (!script) {
+            return undefined;
+        }
+        const sourceMapRef: string | undefined =
+            script.headers['sourcemap'] ??
+            script.headers['x-sourcemap'] ??
+            _findSourceMappingUrl(script.body);
+        if (!sourceMapRef) {
+            return undefined;
+        }
+
+        const sourceMapUrl: string = _resolveUrl(sourceMapRef, scriptUrl);
+        const inline: boolean = sourceMapUrl.startsWith('data:');
+        const payload: string | undefined = inline
+            ? _decodeDataUrl(sourceMapUrl)
+            : (await this.fetcher(sourceMapUrl))?.body;
+        if (!payload) {
+            return undefined;
+        }
+        return {
+            // Sources of the inline source maps are relative to the script
+            url: inline ? scriptUrl : sourceMapUrl,
+            sourceMap: new SourceMap(JSON.parse(payload) as SourceMapPayload),
+        };
+    }
+}
+
+function _findSourceMappingUrl(script: string): string | undefined {
+    let sourceMappingUrl: string | undefined;
+    // The last one wins, as the bundled scripts might contain the comments of their modules
+    for (const match of script.matchAll(SOURCE_MAPPING_URL_REGEXP)) {
+        sourceMappingUrl = match[1];
+    }
+    return sourceMappingUrl;
+}
+
+function _decodeDataUrl(dataUrl: string): string | undefined {
+    const separatorIndex: number = dataUrl.indexOf(',');
+    if (separatorIndex < 0) {
+        return undefined;
+    }
+    const meta: string = dataUrl.substring(0, separatorIndex);
+    const data: string = dataUrl.substring(separatorIndex + 1);
+    return meta.endsWith(';base64')
+        ? Buffer.from(data, 'base64').toString('utf-8')
+        : decodeURIComponent(data);
+}
+
+function _resolveUrl(url: string, baseUrl: string): string {
+    try {
+        return new URL(url, baseUrl).toString();
+    } catch {
+        return url;
+    }
+}
@@ -0,0 +1,31 @@
+import type { BrowserContext, Request as PwRequest } from 'playwright';
+
+export type FakeRequestOptions = {
+    method?: string;
+    url: string;
+    headers?: Record<string, string>;
+    resourceType?: string;
+    postData?: string | null;
+};
+
+/**
+ * Creates a request with the given data, providing only the accessors used by the stubs.
+ */
+export function fakeRequest(options: FakeRequestOptions): PwRequest {
+    return {
+        method: (): string => options.method ?? 'GET',
+        url: (): string => options.url,
+        headers: (): Record<string, string> => options.headers ?? {},
+        resourceType: (): string => options.resourceType ?? 'fetch',
+        postData: (): string | null => options.postData ?? null,
+    } as unknown as PwRequest;
+}
+
+/**
+ * Creates a browser context which only accepts the HTTP routes installed by the stubs.
+ */
+export function fakeBrowserContext(): BrowserContext {
+    return {
+        route: async (): Promise<void> => {},
+    } as unknown as BrowserContext;
+}
@@ -0,0 +1,178 @@
+import {
+    OTELSpan,
+    OTELSpanKind,
+    OTELSpanStatusCode,
+    OTELSpanStore,
+} from '../../src/otel/otel-span-store';
+
+const TRACE_ID: string = '5b8efff798038103d269b633813fc60c';
+const SPAN_ID: string = 'eee19b7ec3c1b174';
+const PARENT_SPAN_ID: string = 'eee19b7ec3c1b173';
+
+function _payload(spans: any[]): any {
+    return {
+        resourceSpans: [
+            {
+                resource: {
+                    attributes: [
+                        { key: 'service.name', value: { stringValue: 'web' } },
+                    ],
+                },
+                scopeSpans: [{ scope: { name: 'fetch' }, spans }],
+            },
+        ],
+    };
+}
+
+function _span(name: string, overrides: any = {}): any {
+    return {
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        name,
+        startTimeUnixNano: '1700000000000000000',
+        endTimeUnixNano: '1700000000250000000',
+        ...overrides,
+    };
+}
+
+describe('OTELSpanStore', () => {
+    it('converts the OTLP/JSON spans', () => {
+        const store: OTELSpanStore = new OTELSpanStore(10);
+        const count: number = store.addTraces(
+            _payload([
+                _span('GET /api/users', {
+                    parentSpanId: PARENT_SPAN_ID,
+                    kind: 3,
+                    attributes: [
+                        { key: 'http.method', value: { stringValue: 'GET' } },
+                        { key: 'http.status_code', value: { intValue: '200' } },
+                        { key: 'cached', value: { boolValue: false } },
+                        { key: 'ratio', value: { doubleValue: 0.5 } },
+                        {
+                            key: 'tags',
+                            value: {
+                                arrayValue: {
+                                    values: [
+                                        { stringValue: 'a' },
+                                        { intValue: 1 },
+                                    ],
+                                },
+                            },
+                        },
+                        {
+                            key: 'user',
+                            value: {
+                                kvlistValue: {
+                                    values: [
+                                        { key: 'id', value: { intValue: 7 } },
+                                    ],
+                                },
+                            },
+                        },
+                    ],
+                    events: [
+                        {
+                            name: 'retry',
+                            timeUnixNano: 1700000000100000000,
+                            attributes: [
+                                { key: 'attempt', value: { intValue: 2 } },
+                            ],
+                        },
+                    ],
+                    status: { code: 2, message: 'failed' },
+                }),
+            ])
+        );
+
+        expect(count).toBe(1);
+        const [span] = store.getSpans();
+        expect(span).toEqual({
+            traceId: TRACE_ID,
+            spanId: SPAN_ID,
+            parentSpanId: PARENT_SPAN_ID,
+            name: 'GET /api/users',
+            kind: OTELSpanKind.CLIENT,
+            startTime: 1700000000000,
+            endTime: 1700000000250,
+            duration: 250,
+            attributes: {
+                'http.method': 'GET',
+                'http.status_code': 200,
+                cached: false,
+                ratio: 0.5,
+                tags: ['a', 1],
+                user: { id: 7 },
+            },
+            events: [
+                {
+                    name: 'retry',
+                    timestamp: 1700000000100,
+                    attributes: { attempt: 2 },
+                },
+            ],
+            status: { code: OTELSpanStatusCode.ERROR, message: 'failed' },
+            serviceName: 'web',
+            scopeName: 'fetch',
+            sequenceNumber: 1,
+        } satisfies OTELSpan);
+    });
+
+    it('accepts the base64 ids and the long bits timestamps', () => {
+        const store: OTELSpanStore = new OTELSpanStore(10);
+        store.addTraces(
+            _payload([
+                _span('base64', {
+                    traceId: Buffer.from(TRACE_ID, 'hex').toString('base64'),
+                    spanId: Buffer.from(SPAN_ID, 'hex').toString('base64'),
+                    startTimeUnixNano: { low: 1000000, high: 0 },
+                    endTimeUnixNano: { low: 3000000, high: 0 },
+                }),
+            ])
+        );
+
+        const [span] = store.getSpans();
+        expect(span.traceId).toBe(TRACE_ID);
+        expect(span.spanId).toBe(SPAN_ID);
+        expect(span.parentSpanId).toBeUndefined();
+        expect(span.startTime).toBe(1);
+        expect(span.duration).toBe(2);
+        expect(span.kind).toBe(OTELSpanKind.UNSPECIFIED);
+        expect(span.status).toEqual({ code: OTELSpanStatusCode.UNSET });
+    });
+
+    it('skips the spans without valid ids', () => {
+        const store: OTELSpanStore = new OTELSpanStore(10);
+        const count: number = store.addTraces(
+            _payload([
+                _span('no trace id', { traceId: undefined }),
+                _span('short span id', { spanId: 'abc' }),
+                _span('valid'),
+            ])
+        );
+
+        expect(count).toBe(1);
+        expect(store.getSpans().map((s: OTELSpan): string => s.name)).toEqual([
+            'valid',
+        ]);
+        expect(store.addTraces(undefined)).toBe(0);
+        expect(store.addTraces({ resourceSpans: [{}] })).toBe(0);
+    });
+
+    it('drops the oldest spans when full', () => {
+        const store: OTELSpanStore = new OTELSpanStore(2);
+        store.addTraces(_payload([_span('1'), _span('2')]));
+        store.addTraces(_payload([_span('3')]));
+
+        expect(
+            store
+                .getSpans()
+                .map((s: OTELSpan): string => `${s.name}:${s.sequenceNumber}`)
+        ).toEqual(['2:2', '3:3']);
+        expect(store.droppedCount()).toBe(1);
+
+        store.clear();
+        expect(store.getSpans()).toEqual([]);
+        store.addTraces(_payload([_span('4')]));
+        expect(store.getSpans()[0].sequenceNumber).toBe(4);
+    });
+});
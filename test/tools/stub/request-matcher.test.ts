@@ -0,0 +1,242 @@
+import {
+    getJsonPath,
+    getRequestMatchFields,
+    matchesRequest,
+    normalizeRequestMatch,
+    parseJson,
+    StubRequestMatch,
+} from '../../../src/tools/stub/request-matcher';
+import { fakeRequest } from '../../helpers';
+
+describe('normalizeRequestMatch', () => {
+    it('returns undefined for missing or empty criteria', () => {
+        expect(normalizeRequestMatch(undefined)).toBeUndefined();
+        expect(
+            normalizeRequestMatch({
+                method: ' ',
+                headers: {},
+                query: {},
+                graphql: {},
+            })
+        ).toBeUndefined();
+    });
+
+    it('normalizes the method, resource type and header names', () => {
+        expect(
+            normalizeRequestMatch({
+                method: ' post ',
+                resourceType: 'XHR',
+                headers: { 'X-Tenant': 'acme' },
+            })
+        ).toEqual({
+            method: 'POST',
+            resourceType: 'xhr',
+            headers: { 'x-tenant': 'acme' },
+        });
+    });
+});
+
+describe('getRequestMatchFields', () => {
+    it('lists the fields used by the criteria', () => {
+        expect(
+            getRequestMatchFields({
+                method: 'POST',
+                headers: { 'x-tenant': 'acme' },
+                query: { page: '1' },
+                jsonBody: { 'user.id': 1 },
+                graphql: { operationName: 'GetUser', variables: { id: 1 } },
+            })
+        ).toEqual([
+            'method',
+            'headers.x-tenant',
+            'query.page',
+            'jsonBody.user.id',
+            'graphql.operationName',
+            'graphql.variables.id',
+        ]);
+        expect(getRequestMatchFields(undefined)).toEqual([]);
+    });
+});
+
+describe('getJsonPath', () => {
+    const obj: any = { user: { id: 7 }, items: [{ sku: 'a' }, { sku: 'b' }] };
+
+    it('resolves dotted and indexed paths', () => {
+        expect(getJsonPath(obj, 'user.id')).toBe(7);
+        expect(getJsonPath(obj, 'items[1].sku')).toBe('b');
+        expect(getJsonPath(obj, '$.items[0].sku')).toBe('a');
+    });
+
+    it('returns undefined for missing paths', () => {
+        expect(getJsonPath(obj, 'user.name.first')).toBeUndefined();
+        expect(getJsonPath(obj, 'items[5].sku')).toBeUndefined();
+    });
+});
+
+describe('parseJson', () => {
+    it('returns undefined for empty or invalid JSON', () => {
+        expect(parseJson(undefined)).toBeUndefined();
+        expect(parseJson('')).toBeUndefined();
+        expect(parseJson('{')).toBeUndefined();
+        expect(parseJson('{"a":1}')).toEqual({ a: 1 });
+    });
+});
+
+describe('matchesRequest', () => {
+    it('matches any request without criteria', () => {
+        expect(
+            matchesRequest(undefined, fakeRequest({ url: 'https://x.io/' }))
+        ).toBe(true);
+    });
+
+    it('matches by method, resource type and headers', () => {
+        const match: StubRequestMatch | undefined = normalizeRequestMatch({
+            method: 'post',
+            resourceType: 'fetch',
+            headers: { 'X-Tenant': 'acme' },
+        });
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({
+                    method: 'POST',
+                    url: 'https://x.io/api',
+                    headers: { 'x-tenant': 'acme' },
+                })
+            )
+        ).toBe(true);
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({
+                    method: 'GET',
+                    url: 'https://x.io/api',
+                    headers: { 'x-tenant': 'acme' },
+                })
+            )
+        ).toBe(false);
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({
+                    method: 'POST',
+                    url: 'https://x.io/api',
+                    headers: { 'x-tenant': 'other' },
+                })
+            )
+        ).toBe(false);
+    });
+
+    it('matches by query parameters', () => {
+        const match: StubRequestMatch | undefined = normalizeRequestMatch({
+            query: { page: '2' },
+        });
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({ url: 'https://x.io/api?page=2&size=10' })
+            )
+        ).toBe(true);
+        expect(
+            matchesRequest(match, fakeRequest({ url: 'https://x.io/api' }))
+        ).toBe(false);
+    });
+
+    it('matches by JSON body paths with deep equality', () => {
+        const match: StubRequestMatch | undefined = normalizeRequestMatch({
+            jsonBody: { 'user.id': 7, 'items[0]': { sku: 'a' } },
+        });
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({
+                    method: 'POST',
+                    url: 'https://x.io/api',
+                    postData: JSON.stringify({
+                        user: { id: 7 },
+                        items: [{ sku: 'a' }],
+                    }),
+                })
+            )
+        ).toBe(true);
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({
+                    method: 'POST',
+                    url: 'https://x.io/api',
+                    postData: JSON.stringify({
+                        user: { id: 7 },
+                        items: [{ sku: 'a', qty: 1 }],
+                    }),
+                })
+            )
+        ).toBe(false);
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({
+                    method: 'POST',
+                    url: 'https://x.io/api',
+                    postData: 'not json',
+                })
+            )
+        ).toBe(false);
+    });
+
+    it('matches GraphQL operations in the body, batches and GET query parameters', () => {
+        const match: StubRequestMatch | undefined = normalizeRequestMatch({
+            graphql: { operationName: 'GetUser', variables: { id: 1 } },
+        });
+        const operation: any = {
+            operationName: 'GetUser',
+            variables: { id: 1, locale: 'en' },
+        };
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({
+                    method: 'POST',
+                    url: 'https://x.io/graphql',
+                    postData: JSON.stringify(operation),
+                })
+            )
+        ).toBe(true);
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({
+                    method: 'POST',
+                    url: 'https://x.io/graphql',
+                    postData: JSON.stringify([
+                        { operationName: 'Other' },
+                        operation,
+                    ]),
+                })
+            )
+        ).toBe(true);
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({
+                    url: `https://x.io/graphql?operationName=GetUser&variables=${encodeURIComponent(
+                        '{"id":1}'
+                    )}`,
+                })
+            )
+        ).toBe(true);
+        expect(
+            matchesRequest(
+                match,
+                fakeRequest({
+                    method: 'POST',
+                    url: 'https://x.io/graphql',
+                    postData: JSON.stringify({
+                        operationName: 'GetUser',
+                        variables: { id: 2 },
+                    }),
+                })
+            )
+        ).toBe(false);
+    });
+});
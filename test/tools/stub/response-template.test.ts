@@ -0,0 +1,107 @@
+import {
+    renderResponseTemplate,
+    validateTemplate,
+} from '../../../src/tools/stub/response-template';
+import { fakeRequest } from '../../helpers';
+
+describe('validateTemplate', () => {
+    it('accepts the request fields and the helpers', () => {
+        expect(() =>
+            validateTemplate(
+                '{{request.method}} {{request.pathParams.id}} {{request.jsonBody.user.id}} ' +
+                    '{{uuid}} {{now epoch}} {{randomInt 1 10}} {{randomInt}}'
+            )
+        ).not.toThrow();
+    });
+
+    it('rejects unknown request fields and helpers', () => {
+        expect(() => validateTemplate('{{request.cookies.sid}}')).toThrow(
+            /Unknown request field/
+        );
+        expect(() => validateTemplate('{{random}}')).toThrow(
+            /Unknown template placeholder/
+        );
+    });
+
+    it('rejects invalid randomInt ranges', () => {
+        expect(() => validateTemplate('{{randomInt 1 x}}')).toThrow(
+            /integers expected/
+        );
+        expect(() => validateTemplate('{{randomInt 10 1}}')).toThrow(
+            /must not be greater than max/
+        );
+        // max is 100 by default
+        expect(() => validateTemplate('{{randomInt 200}}')).toThrow(
+            /must not be greater than max/
+        );
+    });
+});
+
+describe('renderResponseTemplate', () => {
+    it('renders the request data into the body and the header values', () => {
+        const rendered = renderResponseTemplate(
+            { pathPattern: '/api/users/:id' },
+            fakeRequest({
+                method: 'POST',
+                url: 'https://x.io/api/users/42?locale=en',
+                headers: { 'x-request-id': 'r-1' },
+                postData: JSON.stringify({ user: { name: 'Ada' } }),
+            }),
+            {
+                headers: { 'x-echo': '{{request.headers.X-Request-Id}}' },
+                body:
+                    '{"id": "{{request.pathParams.id}}", "locale": "{{request.query.locale}}", ' +
+                    '"name": "{{request.jsonBody.user.name}}", "method": "{{ request.method }}", ' +
+                    '"missing": "{{request.query.missing}}", "user": {{request.jsonBody.user}}}',
+            }
+        );
+        expect(rendered.headers).toEqual({ 'x-echo': 'r-1' });
+        expect(JSON.parse(rendered.body!)).toEqual({
+            id: '42',
+            locale: 'en',
+            name: 'Ada',
+            method: 'POST',
+            missing: '',
+            user: { name: 'Ada' },
+        });
+    });
+
+    it('matches the path pattern against the whole path', () => {
+        const render = (url: string): string | undefined =>
+            renderResponseTemplate(
+                { pathPattern: '/users/:id' },
+                fakeRequest({ url }),
+                { body: '{{request.pathParams.id}}' }
+            ).body;
+        expect(render('https://x.io/users/42')).toBe('42');
+        expect(render('https://x.io/users/42/')).toBe('42');
+        expect(render('https://x.io/admin/users/42')).toBe('');
+    });
+
+    it('decodes the path parameters and keeps the malformed ones as is', () => {
+        const render = (url: string): string | undefined =>
+            renderResponseTemplate(
+                { pathPattern: '/files/:name' },
+                fakeRequest({ url }),
+                { body: '{{request.pathParams.name}}' }
+            ).body;
+        expect(render('https://x.io/files/a%20b')).toBe('a b');
+        expect(render('https://x.io/files/a%E0%A4%A')).toBe('a%E0%A4%A');
+    });
+
+    it('renders randomInt within its range', () => {
+        for (let i: number = 0; i < 20; i++) {
+            const value: number = Number(
+                renderResponseTemplate(
+                    {},
+                    fakeRequest({ url: 'https://x.io/' }),
+                    {
+                        body: '{{randomInt 3 5}}',
+                    }
+                ).body
+            );
+            expect(value).toBeGreaterThanOrEqual(3);
+            expect(value).toBeLessThanOrEqual(5);
+        }
+    });
+});
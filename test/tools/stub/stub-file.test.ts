@@ -0,0 +1,187 @@
+import {
+    importStubFile,
+    STUB_FILE_VERSION,
+    StubFile,
+    writeStubFile,
+} from '../../../src/tools/stub/stub-file';
+import {
+    addFaultProfileStub,
+    addMockHttpResponseStub,
+    AnyStub,
+    listStubs,
+    StubKind,
+} from '../../../src/tools/stub/stub-controller';
+import { fakeBrowserContext } from '../../helpers';
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import type { BrowserContext } from 'playwright';
+import YAML from 'yaml';
+
+describe('stub file', () => {
+    let dir: string;
+
+    beforeEach(async (): Promise<void> => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'stub-file-'));
+    });
+
+    afterEach(async (): Promise<void> => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    function _addStubs(ctx: BrowserContext): Array<AnyStub> {
+        return [
+            addMockHttpResponseStub(ctx, {
+                enabled: true,
+                pattern: '**/api/users/*',
+                delayMs: 0,
+                times: 2,
+                action: 'fulfill',
+                status: 201,
+                headers: { 'content-type': 'application/json' },
+                body: '{"id": "{{request.pathParams.id}}"}',
+                template: { pathPattern: '/api/users/:id' },
+                match: { method: 'POST' },
+            }),
+            addFaultProfileStub(ctx, {
+                enabled: true,
+                times: -1,
+                name: 'flaky',
+                patterns: ['**/api/**'],
+                errors: { rate: 0.5, statuses: [503] },
+            }),
+        ];
+    }
+
+    async function _writeFile(
+        fileName: string,
+        content: unknown
+    ): Promise<string> {
+        const filePath: string = path.join(dir, fileName);
+        await fs.writeFile(filePath, JSON.stringify(content), 'utf-8');
+        return filePath;
+    }
+
+    it.each(['stubs.json', 'stubs.yaml'])(
+        'exports and imports the stubs through %s',
+        async (fileName: string): Promise<void> => {
+            const exported: Array<AnyStub> = _addStubs(fakeBrowserContext());
+            const filePath: string = path.join(dir, 'nested', fileName);
+            await writeStubFile(filePath, exported);
+
+            const text: string = await fs.readFile(filePath, 'utf-8');
+            const stubFile: StubFile = fileName.endsWith('.yaml')
+                ? YAML.parse(text)
+                : JSON.parse(text);
+            expect(stubFile.version).toBe(STUB_FILE_VERSION);
+            expect(stubFile.stubs.map((s: any): string => s.kind)).toEqual([
+                StubKind.MOCK_HTTP_RESPONSE,
+                StubKind.FAULT_PROFILE,
+            ]);
+            for (const definition of stubFile.stubs) {
+                expect(definition).not.toHaveProperty('id');
+                expect(definition).not.toHaveProperty('usedCount');
+                expect(definition).not.toHaveProperty('faultCounts');
+            }
+
+            const ctx: BrowserContext = fakeBrowserContext();
+            const imported: Array<AnyStub> = await importStubFile(
+                ctx,
+                filePath
+            );
+            expect(listStubs(ctx)).toEqual(imported);
+            const [mock, fault] = imported;
+            expect(mock).toMatchObject({
+                kind: StubKind.MOCK_HTTP_RESPONSE,
+                pattern: '**/api/users/*',
+                times: 2,
+                status: 201,
+                template: { pathPattern: '/api/users/:id' },
+                match: { method: 'POST' },
+                usedCount: 0,
+            });
+            expect(mock.matcher('https://x.io/api/users/42')).toBe(true);
+            expect(fault).toMatchObject({
+                kind: StubKind.FAULT_PROFILE,
+                name: 'flaky',
+                patterns: ['**/api/**'],
+                errors: { rate: 0.5, statuses: [503] },
+            });
+        }
+    );
+
+    it('keeps or replaces the installed stubs', async (): Promise<void> => {
+        const ctx: BrowserContext = fakeBrowserContext();
+        await writeStubFile(
+            path.join(dir, 'stubs.json'),
+            _addStubs(fakeBrowserContext())
+        );
+        _addStubs(ctx);
+
+        // The imported fault profile replaces the installed one with the same name
+        await importStubFile(ctx, path.join(dir, 'stubs.json'));
+        expect(listStubs(ctx)).toHaveLength(3);
+        await importStubFile(ctx, path.join(dir, 'stubs.json'), true);
+        expect(listStubs(ctx)).toHaveLength(2);
+    });
+
+    it('rejects unreadable and invalid stub files', async (): Promise<void> => {
+        const ctx: BrowserContext = fakeBrowserContext();
+        await expect(
+            importStubFile(ctx, path.join(dir, 'missing.json'))
+        ).rejects.toThrow(/Unable to read stub file/);
+
+        const unsupported: string = await _writeFile('unsupported.json', {
+            version: STUB_FILE_VERSION + 1,
+            stubs: [],
+        });
+        await expect(importStubFile(ctx, unsupported)).rejects.toThrow(
+            /Invalid stub file .*version: Unsupported stub file version/
+        );
+
+        const invalidStatus: string = await _writeFile('status.json', {
+            version: STUB_FILE_VERSION,
+            stubs: [
+                {
+                    kind: StubKind.MOCK_HTTP_RESPONSE,
+                    pattern: '**/*',
+                    status: 99,
+                },
+            ],
+        });
+        await expect(importStubFile(ctx, invalidStatus)).rejects.toThrow(
+            /Invalid stub file .*stubs\.0\.status/
+        );
+    });
+
+    it('installs nothing if any of the stubs is invalid', async (): Promise<void> => {
+        const ctx: BrowserContext = fakeBrowserContext();
+        const filePath: string = await _writeFile('stubs.json', {
+            version: STUB_FILE_VERSION,
+            stubs: [
+                {
+                    kind: StubKind.MOCK_HTTP_RESPONSE,
+                    pattern: '**/api/users',
+                    body: '[]',
+                },
+                {
+                    kind: StubKind.FAULT_PROFILE,
+                    name: 'empty',
+                    patterns: ['**/*'],
+                },
+                {
+                    kind: StubKind.MOCK_HTTP_RESPONSE,
+                    pattern: '**/api/users/*',
+                    body: '{{request.cookies.sid}}',
+                    template: {},
+                },
+            ],
+        });
+        await expect(importStubFile(ctx, filePath, true)).rejects.toThrow(
+            /fault profile "empty" must have at least one fault/
+        );
+        expect(listStubs(ctx)).toHaveLength(0);
+    });
+});